@@ -0,0 +1,119 @@
+/**
+ * Service worker: keeps the app shell and the last feed response so the map
+ * still opens without a connection. Queued writes live in IndexedDB and are
+ * replayed by the page (src/offline.ts), not here. Also shows the watch zone
+ * notifications the server pushes (server/push.ts).
+ */
+const VERSION = "v1";
+const SHELL_CACHE = `shell-${VERSION}`;
+const DATA_CACHE = `data-${VERSION}`;
+// Any full /api/posts answer is kept under this one key, whatever the viewport was
+const LAST_POSTS_KEY = "/api/posts?last";
+const SHELL_FILES = ["/", "/manifest.webmanifest", "/icon.svg", "/icon-maskable.svg"];
+
+// Also precaches the scripts and styles the built index.html points at, so the first visit already works offline
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_FILES);
+  const html = await (await cache.match("/")).text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+  await cache.addAll(assets);
+}
+
+self.addEventListener("install", event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (name !== SHELL_CACHE && name !== DATA_CACHE) await caches.delete(name);
+    }
+    await self.clients.claim();
+  })());
+});
+
+// Pages: the network when it answers, so deploys show up at once; otherwise the cached shell
+async function navigate(request) {
+  try {
+    const response = await fetch(request);
+    // Spot pages carry that spot's title and link preview tags, so only plain pages become the offline shell
+    if (response.ok && !new URL(request.url).pathname.startsWith("/spot/")) (await caches.open(SHELL_CACHE)).put("/", response.clone());
+    return response;
+  } catch {
+    return (await caches.match("/")) ?? Response.error();
+  }
+}
+
+// Built assets have content hashes in their names, so a cached copy never goes stale
+async function asset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(SHELL_CACHE)).put(request, response.clone());
+  return response;
+}
+
+async function posts(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(DATA_CACHE)).put(LAST_POSTS_KEY, response.clone());
+    return response;
+  } catch {
+    return (await caches.match(LAST_POSTS_KEY)) ?? Response.error();
+  }
+}
+
+// The optional road graph for offline walking directions (src/routing.ts); kept from the last time it loaded
+async function roadGraph(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(DATA_CACHE)).put(request, response.clone());
+    return response;
+  } catch {
+    return (await caches.match(request)) ?? Response.error();
+  }
+}
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(navigate(request));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(asset(request));
+  } else if (url.pathname === "/api/posts" && !url.searchParams.has("since")) {
+    // Deltas only make sense against the cursor they were asked with, so they are never cached
+    event.respondWith(posts(request));
+  } else if (url.pathname === "/road-graph.json") {
+    event.respondWith(roadGraph(request));
+  }
+});
+
+// The payload is a PushMessage: { title, body, url, tag }
+self.addEventListener("push", event => {
+  const message = event.data?.json() ?? {};
+  event.waitUntil(self.registration.showNotification(message.title ?? "বিরিয়ানি দিবে", {
+    body: message.body,
+    tag: message.tag,
+    icon: "/icon.svg",
+    data: { url: message.url ?? "/" },
+  }));
+});
+
+// Reuses an open tab when there is one rather than opening the app twice
+self.addEventListener("notificationclick", event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "/", self.location.origin).href;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+    const open = windows.find(client => new URL(client.url).origin === self.location.origin);
+    if (open) {
+      await open.focus();
+      return open.navigate(url);
+    }
+    return self.clients.openWindow(url);
+  })());
+});
@@ -0,0 +1,13 @@
+/**
+ * Generates the VAPID key pair Web Push notifications are signed with.
+ *
+ *   npm run vapid    print VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY lines for .env
+ *
+ * Keep the pair once browsers have subscribed: a new public key invalidates
+ * every existing subscription.
+ */
+import webpush from "web-push";
+
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+console.log(`VAPID_PUBLIC_KEY="${publicKey}"`);
+console.log(`VAPID_PRIVATE_KEY="${privateKey}"`);
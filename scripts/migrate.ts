@@ -0,0 +1,34 @@
+/**
+ * Database migration CLI.
+ *
+ *   npm run migrate            apply pending migrations
+ *   npm run migrate -- status  list migrations and when each was applied
+ */
+import { dbPath, openDatabase } from "../server/db";
+import { migrationStatus, runMigrations } from "../server/migrate";
+
+async function main() {
+  const command = process.argv[2] ?? "up";
+  const db = await openDatabase();
+  try {
+    if (command === "status") {
+      console.log(`Database: ${dbPath}`);
+      for (const m of migrationStatus(db)) {
+        console.log(`${String(m.version).padStart(3, "0")}_${m.name.padEnd(20)} ${m.applied_at ?? "pending"}`);
+      }
+    } else if (command === "up") {
+      const applied = runMigrations(db);
+      console.log(applied.length ? `Applied ${applied.length} migration(s)` : "Database is up to date");
+    } else {
+      console.error(`Unknown command "${command}". Use "up" or "status".`);
+      process.exitCode = 1;
+    }
+  } finally {
+    db.close();
+  }
+}
+
+main().catch(err => {
+  console.error('Migration failed:', err);
+  process.exit(1);
+});
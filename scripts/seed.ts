@@ -0,0 +1,18 @@
+/**
+ * Adds the sample spots to the configured storage.
+ *
+ *   npm run seed
+ */
+import { getDb } from "../server/db";
+import { getStorage } from "../server/storage";
+import { seedSampleData } from "../server/seed";
+
+async function main() {
+  const added = await seedSampleData(await getDb(), await getStorage());
+  console.log(added ? `Added ${added} sample post(s)` : "Sample posts already present");
+}
+
+main().catch(err => {
+  console.error('Seeding failed:', err);
+  process.exit(1);
+});
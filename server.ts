@@ -1,87 +1,80 @@
 import express from "express";
+import { z } from "zod";
 import { createServer } from "http";
+import { randomBytes } from "crypto";
 import { Server } from "socket.io";
 import { createServer as createViteServer } from "vite";
-import Database from "better-sqlite3";
 import path from "path";
+import { readFile } from "fs/promises";
 import { fileURLToPath } from "url";
+import { getDb } from "./server/db";
+import { attachUser, registerAuthRoutes, requireUser } from "./server/auth";
+import { registerModerationRoutes } from "./server/moderation";
+import { isShadowBanned, liftExpiredShadowBans, registerSpamRoutes, screenFalseVotes, screenNewPost } from "./server/spam";
+import { rateLimit } from "./server/rate-limit";
+import { idempotent } from "./server/idempotency";
+import { findDuplicates, registerDuplicateRoutes } from "./server/duplicates";
+import { refreshPostReputations, registerReputationRoutes } from "./server/reputation";
+import { registerPhotoRoutes } from "./server/photos";
+import { registerUpdateRoutes } from "./server/updates";
+import { notifyWatchers, registerWatchZoneRoutes } from "./server/watch-zones";
+import { publish, registerRealtimeRoutes, setSocketServer } from "./server/realtime";
+import { isFoodType, listFoodTypes, registerFoodTypeRoutes } from "./server/food-types";
+import { parsePostQuery } from "./server/posts";
+import { registerClusterRoutes } from "./server/clusters";
+import { registerShareRoutes } from "./server/share";
+import { postDelta, sendWithEtag, sinceSchema, syncCursor } from "./server/sync";
+import { getStorage } from "./server/storage";
+import { seedSampleData } from "./server/seed";
+import { materializeSchedules, registerScheduleRoutes } from "./server/schedules";
+import { DEFAULT_DURATION_MINUTES, MAX_DURATION_MINUTES, defaultEndsAt } from "./shared/lifecycle";
+import {
+  CALCULATION_METHODS, computePrayerTimes, prayerRuleApplies, prayerRuleSchema, resolvePrayerRule,
+} from "./server/prayer-times";
+import { DEFAULT_TIMEZONE, localDate } from "./server/time";
+import { ApiError, asyncRoute, errorHandler, fieldError, invalidField, notFound } from "./server/errors";
+import {
+  isoTimestamp, latitude, localDateString, longitude, optionalText, queryNumber, requiredText, validate,
+} from "./server/validation";
+
+const createPostSchema = z.object({
+  // Generated by the client so a retried submission cannot create the spot twice
+  id: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/).optional(),
+  place_name: requiredText(120),
+  food_type: z.string(),
+  description: optionalText(500),
+  lat: latitude,
+  lng: longitude,
+  distribution_time: isoTimestamp.optional(),
+  ends_at: isoTimestamp.optional(),
+  duration_minutes: z.number().int().min(1).max(MAX_DURATION_MINUTES).optional(),
+  prayer_rule: prayerRuleSchema.nullish(),
+  /** Local date the prayer rule is resolved for; defaults to today in Dhaka */
+  date: localDateString.nullish(),
+  /** Post even though similar spots exist, after the client has shown them */
+  allow_duplicate: z.boolean().optional(),
+});
+
+const voteSchema = z.object({
+  post_id: requiredText(100),
+  vote_type: z.union([z.literal(0), z.literal(1)]),
+});
+
+const prayerTimesQuerySchema = z.object({
+  lat: queryNumber(latitude),
+  lng: queryNumber(longitude),
+  date: localDateString.default(() => localDate(new Date(), DEFAULT_TIMEZONE)),
+  method: z.enum(Object.keys(CALCULATION_METHODS) as [string, ...string[]]).optional(),
+  asr: z.enum(["standard", "hanafi"]).optional(),
+});
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Use /tmp for SQLite on Vercel/Serverless
-const dbPath = process.env.NODE_ENV === "production" ? "/tmp/biryani.db" : "biryani.db";
-let db: any = null;
-
-async function getDb() {
-  if (db) return db;
-  try {
-    const { default: Database } = await import("better-sqlite3");
-    db = new Database(dbPath);
-    console.log(`Database connected at ${dbPath}`);
-    
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS users (id TEXT PRIMARY KEY, name TEXT, email TEXT, avatar TEXT);
-      CREATE TABLE IF NOT EXISTS posts (
-        id TEXT PRIMARY KEY, user_id TEXT, place_name TEXT, description TEXT,
-        lat REAL, lng REAL, distribution_time TEXT, created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-      CREATE TABLE IF NOT EXISTS votes (
-        id INTEGER PRIMARY KEY AUTOINCREMENT, post_id TEXT, user_id TEXT, vote_type INTEGER,
-        UNIQUE(post_id, user_id)
-      );
-      CREATE TABLE IF NOT EXISTS reports (
-        id INTEGER PRIMARY KEY AUTOINCREMENT, post_id TEXT, user_id TEXT, reason TEXT
-      );
-    `);
-  } catch (err) {
-    console.error('Database initialization failed, using mock:', err);
-    db = {
-      prepare: (sql: string) => ({
-        run: () => ({ lastInsertRowid: 0 }),
-        get: () => null,
-        all: () => []
-      }),
-      exec: () => {}
-    };
-  }
-  return db;
-}
-
 let appInstance: any = null;
 let httpServerInstance: any = null;
 let ioInstance: any = null;
 
-// In-memory fallback for serverless environments where DB might fail
-let memoryPosts: any[] = [
-  {
-    id: 'sample-1',
-    user_id: 'system',
-    user_name: 'এডমিন',
-    place_name: 'ঢাকা বিশ্ববিদ্যালয় এলাকা',
-    description: 'এখানে নিয়মিত রাতে বিরিয়ানি বিতরণ করা হয়।',
-    lat: 23.733,
-    lng: 90.393,
-    distribution_time: new Date().toISOString(),
-    true_votes: 15,
-    false_votes: 1,
-    created_at: new Date().toISOString()
-  },
-  {
-    id: 'sample-2',
-    user_id: 'system',
-    user_name: 'এডমিন',
-    place_name: 'মিরপুর ১০ গোলচত্বর',
-    description: 'শুক্রবার জুমার পর এখানে খিচুড়ি পাওয়া যায়।',
-    lat: 23.807,
-    lng: 90.368,
-    distribution_time: new Date().toISOString(),
-    true_votes: 8,
-    false_votes: 0,
-    created_at: new Date().toISOString()
-  }
-];
-
 export async function startServer() {
   if (appInstance) return { app: appInstance, httpServer: httpServerInstance, io: ioInstance };
 
@@ -100,118 +93,166 @@ export async function startServer() {
   appInstance = app;
   httpServerInstance = httpServer;
   ioInstance = io;
+  setSocketServer(io);
+
+  // Behind a proxy, req.ip (used for rate limiting) only sees the client when this is set, e.g. TRUST_PROXY=1.
+  // Vercel always puts exactly one proxy in front of the function.
+  const trustProxy = process.env.TRUST_PROXY || (process.env.VERCEL ? "1" : "");
+  if (trustProxy) {
+    const hops = Number(trustProxy);
+    app.set("trust proxy", Number.isInteger(hops) ? hops : trustProxy);
+  }
 
   app.use(express.json());
+  app.use("/api", attachUser);
+
+  if (process.env.SEED_SAMPLE_DATA === "true") {
+    await seedSampleData(await getDb(), await getStorage());
+  }
+
+  registerAuthRoutes(app);
+  registerModerationRoutes(app);
+  registerSpamRoutes(app);
+  registerDuplicateRoutes(app);
+  registerReputationRoutes(app);
+  registerPhotoRoutes(app);
+  registerUpdateRoutes(app);
+  registerRealtimeRoutes(app);
+  registerScheduleRoutes(app);
+  registerFoodTypeRoutes(app);
+  registerWatchZoneRoutes(app);
+  // Before /api/posts/:id, which would take "clusters" for an id
+  registerClusterRoutes(app);
 
   // API Routes
-  app.get("/api/posts", async (req, res) => {
-    const database = await getDb();
+  // With `since` (an X-Sync-Cursor), only what changed since then; see server/sync.ts
+  app.get("/api/posts", asyncRoute(async (req, res) => {
+    const query = parsePostQuery(req.query);
+    const { since } = validate(sinceSchema, req.query);
+    await materializeSchedules(await getDb());
+    const storage = await getStorage();
+    await liftExpiredShadowBans(await getDb(), storage);
+    if (since) {
+      const delta = await postDelta(storage, query, since);
+      res.set("X-Sync-Cursor", delta.cursor);
+      return res.json(delta);
+    }
+    res.set("X-Sync-Cursor", syncCursor());
+    const { posts, nextCursor } = await storage.posts.query(query);
+    if (nextCursor) res.set("X-Next-Cursor", nextCursor);
+    sendWithEtag(req, res, posts);
+  }));
+
+  app.get("/api/prayer-times", (req, res) => {
+    const { lat, lng, date, method, asr } = validate(prayerTimesQuerySchema, req.query);
     try {
-      const posts = database.prepare(`
-        SELECT p.*, 
-               u.name as user_name,
-               (SELECT COUNT(*) FROM votes v WHERE v.post_id = p.id AND v.vote_type = 1) as true_votes,
-               (SELECT COUNT(*) FROM votes v WHERE v.post_id = p.id AND v.vote_type = 0) as false_votes
-        FROM posts p
-        LEFT JOIN users u ON p.user_id = u.id
-        ORDER BY p.created_at DESC
-      `).all();
-      res.json([...posts, ...memoryPosts]);
+      const times = computePrayerTimes(date, lat, lng, method, asr);
+      res.json({ date, lat, lng, ...times });
     } catch (err) {
-      console.error('Fetch posts error:', err);
-      res.json(memoryPosts);
+      // The sun never reaches the prayer's angle at far polar latitudes
+      throw new ApiError(400, "validation_failed", err instanceof Error ? err.message : undefined);
     }
   });
 
-  app.post("/api/posts", async (req, res) => {
+  app.get("/api/posts/archive", asyncRoute(async (req, res) => {
+    const query = parsePostQuery(req.query);
+    const { posts, nextCursor } = await (await getStorage()).posts.query({ ...query, archive: true });
+    if (nextCursor) res.set("X-Next-Cursor", nextCursor);
+    res.json(posts);
+  }));
+
+  app.get("/api/posts/:id", asyncRoute(async (req, res) => {
+    const storage = await getStorage();
+    const id = await storage.posts.resolveId(req.params.id);
+    if (id !== req.params.id) return res.redirect(301, `/api/posts/${encodeURIComponent(id)}`);
+    const post = await storage.posts.get(id);
+    if (!post || post.hidden_at) throw notFound("Post");
+    res.json(post);
+  }));
+
+  app.post("/api/posts", requireUser, idempotent, rateLimit("posts"), asyncRoute(async (req, res) => {
+    const input = validate(createPostSchema, req.body);
     const database = await getDb();
-    try {
-      const { id, user_id, place_name, description, lat, lng, distribution_time } = req.body;
-      console.log('Creating post:', { id, place_name });
-      
-      if (!place_name) {
-        return res.status(400).json({ error: 'Place name is required' });
-      }
+    const user = req.user!;
+    const id = input.id ?? 'post_' + randomBytes(6).toString("hex");
+    console.log('Creating post:', { id, place_name: input.place_name });
+
+    if (!isFoodType(database, input.food_type)) {
+      throw invalidField("food_type", "invalid_choice", { choices: listFoodTypes(database).map(f => f.id) });
+    }
 
-      // Try DB first
-      try {
-        database.prepare("INSERT OR IGNORE INTO users (id, name) VALUES (?, ?)").run(user_id, "Anonymous User");
-        const stmt = database.prepare(`
-          INSERT INTO posts (id, user_id, place_name, description, lat, lng, distribution_time)
-          VALUES (?, ?, ?, ?, ?, ?, ?)
-        `);
-        stmt.run(id, user_id, place_name, description, lat, lng, distribution_time);
-        
-        const newPost = database.prepare(`
-          SELECT p.*, u.name as user_name, 0 as true_votes, 0 as false_votes
-          FROM posts p
-          LEFT JOIN users u ON p.user_id = u.id
-          WHERE p.id = ?
-        `).get(id);
-
-        if (newPost) {
-          if (ioInstance) ioInstance.emit("post:created", newPost);
-          return res.status(201).json(newPost);
-        }
-      } catch (dbErr) {
-        console.error('DB Insert failed, falling back to memory:', dbErr);
+    let start = new Date(input.distribution_time ?? Date.now());
+    if (input.prayer_rule) {
+      // "30 minutes after Maghrib" on the given local date, resolved for this spot's location
+      const date = input.date ?? localDate(new Date(), DEFAULT_TIMEZONE);
+      if (!prayerRuleApplies(input.prayer_rule, date)) {
+        throw invalidField("date", "not_friday");
       }
+      start = resolvePrayerRule(input.prayer_rule, date, input.lat, input.lng);
+    }
+    const distribution_time = start.toISOString();
 
-      // Fallback to memory
-      const memPost = {
-        id, user_id, place_name, description, lat, lng, distribution_time,
-        user_name: "Anonymous User",
-        true_votes: 0,
-        false_votes: 0,
-        created_at: new Date().toISOString()
-      };
-      memoryPosts.unshift(memPost);
-      if (ioInstance) ioInstance.emit("post:created", memPost);
-      res.status(201).json(memPost);
-    } catch (error) {
-      console.error('Critical error creating post:', error);
-      res.status(500).json({ error: 'Failed to create post', details: String(error) });
+    let ends_at: string;
+    if (input.ends_at) {
+      if (new Date(input.ends_at) <= start) throw invalidField("ends_at", "before_start");
+      ends_at = input.ends_at;
+    } else {
+      ends_at = defaultEndsAt(distribution_time, input.duration_minutes ?? DEFAULT_DURATION_MINUTES);
     }
-  });
 
-  app.post("/api/votes", async (req, res) => {
-    const database = await getDb();
-    const { post_id, user_id, vote_type } = req.body;
-    console.log(`Vote received: post=${post_id}, user=${user_id}, type=${vote_type}`);
-    
-    try {
-      // Upsert vote
-      const stmt = database.prepare(`
-        INSERT INTO votes (post_id, user_id, vote_type)
-        VALUES (?, ?, ?)
-        ON CONFLICT(post_id, user_id) DO UPDATE SET vote_type = excluded.vote_type
-      `);
-      stmt.run(post_id, user_id, vote_type);
-
-      const stats = database.prepare(`
-        SELECT 
-          (SELECT COUNT(*) FROM votes WHERE post_id = ? AND vote_type = 1) as true_votes,
-          (SELECT COUNT(*) FROM votes WHERE post_id = ? AND vote_type = 0) as false_votes
-      `).get(post_id, post_id);
-
-      if (ioInstance) ioInstance.emit("post:voted", { post_id, ...stats });
-      res.json({ post_id, ...stats });
-    } catch (err) {
-      console.error('Vote error:', err);
-      res.json({ post_id, true_votes: 0, false_votes: 0 });
+    const storage = await getStorage();
+    if (await storage.posts.get(id) || await storage.posts.resolveId(id) !== id) {
+      throw new ApiError(409, "conflict", 'A post with this id already exists');
     }
-  });
+    if (!input.allow_duplicate) {
+      const duplicates = await findDuplicates(storage, {
+        lat: input.lat, lng: input.lng, food_type: input.food_type, distribution_time,
+      });
+      if (duplicates.length) {
+        throw new ApiError(409, "possible_duplicates", undefined, undefined, { duplicates });
+      }
+    }
+    const newPost = await storage.posts.create({
+      id, user_id: user.id, place_name: input.place_name, food_type: input.food_type, description: input.description,
+      lat: input.lat, lng: input.lng, distribution_time, ends_at, schedule_id: null, prayer_rule: input.prayer_rule ?? null,
+    });
+    // Held posts are answered as usual so a shadow-banned author cannot tell
+    const held = await screenNewPost(database, storage, newPost);
+    if (!held) {
+      await publish("post:created", newPost, newPost);
+      notifyWatchers(newPost, "created").catch(err => console.error('Watch zone notification failed:', err));
+    }
+    res.status(201).json(newPost);
+  }));
+
+  app.post("/api/votes", requireUser, idempotent, rateLimit("votes"), asyncRoute(async (req, res) => {
+    const { post_id, vote_type } = validate(voteSchema, req.body);
+    const user_id = req.user!.id;
+    console.log(`Vote received: post=${post_id}, user=${user_id}, type=${vote_type}`);
 
-  app.post("/api/reports", async (req, res) => {
     const database = await getDb();
-    const { post_id, user_id, reason } = req.body;
-    try {
-      database.prepare("INSERT INTO reports (post_id, user_id, reason) VALUES (?, ?, ?)").run(post_id, user_id, reason);
-      res.status(201).json({ success: true });
-    } catch (err) {
-      res.status(500).json({ error: 'Failed to report' });
+    const storage = await getStorage();
+    // Votes on a merged post count for the post it was merged into
+    const postId = await storage.posts.resolveId(post_id);
+    const suppressed = isShadowBanned(database, user_id);
+    let stats = await storage.votes.cast(postId, user_id, vote_type, suppressed);
+    if (!stats) {
+      throw new ApiError(404, "not_found", 'Post not found', { post_id: fieldError("not_found") });
     }
-  });
+    if (vote_type === 0 && !suppressed && await screenFalseVotes(database, storage, postId)) {
+      stats = await storage.votes.counts(postId);
+    }
+
+    await refreshPostReputations(database, storage, postId);
+    const post = (await storage.posts.get(postId))!;
+
+    await publish("post:voted", { post_id: postId, ...stats }, post);
+    // Watchers hear about each post being confirmed once, however many votes follow
+    if (stats.trust_level === "confirmed" && !post.hidden_at) {
+      notifyWatchers({ ...post, ...stats }, "confirmed").catch(err => console.error('Watch zone notification failed:', err));
+    }
+    res.json({ post_id: postId, ...stats });
+  }));
 
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
@@ -219,14 +260,20 @@ export async function startServer() {
       server: { middlewareMode: true },
       appType: "spa",
     });
+    // Spot pages go through Vite's HTML transforms like any other page
+    registerShareRoutes(app, async url => vite.transformIndexHtml(url, await readFile(path.join(__dirname, "index.html"), "utf-8")));
     app.use(vite.middlewares);
   } else {
+    let indexHtml: Promise<string> | null = null;
+    registerShareRoutes(app, () => indexHtml ??= readFile(path.join(__dirname, "dist", "index.html"), "utf-8"));
     app.use(express.static(path.join(__dirname, "dist")));
     app.get("*", (req, res) => {
       res.sendFile(path.join(__dirname, "dist", "index.html"));
     });
   }
 
+  app.use(errorHandler);
+
   httpServer.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
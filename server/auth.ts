@@ -0,0 +1,323 @@
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { getDb } from "./db";
+import { getMailer } from "./mailer";
+import { asyncRoute, sendError } from "./errors";
+import { consumeRateLimit, rateLimit, sendRateLimited } from "./rate-limit";
+import { requiredText, validate } from "./validation";
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  email: string | null;
+  is_anonymous: boolean;
+  role: "user" | "admin";
+  banned: boolean;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+      deviceId?: string;
+    }
+  }
+}
+
+const SESSION_COOKIE = "bd_session";
+const DEVICE_COOKIE = "bd_device";
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+const DEVICE_MAX_AGE = 365 * 24 * 60 * 60 * 1000; // 1 year
+const MAGIC_LINK_TTL = 15 * 60 * 1000; // 15 minutes
+
+export const ANONYMOUS_NAME = "Anonymous User";
+
+const profileSchema = z.object({
+  name: requiredText(60),
+});
+
+const magicLinkSchema = z.object({
+  email: z.string().trim().toLowerCase().max(254).email(),
+});
+
+// Accounts listed here are treated as admins even before a role is stored for them
+const adminEmails = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map(e => e.trim().toLowerCase())
+  .filter(Boolean);
+
+let secret = process.env.SESSION_SECRET || "";
+if (!secret) {
+  // Sessions will not survive a restart, but local development keeps working
+  secret = randomBytes(32).toString("hex");
+  console.warn("SESSION_SECRET is not set, using a random secret for this process");
+}
+
+function sign(value: string) {
+  const mac = createHmac("sha256", secret).update(value).digest("base64url");
+  return `${value}.${mac}`;
+}
+
+function unsign(signed: string | undefined): string | null {
+  if (!signed) return null;
+  const idx = signed.lastIndexOf(".");
+  if (idx <= 0) return null;
+  const value = signed.slice(0, idx);
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(signed);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  return value;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(";")) {
+    const idx = part.indexOf("=");
+    if (idx < 0) continue;
+    const name = part.slice(0, idx).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(idx + 1).trim());
+    } catch {
+      // Ignore malformed cookie values
+    }
+  }
+  return cookies;
+}
+
+function setCookie(res: Response, name: string, value: string, maxAge: number) {
+  res.cookie(name, value, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge,
+  });
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Null unless the token exists, is unused and has not expired
+async function usableLoginToken(token: unknown) {
+  if (typeof token !== "string" || !token) return null;
+  const database = await getDb();
+  const row = database.prepare("SELECT * FROM login_tokens WHERE token_hash = ?").get(hashToken(token));
+  return row && !row.used_at && new Date(row.expires_at).getTime() >= Date.now() ? row : null;
+}
+
+// The token is only ever one this server issued (it was just looked up), so it is URL-safe base64 and needs no escaping
+function confirmLoginPage(token: string) {
+  return `<!doctype html>
+<html lang="bn">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="robots" content="noindex" />
+    <title>লগইন নিশ্চিত করুন</title>
+  </head>
+  <body style="font-family: sans-serif; text-align: center; padding: 48px 16px; color: #1c1917">
+    <form method="post" action="/api/auth/verify">
+      <input type="hidden" name="token" value="${token}" />
+      <p>বিরিয়ানি দিবে-তে লগইন করতে নিচের বোতামে চাপুন।</p>
+      <button type="submit" style="padding: 12px 24px; border: 0; border-radius: 12px; background: #15803d; color: #fff; font-size: 16px; font-weight: bold">
+        লগইন করুন
+      </button>
+    </form>
+  </body>
+</html>`;
+}
+
+function toSessionUser(row: any): SessionUser {
+  return {
+    id: row.id,
+    name: row.name || ANONYMOUS_NAME,
+    email: row.email || null,
+    is_anonymous: !!row.is_anonymous,
+    role: row.role === "admin" || (row.email && adminEmails.includes(row.email)) ? "admin" : "user",
+    banned: !!row.banned_at,
+  };
+}
+
+function deviceUserId(deviceId: string) {
+  return `anon_${deviceId}`;
+}
+
+async function loadDeviceUser(deviceId: string): Promise<SessionUser> {
+  const database = await getDb();
+  const id = deviceUserId(deviceId);
+  database.prepare(`
+    INSERT OR IGNORE INTO users (id, name, is_anonymous, created_at)
+    VALUES (?, ?, 1, CURRENT_TIMESTAMP)
+  `).run(id, ANONYMOUS_NAME);
+  const row = database.prepare("SELECT * FROM users WHERE id = ?").get(id);
+  return row
+    ? toSessionUser(row)
+    : { id, name: ANONYMOUS_NAME, email: null, is_anonymous: true, role: "user", banned: false };
+}
+
+// Answered by GET /api/me when a shared address has used up its new identities for now; nothing is stored
+const GUEST: SessionUser = { id: "guest", name: ANONYMOUS_NAME, email: null, is_anonymous: true, role: "user", banned: false };
+
+async function createDeviceIdentity(req: Request, res: Response) {
+  const deviceId = randomBytes(16).toString("hex");
+  setCookie(res, DEVICE_COOKIE, sign(deviceId), DEVICE_MAX_AGE);
+  req.deviceId = deviceId;
+  req.user = await loadDeviceUser(deviceId);
+}
+
+function startSession(res: Response, userId: string) {
+  const payload = Buffer.from(JSON.stringify({ uid: userId, exp: Date.now() + SESSION_MAX_AGE })).toString("base64url");
+  setCookie(res, SESSION_COOKIE, sign(payload), SESSION_MAX_AGE);
+}
+
+/**
+ * Resolves `req.user` from the signed session cookie, falling back to the
+ * anonymous user bound to this browser's device cookie. Never rejects.
+ */
+export async function attachUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const cookies = parseCookies(req.headers.cookie);
+    req.deviceId = unsign(cookies[DEVICE_COOKIE]) || undefined;
+
+    const session = unsign(cookies[SESSION_COOKIE]);
+    if (session) {
+      const { uid, exp } = JSON.parse(Buffer.from(session, "base64url").toString());
+      if (typeof uid === "string" && exp > Date.now()) {
+        const database = await getDb();
+        const row = database.prepare("SELECT * FROM users WHERE id = ?").get(uid);
+        if (row) req.user = toSessionUser(row);
+      }
+    }
+
+    if (!req.user && req.deviceId) {
+      req.user = await loadDeviceUser(req.deviceId);
+    }
+    next();
+  } catch (err) {
+    console.error('Session error:', err);
+    next();
+  }
+}
+
+/**
+ * Guarantees an identity for write routes. Visitors without any cookie get a
+ * fresh anonymous device identity instead of being turned away; only that
+ * creation counts against the "identities" limit.
+ */
+export async function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.banned) {
+    return sendError(res, 403, 'This account has been banned', "banned");
+  }
+  if (req.user) return next();
+  const retryAfter = consumeRateLimit("identities", { ip: req.ip });
+  if (retryAfter) return sendRateLimited(res, retryAfter);
+  try {
+    await createDeviceIdentity(req, res);
+    next();
+  } catch (err) {
+    console.error('Failed to create device identity:', err);
+    sendError(res, 500, 'Failed to create session');
+  }
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return sendError(res, 401, 'Login required');
+  if (req.user.role !== "admin") return sendError(res, 403, 'Admin access required');
+  next();
+}
+
+/** The public origin for links the server hands out, e.g. in emails and link previews. */
+export function appUrl(req: Request) {
+  const configured = process.env.APP_URL;
+  if (configured && /^https?:\/\//.test(configured)) return configured.replace(/\/$/, "");
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+export function registerAuthRoutes(app: Express) {
+  // Read-only, so banned users can still see why their writes are rejected
+  app.get("/api/me", asyncRoute(async (req, res) => {
+    if (!req.user) {
+      // Loading the app never fails on a busy shared address (a campus or mosque network); the limit bites on writes
+      if (consumeRateLimit("identities", { ip: req.ip })) return res.json(GUEST);
+      await createDeviceIdentity(req, res);
+    }
+    res.json(req.user);
+  }));
+
+  app.patch("/api/me", requireUser, asyncRoute(async (req, res) => {
+    const { name } = validate(profileSchema, req.body);
+    const database = await getDb();
+    database.prepare("UPDATE users SET name = ? WHERE id = ?").run(name, req.user!.id);
+    res.json({ ...req.user, name });
+  }));
+
+  app.post("/api/auth/magic-link", rateLimit("magic_link"), asyncRoute(async (req, res) => {
+    const { email } = validate(magicLinkSchema, req.body);
+
+    const database = await getDb();
+    const token = randomBytes(32).toString("base64url");
+    database.prepare("INSERT INTO login_tokens (token_hash, email, expires_at) VALUES (?, ?, ?)")
+      .run(hashToken(token), email, new Date(Date.now() + MAGIC_LINK_TTL).toISOString());
+
+    const link = `${appUrl(req)}/api/auth/verify?token=${token}`;
+    try {
+      await getMailer().send({
+        to: email,
+        subject: "বিরিয়ানি দিবে - লগইন লিংক",
+        text: `লগইন করতে এই লিংকে ক্লিক করুন (১৫ মিনিট পর্যন্ত কার্যকর):\n${link}`,
+      });
+      res.status(202).json({ success: true });
+    } catch (err) {
+      console.error('Magic link mail failed:', err);
+      sendError(res, 502, 'Failed to send login email');
+    }
+  }));
+
+  // Mail and chat link scanners fetch links before the user does, so opening the link only asks for a confirmation
+  app.get("/api/auth/verify", asyncRoute(async (req, res) => {
+    const row = await usableLoginToken(req.query.token);
+    if (!row) return res.redirect("/?login=invalid");
+    res.set("Cache-Control", "no-store");
+    res.type("html").send(confirmLoginPage(req.query.token as string));
+  }));
+
+  // The confirmation form posts here; this is what uses up the token
+  app.post("/api/auth/verify", express.urlencoded({ extended: false }), asyncRoute(async (req, res) => {
+    const row = await usableLoginToken(req.body?.token);
+    const database = await getDb();
+    // Checked again in the update, so two submissions cannot both log in
+    const claimed = row && database.prepare("UPDATE login_tokens SET used_at = ? WHERE token_hash = ? AND used_at IS NULL")
+      .run(new Date().toISOString(), row.token_hash).changes === 1;
+    if (!claimed) return res.redirect(303, "/?login=invalid");
+
+    let user = database.prepare("SELECT * FROM users WHERE email = ?").get(row.email);
+    if (!user) {
+      const defaultName = row.email.split("@")[0];
+      if (req.user?.is_anonymous) {
+        // Upgrade the device identity so posts and votes made before login are kept
+        database.prepare("UPDATE users SET email = ?, is_anonymous = 0, name = ? WHERE id = ?")
+          .run(row.email, req.user.name === ANONYMOUS_NAME ? defaultName : req.user.name, req.user.id);
+        user = { id: req.user.id };
+      } else {
+        user = { id: 'user_' + randomBytes(9).toString("hex") };
+        database.prepare(`
+          INSERT INTO users (id, name, email, is_anonymous, created_at)
+          VALUES (?, ?, ?, 0, CURRENT_TIMESTAMP)
+        `).run(user.id, defaultName, row.email);
+      }
+    }
+
+    startSession(res, user.id);
+    res.redirect(303, "/?login=success");
+  }));
+
+  app.post("/api/auth/logout", (req, res) => {
+    // The device cookie may point at an upgraded account, so it is dropped too
+    res.clearCookie(SESSION_COOKIE, { path: "/" });
+    res.clearCookie(DEVICE_COOKIE, { path: "/" });
+    res.json({ success: true });
+  });
+}
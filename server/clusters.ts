@@ -0,0 +1,99 @@
+import type { Express } from "express";
+import { z } from "zod";
+import Supercluster from "supercluster";
+import { getDb } from "./db";
+import { Post, Storage, getStorage } from "./storage";
+import { TrustLevel } from "./trust";
+import { PostQuery, parsePostQuery } from "./posts";
+import { materializeSchedules } from "./schedules";
+import { sendWithEtag } from "./sync";
+import { asyncRoute, invalidField } from "./errors";
+import { isoTimestamp, queryNumber, validate } from "./validation";
+import { CLUSTER_OPTIONS, MAX_SERVER_CLUSTER_ZOOM, TRUST_COUNTING, TrustCounts, countOne, dominantTrust } from "../shared/clusters";
+
+/**
+ * Marker clusters for zoomed-out maps. At these zooms a viewport can hold a
+ * whole city's posts, so instead of sending them all the server groups them
+ * and answers with one point per group. Closer in, the client clusters the
+ * posts it already has with the same options.
+ */
+export interface PostCluster {
+  /** Set when the point is a single post rather than a group */
+  post_id: string | null;
+  lat: number;
+  lng: number;
+  count: number;
+  trust: Record<TrustLevel, number>;
+  /** The most common trust level, which colours the badge; ties go to the more trusted level */
+  dominant_trust: TrustLevel;
+  /** The zoom at which a group splits up; null for a single post */
+  expansion_zoom: number | null;
+}
+
+// Beyond this many posts in view only the newest are counted
+const MAX_CLUSTERED_POSTS = 20000;
+
+// Lower levels rank below higher ones for `min_trust`
+const TRUST_RANK: Record<TrustLevel, number> = { disputed: 0, unverified: 1, confirmed: 2 };
+
+// Beyond the feed's own filters, the client's filter panel can narrow the clusters by trust and time
+const clusterQuerySchema = z.object({
+  zoom: queryNumber(z.number().int().min(0).max(MAX_SERVER_CLUSTER_ZOOM)),
+  min_trust: z.enum(["unverified", "confirmed"]).optional(),
+  from: isoTimestamp.optional(),
+  until: isoTimestamp.optional(),
+});
+
+/** Narrows what is clustered: posts at or above `minTrust` whose distribution overlaps `from`-`until`. */
+export interface ClusterFilter {
+  minTrust?: TrustLevel;
+  from?: string;
+  until?: string;
+}
+
+function passes(post: Post, f: ClusterFilter) {
+  return (!f.minTrust || TRUST_RANK[post.trust_level] >= TRUST_RANK[f.minTrust]) &&
+    (!f.until || post.distribution_time <= f.until) &&
+    (!f.from || post.ends_at > f.from);
+}
+
+/** Groups the listed posts in `q.bbox` (and, with `near`, within `radius` of it) for a map at `zoom`. */
+export async function clusterPosts(storage: Storage, q: PostQuery, zoom: number, filter: ClusterFilter = {}): Promise<PostCluster[]> {
+  const { posts } = await storage.posts.query({ ...q, cursor: null, limit: MAX_CLUSTERED_POSTS });
+  const index = new Supercluster<{ post: Post }, TrustCounts>({ ...CLUSTER_OPTIONS, ...TRUST_COUNTING });
+  index.load(posts.filter(post => passes(post, filter)).map(post => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [post.lng, post.lat] },
+    properties: { post },
+  })));
+
+  const { minLng, minLat, maxLng, maxLat } = q.bbox!;
+  return index.getClusters([minLng, minLat, maxLng, maxLat], zoom).map(feature => {
+    const [lng, lat] = feature.geometry.coordinates;
+    if ("cluster" in feature.properties && feature.properties.cluster) {
+      const { cluster_id, point_count, confirmed, unverified, disputed } = feature.properties;
+      const trust = { confirmed, unverified, disputed };
+      return {
+        post_id: null, lat, lng, count: point_count, trust, dominant_trust: dominantTrust(trust),
+        expansion_zoom: index.getClusterExpansionZoom(cluster_id),
+      };
+    }
+    const { post } = feature.properties as { post: Post };
+    return {
+      post_id: post.id, lat, lng, count: 1, trust: countOne(post.trust_level), dominant_trust: post.trust_level, expansion_zoom: null,
+    };
+  });
+}
+
+export function registerClusterRoutes(app: Express) {
+  app.get("/api/posts/clusters", asyncRoute(async (req, res) => {
+    const query = parsePostQuery(req.query);
+    const { zoom, min_trust, from, until } = validate(clusterQuerySchema, req.query);
+    if (!query.bbox) throw invalidField("bbox", "required");
+    if (zoom === undefined) throw invalidField("zoom", "required");
+    if (from && until && until < from) throw invalidField("until", "before_start");
+    await materializeSchedules(await getDb());
+    const clusters = await clusterPosts(await getStorage(), query, zoom, { minTrust: min_trust, from, until });
+    sendWithEtag(req, res, clusters);
+  }));
+}
@@ -0,0 +1,40 @@
+import { runMigrations } from "./migrate";
+import { openWasmDatabase } from "./wasm-db";
+
+// Use /tmp for SQLite on Vercel/Serverless
+export const dbPath = process.env.DATABASE_PATH
+  || (process.env.NODE_ENV === "production" ? "/tmp/biryani.db" : "biryani.db");
+let db: any = null;
+
+/** Opens the database without touching its schema; used by the migration CLI. */
+export async function openDatabase(path = dbPath) {
+  const { default: Database } = await import("better-sqlite3");
+  const database = new Database(path);
+  database.pragma("foreign_keys = ON");
+  return database;
+}
+
+// A throwaway database: better-sqlite3's own, or sql.js when the native module does not load
+async function openMemoryDatabase() {
+  try {
+    return await openDatabase(":memory:");
+  } catch (err) {
+    console.error('better-sqlite3 is unavailable, using sql.js:', err);
+    return openWasmDatabase();
+  }
+}
+
+export async function getDb() {
+  if (db) return db;
+  try {
+    db = await openDatabase();
+    console.log(`Database connected at ${dbPath}`);
+    runMigrations(db);
+  } catch (err) {
+    // e.g. a read-only filesystem: serve from a throwaway database rather than failing every request
+    console.error(`Could not open ${dbPath}, using an in-memory database:`, err);
+    db = await openMemoryDatabase();
+    runMigrations(db);
+  }
+  return db;
+}
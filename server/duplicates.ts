@@ -0,0 +1,72 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { getDb } from "./db";
+import { requireUser } from "./auth";
+import { Post, Storage, getStorage } from "./storage";
+import { logModerationAction } from "./moderation";
+import { publish } from "./realtime";
+import { LatLng } from "./geo";
+import { ApiError, asyncRoute, fieldError, invalidField, notFound } from "./errors";
+import { requiredText, validate } from "./validation";
+
+// Same food type within this distance and this far apart in start time counts as the same distribution
+const DUPLICATE_RADIUS_M = Number(process.env.DUPLICATE_RADIUS_M) || 150;
+const DUPLICATE_WINDOW_MINUTES = Number(process.env.DUPLICATE_WINDOW_MINUTES) || 120;
+
+interface Candidate extends LatLng {
+  food_type: string;
+  /** ISO time */
+  distribution_time: string;
+}
+
+/** Current, visible posts that look like the same distribution as `candidate`, nearest first. */
+export async function findDuplicates(storage: Storage, candidate: Candidate): Promise<Post[]> {
+  const { posts } = await storage.posts.query({
+    bbox: null,
+    near: { lat: candidate.lat, lng: candidate.lng },
+    radius: DUPLICATE_RADIUS_M,
+    limit: 20,
+    cursor: null,
+    foodTypes: [candidate.food_type],
+  });
+  const start = new Date(candidate.distribution_time).getTime();
+  const windowMs = DUPLICATE_WINDOW_MINUTES * 60 * 1000;
+  return posts.filter(p => Math.abs(new Date(p.distribution_time).getTime() - start) <= windowMs);
+}
+
+const mergeSchema = z.object({
+  into: requiredText(100),
+});
+
+export function registerDuplicateRoutes(app: Express) {
+  // The source post's author or an admin folds it into another post; the source id keeps working
+  app.post("/api/posts/:id/merge", requireUser, asyncRoute(async (req, res) => {
+    const { into } = validate(mergeSchema, req.body);
+    const database = await getDb();
+    const storage = await getStorage();
+
+    const source = await storage.posts.get(req.params.id);
+    if (!source) throw notFound("Post");
+    if (req.user!.role !== "admin" && source.user_id !== req.user!.id) {
+      throw new ApiError(403, "forbidden", 'Only the author or an admin can merge this post');
+    }
+    const targetId = await storage.posts.resolveId(into);
+    if (targetId === source.id) throw invalidField("into", "same_post");
+    if (!await storage.posts.get(targetId)) {
+      throw new ApiError(404, "not_found", 'Post not found', { into: fieldError("not_found") });
+    }
+
+    const { moved_votes, dropped_votes, moved_reports } = await storage.posts.merge(source.id, targetId);
+    logModerationAction(database, {
+      action: "post_merged",
+      targetType: "post",
+      targetId: source.id,
+      actorId: req.user!.id,
+      metadata: { into: targetId, moved_votes, dropped_votes, moved_reports, post: source },
+    });
+    const target = (await storage.posts.get(targetId))!;
+    await publish("post:hidden", { post_id: source.id, merged_into: targetId }, source);
+    await publish("post:voted", { post_id: targetId, ...await storage.votes.counts(targetId) }, target);
+    res.json({ success: true, post: target, moved_votes, dropped_votes });
+  }));
+}
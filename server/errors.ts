@@ -0,0 +1,176 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+
+export type ErrorCode =
+  | "validation_failed"
+  | "invalid_json"
+  | "unauthorized"
+  | "forbidden"
+  | "banned"
+  | "not_found"
+  | "conflict"
+  | "possible_duplicates"
+  | "rate_limited"
+  | "cursor_expired"
+  | "internal_error"
+  | "upstream_failed"
+  | "unavailable";
+
+export type FieldErrorCode =
+  | "required"
+  | "invalid_type"
+  | "too_short"
+  | "too_long"
+  | "too_small"
+  | "too_large"
+  | "invalid_choice"
+  | "invalid_format"
+  | "invalid_timestamp"
+  | "invalid_date"
+  | "before_start"
+  | "not_friday"
+  | "not_found"
+  | "same_post"
+  | "file_too_large"
+  | "unsupported_image";
+
+export interface FieldError {
+  code: FieldErrorCode;
+  message: string;
+  message_bn: string;
+}
+
+/**
+ * Every API error has this shape. `error` stays the English message so older
+ * clients that only read `error` keep working.
+ */
+export interface ErrorResponse {
+  error: string;
+  code: ErrorCode;
+  message_bn: string;
+  /** Per-field problems, keyed by request field (nested fields use dots, e.g. `prayer_rule.prayer`) */
+  fields?: Record<string, FieldError>;
+  /** With `possible_duplicates`: the existing posts the new one looks like */
+  duplicates?: unknown[];
+}
+
+const ERROR_MESSAGES: Record<ErrorCode, { en: string; bn: string }> = {
+  validation_failed: { en: "Some fields are invalid", bn: "কিছু তথ্য সঠিক নয়" },
+  invalid_json: { en: "Request body is not valid JSON", bn: "অনুরোধটি পড়া যায়নি" },
+  unauthorized: { en: "Login required", bn: "লগইন করতে হবে" },
+  forbidden: { en: "You are not allowed to do this", bn: "আপনার এই কাজের অনুমতি নেই" },
+  banned: { en: "This account is banned", bn: "এই অ্যাকাউন্টটি নিষিদ্ধ করা হয়েছে" },
+  not_found: { en: "Not found", bn: "খুঁজে পাওয়া যায়নি" },
+  conflict: { en: "Already exists", bn: "আগে থেকেই আছে" },
+  possible_duplicates: {
+    en: "A similar spot has already been posted nearby",
+    bn: "কাছাকাছি একই রকম একটি স্পট আগেই পোস্ট করা হয়েছে",
+  },
+  rate_limited: { en: "Too many requests, please try again later", bn: "অনেক বেশি অনুরোধ, একটু পরে আবার চেষ্টা করুন" },
+  cursor_expired: {
+    en: "Too much changed since this cursor, load the full list again",
+    bn: "অনেক কিছু বদলে গেছে, পুরো তালিকা আবার লোড করুন",
+  },
+  internal_error: { en: "Something went wrong", bn: "কিছু একটা সমস্যা হয়েছে" },
+  upstream_failed: { en: "A dependent service failed", bn: "সংশ্লিষ্ট সেবাটি সাড়া দিচ্ছে না" },
+  unavailable: { en: "Not available on this server", bn: "এই সার্ভারে এটি চালু নেই" },
+};
+
+const bnNumber = (n: unknown) => typeof n === "number" ? n.toLocaleString("bn-BD") : String(n);
+
+const FIELD_MESSAGES: Record<FieldErrorCode, (p: Record<string, any>) => { en: string; bn: string }> = {
+  required: () => ({ en: "This field is required", bn: "এই তথ্যটি দিতে হবে" }),
+  invalid_type: () => ({ en: "Has the wrong type", bn: "তথ্যের ধরন সঠিক নয়" }),
+  too_short: p => ({ en: `Must be at least ${p.min} characters`, bn: `কমপক্ষে ${bnNumber(p.min)} অক্ষর হতে হবে` }),
+  too_long: p => ({ en: `Must be at most ${p.max} characters`, bn: `সর্বোচ্চ ${bnNumber(p.max)} অক্ষর লেখা যাবে` }),
+  too_small: p => ({ en: `Must be at least ${p.min}`, bn: `কমপক্ষে ${bnNumber(p.min)} হতে হবে` }),
+  too_large: p => ({ en: `Must be at most ${p.max}`, bn: `সর্বোচ্চ ${bnNumber(p.max)} হতে পারবে` }),
+  invalid_choice: p => ({
+    en: p.choices ? `Must be one of ${p.choices.join(", ")}` : "Is not an allowed value",
+    bn: "অনুমোদিত মানগুলোর একটি বেছে নিন",
+  }),
+  invalid_format: p => ({
+    en: p.expected ? `Must look like ${p.expected}` : "Has an invalid format",
+    bn: p.expected ? `${p.expected} আকারে দিন` : "ফরম্যাট সঠিক নয়",
+  }),
+  invalid_timestamp: () => ({ en: "Must be an ISO 8601 date and time", bn: "সঠিক তারিখ ও সময় দিন" }),
+  invalid_date: () => ({ en: "Must be a YYYY-MM-DD date", bn: "সঠিক তারিখ দিন" }),
+  before_start: () => ({ en: "Must be after the start time", bn: "শুরুর সময়ের পরে হতে হবে" }),
+  not_friday: () => ({ en: "Jummah is only on Fridays", bn: "জুম্মা শুধু শুক্রবারে হয়" }),
+  not_found: () => ({ en: "Does not exist", bn: "খুঁজে পাওয়া যায়নি" }),
+  same_post: () => ({ en: "Cannot merge a post into itself", bn: "একই স্পটের সাথে মেলানো যায় না" }),
+  file_too_large: p => ({ en: `Must be at most ${p.max_mb} MB`, bn: `সর্বোচ্চ ${bnNumber(p.max_mb)} MB হতে পারবে` }),
+  unsupported_image: () => ({ en: "Must be a JPEG, PNG or WebP image", bn: "JPEG, PNG বা WebP ছবি দিন" }),
+};
+
+export function fieldError(code: FieldErrorCode, params: Record<string, any> = {}): FieldError {
+  const { en, bn } = FIELD_MESSAGES[code](params);
+  return { code, message: en, message_bn: bn };
+}
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ErrorCode,
+    message?: string,
+    public fields?: Record<string, FieldError>,
+    public extra?: Pick<ErrorResponse, "duplicates">
+  ) {
+    super(message ?? ERROR_MESSAGES[code].en);
+  }
+
+  toJSON(): ErrorResponse {
+    return {
+      error: this.message,
+      code: this.code,
+      message_bn: ERROR_MESSAGES[this.code].bn,
+      ...(this.fields && { fields: this.fields }),
+      ...this.extra,
+    };
+  }
+}
+
+/** A 400 for one bad field, e.g. `invalidField("lat", "too_large", { max: 90 })`. */
+export function invalidField(field: string, code: FieldErrorCode, params?: Record<string, any>) {
+  return new ApiError(400, "validation_failed", undefined, { [field]: fieldError(code, params) });
+}
+
+export function notFound(what: string) {
+  return new ApiError(404, "not_found", `${what} not found`);
+}
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: "validation_failed",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  429: "rate_limited",
+  500: "internal_error",
+  502: "upstream_failed",
+  503: "unavailable",
+};
+
+/** Responds with the shared error shape; the code defaults from the HTTP status. */
+export function sendError(res: Response, status: number, message?: string, code = STATUS_CODES[status] ?? "internal_error") {
+  return res.status(status).json(new ApiError(status, code, message).toJSON());
+}
+
+/** Express 4 does not forward rejected promises, so async routes are wrapped to reach `errorHandler`. */
+export function asyncRoute(handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+export function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(err);
+  if (err instanceof ApiError) {
+    return res.status(err.status).json(err.toJSON());
+  }
+  // Raised by express.json() for malformed bodies
+  if (err?.type === "entity.parse.failed") {
+    return sendError(res, 400, undefined, "invalid_json");
+  }
+  console.error('Unhandled error:', err);
+  sendError(res, 500);
+}
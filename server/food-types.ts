@@ -0,0 +1,51 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { getDb } from "./db";
+import { requireAdmin } from "./auth";
+import { asyncRoute, invalidField } from "./errors";
+import { requiredText, validate } from "./validation";
+import { DEFAULT_FOOD_TYPES, FoodType } from "../shared/food-types";
+
+const ID_PATTERN = /^[a-z0-9_]{2,32}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const foodTypeSchema = z.object({
+  label_bn: requiredText(40),
+  label_en: requiredText(40),
+  color: z.string().refine(v => COLOR_PATTERN.test(v), { params: { code: "invalid_format", expected: "#F97316" } }),
+  sort_order: z.number().int().default(100),
+  active: z.boolean().default(true),
+});
+
+export function listFoodTypes(database: any): FoodType[] {
+  const rows = database.prepare(`
+    SELECT id, label_bn, label_en, color, sort_order FROM food_types WHERE active = 1 ORDER BY sort_order, id
+  `).all();
+  return rows.length ? rows : DEFAULT_FOOD_TYPES;
+}
+
+export function isFoodType(database: any, id: unknown) {
+  return typeof id === "string" && listFoodTypes(database).some(f => f.id === id);
+}
+
+export function registerFoodTypeRoutes(app: Express) {
+  app.get("/api/food-types", asyncRoute(async (req, res) => {
+    const database = await getDb();
+    res.set("Cache-Control", "public, max-age=300");
+    res.json(listFoodTypes(database));
+  }));
+
+  // Adds a food type or edits an existing one; `active: false` retires it without touching old posts
+  app.put("/api/admin/food-types/:id", requireAdmin, asyncRoute(async (req, res) => {
+    if (!ID_PATTERN.test(req.params.id)) throw invalidField("id", "invalid_format", { expected: "biriyani" });
+    const { label_bn, label_en, color, sort_order, active } = validate(foodTypeSchema, req.body);
+
+    const database = await getDb();
+    database.prepare(`
+      INSERT INTO food_types (id, label_bn, label_en, color, sort_order, active) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET label_bn = excluded.label_bn, label_en = excluded.label_en,
+        color = excluded.color, sort_order = excluded.sort_order, active = excluded.active
+    `).run(req.params.id, label_bn, label_en, color, sort_order, active ? 1 : 0);
+    res.json(listFoodTypes(database));
+  }));
+}
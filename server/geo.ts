@@ -0,0 +1,113 @@
+const EARTH_RADIUS_M = 6371000;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface BBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function isValidLatLng(lat: number, lng: number) {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+export function haversineMeters(a: LatLng, b: LatLng) {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Smallest lat/lng box containing the circle, used to pre-filter with the spatial index
+export function radiusBbox(center: LatLng, radius: number): BBox {
+  const dLat = (radius / EARTH_RADIUS_M) * (180 / Math.PI);
+  const dLng = dLat / Math.max(Math.cos(toRad(center.lat)), 0.01);
+  return {
+    minLat: Math.max(center.lat - dLat, -90),
+    maxLat: Math.min(center.lat + dLat, 90),
+    minLng: Math.max(center.lng - dLng, -180),
+    maxLng: Math.min(center.lng + dLng, 180),
+  };
+}
+
+export function inBbox(point: LatLng, bbox: BBox) {
+  return point.lat >= bbox.minLat && point.lat <= bbox.maxLat && point.lng >= bbox.minLng && point.lng <= bbox.maxLng;
+}
+
+/** Parses `minLng,minLat,maxLng,maxLat` (the GeoJSON/Leaflet `toBBoxString` order). */
+export function parseBbox(value: unknown): BBox | null {
+  if (typeof value !== "string") return null;
+  const parts = value.split(",").map(Number);
+  if (parts.length !== 4) return null;
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (!isValidLatLng(minLat, minLng) || !isValidLatLng(maxLat, maxLng)) return null;
+  if (minLat > maxLat || minLng > maxLng) return null;
+  return { minLat, minLng, maxLat, maxLng };
+}
+
+/** Parses `lat,lng`. */
+export function parseLatLng(value: unknown): LatLng | null {
+  if (typeof value !== "string") return null;
+  const parts = value.split(",").map(Number);
+  if (parts.length !== 2 || !isValidLatLng(parts[0], parts[1])) return null;
+  return { lat: parts[0], lng: parts[1] };
+}
+
+const GEOHASH_BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/** Standard geohash of the point, `precision` characters long. */
+export function encodeGeohash(point: LatLng, precision: number) {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let hash = "";
+  let value = 0;
+  let bits = 0;
+  // Bits alternate between longitude and latitude, longitude first
+  for (let even = true; hash.length < precision; even = !even) {
+    const range = even ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+    const upper = (even ? point.lng : point.lat) >= mid;
+    value = value * 2 + (upper ? 1 : 0);
+    range[upper ? 0 : 1] = mid;
+    if (++bits === 5) {
+      hash += GEOHASH_BASE32[value];
+      value = 0;
+      bits = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Geohash cells covering the box, at the longest length up to `maxPrecision`
+ * that needs no more than `maxCells` of them (any box fits in the 32 cells of
+ * length 1).
+ */
+export function geohashCover(bbox: BBox, maxPrecision: number, maxCells: number): string[] {
+  for (let precision = maxPrecision; ; precision--) {
+    const latCells = 2 ** Math.floor((precision * 5) / 2);
+    const lngCells = 2 ** Math.ceil((precision * 5) / 2);
+    const latIndex = (lat: number) => Math.min(Math.floor(((lat + 90) / 180) * latCells), latCells - 1);
+    const lngIndex = (lng: number) => Math.min(Math.floor(((lng + 180) / 360) * lngCells), lngCells - 1);
+    const [row0, row1] = [latIndex(bbox.minLat), latIndex(bbox.maxLat)];
+    const [col0, col1] = [lngIndex(bbox.minLng), lngIndex(bbox.maxLng)];
+    if ((row1 - row0 + 1) * (col1 - col0 + 1) > maxCells && precision > 1) continue;
+
+    const cells: string[] = [];
+    for (let row = row0; row <= row1; row++) {
+      for (let col = col0; col <= col1; col++) {
+        // The centre of each grid cell encodes to that cell's hash
+        const centre = { lat: ((row + 0.5) / latCells) * 180 - 90, lng: ((col + 0.5) / lngCells) * 360 - 180 };
+        cells.push(encodeGeohash(centre, precision));
+      }
+    }
+    return cells;
+  }
+}
@@ -0,0 +1,81 @@
+import type { NextFunction, Request, Response } from "express";
+import { getDb } from "./db";
+import { ApiError, invalidField } from "./errors";
+
+/**
+ * Makes a write safe to retry. A request sent with an `Idempotency-Key`
+ * header runs once per user and key; sending it again answers with the
+ * stored response instead of running it twice. The client's offline outbox
+ * depends on this: a queued post that reached the server just before the
+ * connection dropped is not created again when the outbox replays it.
+ */
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+// A retry is expected within minutes; a device offline for longer than this is simply sent a fresh answer
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+let lastPrune = 0;
+
+function prune(database: any, now: number) {
+  if (now - lastPrune < 60 * 60 * 1000) return;
+  lastPrune = now;
+  database.prepare("DELETE FROM idempotency_keys WHERE created_at < ?").run(new Date(now - KEY_TTL_MS).toISOString());
+}
+
+// Outcomes a retry could change are not kept: server errors and rate limiting
+function isFinal(status: number) {
+  return status < 500 && status !== 429;
+}
+
+/** Middleware for write routes; goes after `requireUser` and before `rateLimit` so replays are not counted. */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined) return next();
+  if (!KEY_PATTERN.test(key)) {
+    return next(invalidField("Idempotency-Key", "invalid_format", { expected: "8-128 letters, digits, _ or -" }));
+  }
+
+  try {
+    const database = await getDb();
+    const now = Date.now();
+    prune(database, now);
+    const userId = req.user!.id;
+    // The same key on another route is a client bug, not a retry
+    const request = `${req.method} ${req.originalUrl.split("?")[0]}`;
+
+    const stored = database.prepare("SELECT request, status, body FROM idempotency_keys WHERE user_id = ? AND key = ?")
+      .get(userId, key);
+    if (stored) {
+      if (stored.request !== request) {
+        throw new ApiError(409, "conflict", 'This Idempotency-Key was already used for a different request');
+      }
+      if (stored.status === null) {
+        throw new ApiError(409, "conflict", 'A request with this Idempotency-Key is still being processed');
+      }
+      res.set("Idempotent-Replayed", "true");
+      return res.status(stored.status).type("json").send(stored.body);
+    }
+
+    database.prepare(`
+      INSERT INTO idempotency_keys (user_id, key, request, status, body, created_at) VALUES (?, ?, ?, NULL, NULL, ?)
+    `).run(userId, key, request, new Date(now).toISOString());
+
+    // Every route answers through res.json, errors included, so that is where the response is captured
+    const json = res.json.bind(res);
+    res.json = body => {
+      if (isFinal(res.statusCode)) {
+        database.prepare("UPDATE idempotency_keys SET status = ?, body = ? WHERE user_id = ? AND key = ?")
+          .run(res.statusCode, JSON.stringify(body), userId, key);
+      } else {
+        database.prepare("DELETE FROM idempotency_keys WHERE user_id = ? AND key = ?").run(userId, key);
+      }
+      return json(body);
+    };
+    // A response that never went through res.json must not leave the key stuck "in progress"
+    res.on("close", () => {
+      database.prepare("DELETE FROM idempotency_keys WHERE user_id = ? AND key = ? AND status IS NULL").run(userId, key);
+    });
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,48 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default transport: prints the message so magic links can be used locally
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Posts the message as JSON to MAIL_WEBHOOK_URL (e.g. a transactional mail service relay)
+export class WebhookMailer implements Mailer {
+  constructor(private url: string) {}
+
+  async send(message: MailMessage) {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+    });
+    if (!res.ok) {
+      throw new Error(`Mail webhook responded with ${res.status}`);
+    }
+  }
+}
+
+let mailer: Mailer | null = null;
+
+export function getMailer(): Mailer {
+  if (mailer) return mailer;
+  mailer = process.env.MAIL_WEBHOOK_URL
+    ? new WebhookMailer(process.env.MAIL_WEBHOOK_URL)
+    : new ConsoleMailer();
+  return mailer;
+}
+
+// Lets tests or alternative deployments plug in their own transport
+export function setMailer(next: Mailer) {
+  mailer = next;
+}
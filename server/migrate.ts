@@ -0,0 +1,54 @@
+import { migrations } from "./migrations";
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+function ensureMigrationsTable(db: any) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+export function migrationStatus(db: any): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  const applied = new Map<number, string>(
+    db.prepare("SELECT version, applied_at FROM schema_migrations").all().map((r: any) => [r.version, r.applied_at])
+  );
+  return migrations.map(m => ({ version: m.version, name: m.name, applied_at: applied.get(m.version) ?? null }));
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction. Foreign
+ * keys are off while migrating (table rebuilds need it) and checked before
+ * each migration commits. Returns the migrations that were applied.
+ */
+export function runMigrations(db: any) {
+  const pending = migrationStatus(db).filter(m => !m.applied_at);
+  if (!pending.length) return [];
+
+  const record = db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)");
+  // PRAGMA foreign_keys is a no-op inside a transaction, so toggle it around them
+  db.pragma("foreign_keys = OFF");
+  try {
+    for (const { version } of pending) {
+      const migration = migrations.find(m => m.version === version)!;
+      db.transaction(() => {
+        migration.up(db);
+        const violations = db.pragma("foreign_key_check");
+        if (violations.length) {
+          throw new Error(`Migration ${version}_${migration.name} left ${violations.length} foreign key violation(s)`);
+        }
+        record.run(version, migration.name, new Date().toISOString());
+      })();
+      console.log(`Applied migration ${version}_${migration.name}`);
+    }
+  } finally {
+    db.pragma("foreign_keys = ON");
+  }
+  return pending;
+}
@@ -0,0 +1,24 @@
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (id TEXT PRIMARY KEY, name TEXT, email TEXT, avatar TEXT);
+      CREATE TABLE IF NOT EXISTS posts (
+        id TEXT PRIMARY KEY, user_id TEXT, place_name TEXT, description TEXT,
+        lat REAL, lng REAL, distribution_time TEXT, created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE IF NOT EXISTS votes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, post_id TEXT, user_id TEXT, vote_type INTEGER,
+        UNIQUE(post_id, user_id)
+      );
+      CREATE TABLE IF NOT EXISTS reports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, post_id TEXT, user_id TEXT, reason TEXT
+      );
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 2,
+  name: "accounts",
+  up(db) {
+    ensureColumn(db, "users", "is_anonymous", "INTEGER NOT NULL DEFAULT 0");
+    ensureColumn(db, "users", "created_at", "DATETIME");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS login_tokens (
+        token_hash TEXT PRIMARY KEY, email TEXT NOT NULL, expires_at TEXT NOT NULL, used_at TEXT
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email ON users(email) WHERE email IS NOT NULL;
+    `);
+  },
+};
+
+export default migration;
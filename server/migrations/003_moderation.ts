@@ -0,0 +1,28 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 3,
+  name: "moderation",
+  up(db) {
+    ensureColumn(db, "users", "role", "TEXT NOT NULL DEFAULT 'user'");
+    ensureColumn(db, "users", "banned_at", "TEXT");
+    ensureColumn(db, "posts", "hidden_at", "TEXT");
+    ensureColumn(db, "posts", "hidden_reason", "TEXT");
+    ensureColumn(db, "reports", "category", "TEXT NOT NULL DEFAULT 'other'");
+    ensureColumn(db, "reports", "status", "TEXT NOT NULL DEFAULT 'open'");
+    ensureColumn(db, "reports", "created_at", "DATETIME");
+    ensureColumn(db, "reports", "resolved_at", "TEXT");
+    ensureColumn(db, "reports", "resolved_by", "TEXT");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS moderation_actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, action TEXT NOT NULL, target_type TEXT NOT NULL,
+        target_id TEXT NOT NULL, actor_id TEXT NOT NULL, reason TEXT, metadata TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_reports_post ON reports(post_id, status);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import type { Migration } from "./index";
+
+// The trigger-maintained R*Tree mirrors posts.lat/lng, keyed by the posts rowid
+const migration: Migration = {
+  version: 4,
+  name: "spatial_index",
+  up(db) {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS posts_rtree USING rtree(id, min_lat, max_lat, min_lng, max_lng);
+      CREATE TRIGGER IF NOT EXISTS posts_rtree_insert AFTER INSERT ON posts WHEN NEW.lat IS NOT NULL AND NEW.lng IS NOT NULL
+      BEGIN
+        INSERT OR REPLACE INTO posts_rtree VALUES (NEW.rowid, NEW.lat, NEW.lat, NEW.lng, NEW.lng);
+      END;
+      CREATE TRIGGER IF NOT EXISTS posts_rtree_update AFTER UPDATE OF lat, lng ON posts
+      BEGIN
+        DELETE FROM posts_rtree WHERE id = OLD.rowid;
+        INSERT INTO posts_rtree SELECT NEW.rowid, NEW.lat, NEW.lat, NEW.lng, NEW.lng
+          WHERE NEW.lat IS NOT NULL AND NEW.lng IS NOT NULL;
+      END;
+      CREATE TRIGGER IF NOT EXISTS posts_rtree_delete AFTER DELETE ON posts
+      BEGIN
+        DELETE FROM posts_rtree WHERE id = OLD.rowid;
+      END;
+      INSERT OR IGNORE INTO posts_rtree
+        SELECT rowid, lat, lat, lng, lng FROM posts WHERE lat IS NOT NULL AND lng IS NOT NULL;
+    `);
+  },
+};
+
+export default migration;
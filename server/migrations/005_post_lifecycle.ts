@@ -0,0 +1,22 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+import { defaultEndsAt } from "../../shared/lifecycle";
+
+const migration: Migration = {
+  version: 5,
+  name: "post_lifecycle",
+  up(db) {
+    ensureColumn(db, "posts", "ends_at", "TEXT");
+    db.exec("CREATE INDEX IF NOT EXISTS idx_posts_ends_at ON posts(ends_at)");
+
+    // Posts created before lifecycles existed get the default duration
+    const openEnded = db.prepare("SELECT id, distribution_time FROM posts WHERE ends_at IS NULL").all();
+    const setEndsAt = db.prepare("UPDATE posts SET ends_at = ? WHERE id = ?");
+    for (const post of openEnded) {
+      const start = new Date(post.distribution_time || Date.now());
+      setEndsAt.run(defaultEndsAt(isNaN(start.getTime()) ? new Date().toISOString() : start.toISOString()), post.id);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 6,
+  name: "schedules",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY, user_id TEXT NOT NULL, place_name TEXT NOT NULL, description TEXT,
+        lat REAL NOT NULL, lng REAL NOT NULL, frequency TEXT NOT NULL, weekdays TEXT,
+        start_time TEXT, duration_minutes INTEGER NOT NULL, timezone TEXT NOT NULL,
+        starts_on TEXT NOT NULL, until TEXT, created_at DATETIME DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+      );
+      CREATE TABLE IF NOT EXISTS schedule_exceptions (
+        schedule_id TEXT NOT NULL, date TEXT NOT NULL, start_time TEXT,
+        PRIMARY KEY (schedule_id, date)
+      );
+    `);
+    ensureColumn(db, "posts", "schedule_id", "TEXT");
+    db.exec("CREATE INDEX IF NOT EXISTS idx_posts_schedule ON posts(schedule_id, distribution_time)");
+  },
+};
+
+export default migration;
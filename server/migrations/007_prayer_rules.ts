@@ -0,0 +1,13 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 7,
+  name: "prayer_rules",
+  up(db) {
+    ensureColumn(db, "posts", "prayer_rule", "TEXT");
+    ensureColumn(db, "schedules", "prayer_rule", "TEXT");
+  },
+};
+
+export default migration;
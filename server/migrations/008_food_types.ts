@@ -0,0 +1,35 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 8,
+  name: "food_types",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS food_types (
+        id TEXT PRIMARY KEY, label_bn TEXT NOT NULL, label_en TEXT NOT NULL, color TEXT NOT NULL,
+        sort_order INTEGER NOT NULL DEFAULT 100, active INTEGER NOT NULL DEFAULT 1
+      );
+    `);
+    ensureColumn(db, "posts", "food_type", "TEXT");
+    ensureColumn(db, "schedules", "food_type", "TEXT");
+    db.exec("CREATE INDEX IF NOT EXISTS idx_posts_food_type ON posts(food_type)");
+    db.exec(`
+      INSERT OR IGNORE INTO food_types (id, label_bn, label_en, color, sort_order) VALUES
+        ('biriyani', 'বিরিয়ানি', 'Biryani', '#F97316', 10),
+        ('teheri', 'তেহারি', 'Tehari', '#F59E0B', 20),
+        ('khicuri', 'খিচুড়ি', 'Khichuri', '#CA8A04', 30),
+        ('normal', 'সাধারণ খাবার', 'Regular meal', '#78716C', 40);
+    `);
+
+    // The client used to store the food type id in `description`; move it to its own column
+    for (const table of ["posts", "schedules"]) {
+      db.prepare(`
+        UPDATE ${table} SET food_type = description, description = NULL
+        WHERE food_type IS NULL AND description IN (SELECT id FROM food_types)
+      `).run();
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,107 @@
+import type { Migration } from "./index";
+
+/**
+ * SQLite cannot add constraints to an existing table, so posts, votes and
+ * reports are rebuilt with foreign keys. Rows that would violate them are
+ * repaired first: unknown authors get a placeholder anonymous user, and votes
+ * or reports pointing at deleted posts are dropped.
+ */
+const migration: Migration = {
+  version: 9,
+  name: "foreign_keys",
+  up(db) {
+    db.exec(`
+      INSERT OR IGNORE INTO users (id, name, is_anonymous, created_at)
+        SELECT user_id, 'Anonymous User', 1, CURRENT_TIMESTAMP FROM (
+          SELECT user_id FROM posts UNION SELECT user_id FROM votes UNION SELECT user_id FROM reports
+        ) WHERE user_id IS NOT NULL;
+      DELETE FROM votes WHERE post_id NOT IN (SELECT id FROM posts) OR user_id IS NULL OR vote_type NOT IN (0, 1);
+      DELETE FROM reports WHERE post_id NOT IN (SELECT id FROM posts);
+      UPDATE posts SET schedule_id = NULL WHERE schedule_id NOT IN (SELECT id FROM schedules);
+      UPDATE posts SET food_type = NULL WHERE food_type NOT IN (SELECT id FROM food_types);
+      DELETE FROM schedule_exceptions WHERE schedule_id NOT IN (SELECT id FROM schedules);
+
+      CREATE TABLE posts_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT REFERENCES users(id),
+        place_name TEXT, description TEXT, lat REAL, lng REAL, distribution_time TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        hidden_at TEXT, hidden_reason TEXT, ends_at TEXT,
+        schedule_id TEXT REFERENCES schedules(id) ON DELETE SET NULL,
+        prayer_rule TEXT,
+        food_type TEXT REFERENCES food_types(id)
+      );
+      -- Keep rowids so posts_rtree entries still line up
+      INSERT INTO posts_new (rowid, id, user_id, place_name, description, lat, lng, distribution_time,
+          created_at, hidden_at, hidden_reason, ends_at, schedule_id, prayer_rule, food_type)
+        SELECT rowid, id, user_id, place_name, description, lat, lng, distribution_time,
+          created_at, hidden_at, hidden_reason, ends_at, schedule_id, prayer_rule, food_type FROM posts;
+
+      CREATE TABLE votes_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        vote_type INTEGER NOT NULL CHECK (vote_type IN (0, 1)),
+        UNIQUE(post_id, user_id)
+      );
+      INSERT INTO votes_new (id, post_id, user_id, vote_type) SELECT id, post_id, user_id, vote_type FROM votes;
+
+      CREATE TABLE reports_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        user_id TEXT REFERENCES users(id),
+        reason TEXT,
+        category TEXT NOT NULL DEFAULT 'other',
+        status TEXT NOT NULL DEFAULT 'open',
+        created_at DATETIME,
+        resolved_at TEXT,
+        resolved_by TEXT
+      );
+      INSERT INTO reports_new (id, post_id, user_id, reason, category, status, created_at, resolved_at, resolved_by)
+        SELECT id, post_id, user_id, reason, category, status, created_at, resolved_at, resolved_by FROM reports;
+
+      CREATE TABLE schedule_exceptions_new (
+        schedule_id TEXT NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+        date TEXT NOT NULL, start_time TEXT,
+        PRIMARY KEY (schedule_id, date)
+      );
+      INSERT INTO schedule_exceptions_new SELECT schedule_id, date, start_time FROM schedule_exceptions;
+
+      DROP TABLE votes;
+      DROP TABLE reports;
+      DROP TABLE posts;
+      DROP TABLE schedule_exceptions;
+      ALTER TABLE posts_new RENAME TO posts;
+      ALTER TABLE votes_new RENAME TO votes;
+      ALTER TABLE reports_new RENAME TO reports;
+      ALTER TABLE schedule_exceptions_new RENAME TO schedule_exceptions;
+
+      -- Indexes and triggers are dropped along with the old tables
+      CREATE INDEX idx_reports_post ON reports(post_id, status);
+      CREATE INDEX idx_votes_user ON votes(user_id);
+      CREATE INDEX idx_posts_ends_at ON posts(ends_at);
+      CREATE INDEX idx_posts_schedule ON posts(schedule_id, distribution_time);
+      CREATE INDEX idx_posts_food_type ON posts(food_type);
+      CREATE INDEX idx_posts_user ON posts(user_id);
+      CREATE TRIGGER posts_rtree_insert AFTER INSERT ON posts WHEN NEW.lat IS NOT NULL AND NEW.lng IS NOT NULL
+      BEGIN
+        INSERT OR REPLACE INTO posts_rtree VALUES (NEW.rowid, NEW.lat, NEW.lat, NEW.lng, NEW.lng);
+      END;
+      CREATE TRIGGER posts_rtree_update AFTER UPDATE OF lat, lng ON posts
+      BEGIN
+        DELETE FROM posts_rtree WHERE id = OLD.rowid;
+        INSERT INTO posts_rtree SELECT NEW.rowid, NEW.lat, NEW.lat, NEW.lng, NEW.lng
+          WHERE NEW.lat IS NOT NULL AND NEW.lng IS NOT NULL;
+      END;
+      CREATE TRIGGER posts_rtree_delete AFTER DELETE ON posts
+      BEGIN
+        DELETE FROM posts_rtree WHERE id = OLD.rowid;
+      END;
+      DELETE FROM posts_rtree;
+      INSERT INTO posts_rtree
+        SELECT rowid, lat, lat, lng, lng FROM posts WHERE lat IS NOT NULL AND lng IS NOT NULL;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 10,
+  name: "anti_spam",
+  up(db) {
+    ensureColumn(db, "users", "shadow_banned_at", "TEXT");
+    ensureColumn(db, "users", "shadow_banned_until", "TEXT");
+    ensureColumn(db, "users", "shadow_ban_reason", "TEXT");
+    // Older votes have no time and so never count towards a burst
+    ensureColumn(db, "votes", "voted_at", "TEXT");
+    ensureColumn(db, "votes", "suppressed", "INTEGER NOT NULL DEFAULT 0");
+    db.exec("CREATE INDEX IF NOT EXISTS idx_votes_post_time ON votes(post_id, voted_at)");
+  },
+};
+
+export default migration;
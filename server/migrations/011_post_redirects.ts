@@ -0,0 +1,19 @@
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 11,
+  name: "post_redirects",
+  up(db) {
+    // Ids of posts merged into another one; requests for the old id are answered with the new post
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS post_redirects (
+        old_id TEXT PRIMARY KEY,
+        new_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        merged_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_post_redirects_new ON post_redirects(new_id);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 12,
+  name: "reputation",
+  up(db) {
+    // Cached by refreshReputation so feeds can show badges without recomputing
+    ensureColumn(db, "users", "reputation_score", "REAL");
+    ensureColumn(db, "users", "reputation_level", "TEXT");
+    ensureColumn(db, "users", "reputation_updated_at", "TEXT");
+    // The evidence behind the score, shown on profiles
+    for (const column of ["confirmed_posts", "disputed_posts", "agreed_votes", "disagreed_votes"]) {
+      ensureColumn(db, "users", column, "INTEGER NOT NULL DEFAULT 0");
+    }
+  },
+};
+
+export default migration;
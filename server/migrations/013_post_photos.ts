@@ -0,0 +1,23 @@
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 13,
+  name: "post_photos",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS post_photos (
+        id TEXT PRIMARY KEY,
+        post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        user_id TEXT REFERENCES users(id),
+        file_key TEXT NOT NULL,
+        thumbnail_key TEXT NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_post_photos_post ON post_photos(post_id, created_at);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 14,
+  name: "post_updates",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS post_updates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        user_id TEXT REFERENCES users(id),
+        kind TEXT NOT NULL,
+        body TEXT,
+        suppressed INTEGER NOT NULL DEFAULT 0,
+        -- ISO time, like votes.voted_at, so clients can show how recent an update is
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_post_updates_post ON post_updates(post_id, id);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 15,
+  name: "live_events",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS live_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_live_events_created ON live_events(created_at);
+    `);
+  },
+};
+
+export default migration;
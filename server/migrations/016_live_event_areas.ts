@@ -0,0 +1,13 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 16,
+  name: "live_event_areas",
+  up(db) {
+    // Events logged before this have no area and are only replayed to unscoped streams
+    ensureColumn(db, "live_events", "geohash", "TEXT NOT NULL DEFAULT ''");
+  },
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from "./index";
+import { ensureColumn } from "./helpers";
+
+const migration: Migration = {
+  version: 17,
+  name: "post_sync",
+  up(db) {
+    // ISO time of the last change a client would see: the post itself, its votes, its status or its visibility
+    ensureColumn(db, "posts", "updated_at", "TEXT");
+    db.exec(`
+      UPDATE posts SET updated_at = replace(created_at, ' ', 'T') || '.000Z' WHERE updated_at IS NULL;
+      CREATE INDEX IF NOT EXISTS idx_posts_updated_at ON posts(updated_at);
+
+      -- Posts deleted or merged away, so delta sync can tell clients to drop them
+      CREATE TABLE IF NOT EXISTS post_tombstones (
+        post_id TEXT PRIMARY KEY,
+        removed_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_post_tombstones_removed ON post_tombstones(removed_at);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 18,
+  name: "idempotency_keys",
+  up(db) {
+    // Responses to writes sent with an Idempotency-Key; status is null while the first attempt is running
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        user_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        request TEXT NOT NULL,
+        status INTEGER,
+        body TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, key)
+      );
+      CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys(created_at);
+    `);
+  },
+};
+
+export default migration;
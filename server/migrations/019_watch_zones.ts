@@ -0,0 +1,45 @@
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 19,
+  name: "watch_zones",
+  up(db) {
+    db.exec(`
+      -- Browser push endpoints; one user can have several devices
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        endpoint TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+      -- Circles a user wants to hear about, with optional food types (JSON array) and local hours
+      CREATE TABLE IF NOT EXISTS watch_zones (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        radius_m INTEGER NOT NULL,
+        food_types TEXT,
+        notify_from TEXT,
+        notify_until TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_watch_zones_user ON watch_zones(user_id);
+
+      -- So a user hears about each post once per reason, however many of their zones it falls in
+      CREATE TABLE IF NOT EXISTS push_deliveries (
+        user_id TEXT NOT NULL,
+        post_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        sent_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, post_id, reason)
+      );
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,8 @@
+// SQLite cannot `ADD COLUMN IF NOT EXISTS`, so check the table first. Databases
+// created before migrations existed may already have some of these columns.
+export function ensureColumn(db: any, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+  if (!columns.some((c: any) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
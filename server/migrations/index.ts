@@ -0,0 +1,49 @@
+import initialSchema from "./001_initial_schema";
+import accounts from "./002_accounts";
+import moderation from "./003_moderation";
+import spatialIndex from "./004_spatial_index";
+import postLifecycle from "./005_post_lifecycle";
+import schedules from "./006_schedules";
+import prayerRules from "./007_prayer_rules";
+import foodTypes from "./008_food_types";
+import foreignKeys from "./009_foreign_keys";
+import antiSpam from "./010_anti_spam";
+import postRedirects from "./011_post_redirects";
+import reputation from "./012_reputation";
+import postPhotos from "./013_post_photos";
+import postUpdates from "./014_post_updates";
+import liveEvents from "./015_live_events";
+import liveEventAreas from "./016_live_event_areas";
+import postSync from "./017_post_sync";
+import idempotencyKeys from "./018_idempotency_keys";
+import watchZones from "./019_watch_zones";
+
+export interface Migration {
+  version: number;
+  name: string;
+  /** Runs inside a transaction with foreign key enforcement switched off */
+  up(db: any): void;
+}
+
+// Append new migrations here; never edit or reorder one that has shipped
+export const migrations: Migration[] = [
+  initialSchema,
+  accounts,
+  moderation,
+  spatialIndex,
+  postLifecycle,
+  schedules,
+  prayerRules,
+  foodTypes,
+  foreignKeys,
+  antiSpam,
+  postRedirects,
+  reputation,
+  postPhotos,
+  postUpdates,
+  liveEvents,
+  liveEventAreas,
+  postSync,
+  idempotencyKeys,
+  watchZones,
+];
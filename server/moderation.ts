@@ -0,0 +1,262 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { getDb } from "./db";
+import { requireAdmin, requireUser } from "./auth";
+import { Storage, getStorage } from "./storage";
+import { ApiError, asyncRoute, invalidField, notFound } from "./errors";
+import { isShadowBanned } from "./spam";
+import { rateLimit } from "./rate-limit";
+import { removePhotoFiles } from "./photos";
+import { publish } from "./realtime";
+import { refreshReputation } from "./reputation";
+import { skipDeletedOccurrence } from "./schedules";
+import { optionalText, requiredText, validate } from "./validation";
+
+export const REPORT_CATEGORIES = [
+  "fake", // No distribution happens here
+  "wrong_location",
+  "wrong_time",
+  "ended",
+  "spam",
+  "offensive",
+  "other",
+] as const;
+
+export type ReportCategory = typeof REPORT_CATEGORIES[number];
+
+// Number of distinct users with open reports before a post is hidden automatically
+const REPORT_HIDE_THRESHOLD = Number(process.env.REPORT_HIDE_THRESHOLD) || 5;
+
+const SYSTEM_ACTOR = "system";
+
+const reportSchema = z.object({
+  post_id: requiredText(64),
+  category: z.enum(REPORT_CATEGORIES),
+  reason: optionalText(500),
+});
+
+interface ModerationAction {
+  action: string;
+  targetType: "post" | "user";
+  targetId: string;
+  actorId: string;
+  reason?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export function logModerationAction(database: any, entry: ModerationAction) {
+  database.prepare(`
+    INSERT INTO moderation_actions (action, target_type, target_id, actor_id, reason, metadata)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    entry.actorId,
+    entry.reason ?? null,
+    entry.metadata ? JSON.stringify(entry.metadata) : null
+  );
+}
+
+async function hidePost(database: any, storage: Storage, postId: string, actorId: string, reason: string | null) {
+  const hidden = await storage.posts.hide(postId, reason);
+  if (hidden) {
+    logModerationAction(database, { action: "post_hidden", targetType: "post", targetId: postId, actorId, reason });
+    const post = (await storage.posts.get(postId))!;
+    // A hidden post counts against its author
+    if (post.user_id) await refreshReputation(database, storage, post.user_id);
+    await publish("post:hidden", { post_id: postId }, post);
+  }
+  return hidden;
+}
+
+/** Makes a hidden post visible again; maps dropped it on `post:hidden`, so to them it is a new post. */
+export async function restorePost(storage: Storage, postId: string) {
+  const restored = await storage.posts.restore(postId);
+  if (restored) {
+    const post = (await storage.posts.get(postId))!;
+    if (post.user_id) await refreshReputation(await getDb(), storage, post.user_id);
+    await publish("post:created", post, post);
+  }
+  return restored;
+}
+
+function optionalReason(body: any): string | null {
+  return typeof body?.reason === "string" && body.reason.trim() ? body.reason.trim().slice(0, 500) : null;
+}
+
+export function registerModerationRoutes(app: Express) {
+  app.post("/api/reports", requireUser, rateLimit("reports"), asyncRoute(async (req, res) => {
+    const input = validate(reportSchema, req.body);
+    const database = await getDb();
+    const { category, reason } = input;
+    const user_id = req.user!.id;
+
+    const storage = await getStorage();
+    const post_id = await storage.posts.resolveId(input.post_id);
+    if (!await storage.posts.get(post_id)) throw notFound("Post");
+    // Dropped without telling the reporter, so reports cannot be used to take spots down
+    if (isShadowBanned(database, user_id)) {
+      return res.status(201).json({ success: true, hidden: false });
+    }
+    await storage.reports.submit({ post_id, user_id, category, reason });
+
+    const reporters = await storage.reports.openReporterCount(post_id);
+    let hidden = false;
+    if (reporters >= REPORT_HIDE_THRESHOLD) {
+      hidden = await hidePost(database, storage, post_id, SYSTEM_ACTOR, `Reached ${reporters} reports`);
+    }
+    res.status(201).json({ success: true, hidden });
+  }));
+
+  app.get("/api/admin/reports", requireAdmin, asyncRoute(async (req, res) => {
+    const storage = await getStorage();
+    const status = typeof req.query.status === "string" ? req.query.status : "open";
+    const reports = await storage.reports.list(status);
+
+    const byPost = new Map<string, typeof reports>();
+    for (const r of reports) byPost.set(r.post_id, [...(byPost.get(r.post_id) ?? []), r]);
+
+    const groups = await Promise.all([...byPost].map(async ([postId, postReports]) => {
+      const post = await storage.posts.get(postId);
+      const categories: Record<string, number> = {};
+      for (const r of postReports) categories[r.category] = (categories[r.category] || 0) + 1;
+      return {
+        post_id: postId,
+        place_name: post?.place_name ?? null,
+        author_id: post?.user_id ?? null,
+        hidden_at: post?.hidden_at ?? null,
+        hidden_reason: post?.hidden_reason ?? null,
+        report_count: postReports.length,
+        reporter_count: new Set(postReports.map(r => r.user_id)).size,
+        // Reports are newest first
+        last_reported_at: postReports[0].created_at,
+        categories,
+        reports: postReports.map(({ id, post_id, user_id, category, reason, created_at }) =>
+          ({ id, post_id, user_id, category, reason, created_at })),
+      };
+    }));
+
+    res.json(groups.sort((a, b) =>
+      b.reporter_count - a.reporter_count || (a.last_reported_at < b.last_reported_at ? 1 : -1)
+    ));
+  }));
+
+  app.post("/api/admin/posts/:id/reports", requireAdmin, asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const { status } = req.body;
+    if (status !== "resolved" && status !== "dismissed") {
+      throw invalidField("status", "invalid_choice", { choices: ["resolved", "dismissed"] });
+    }
+    const count = await (await getStorage()).reports.close(req.params.id, status, req.user!.id);
+    logModerationAction(database, {
+      action: `reports_${status}`,
+      targetType: "post",
+      targetId: req.params.id,
+      actorId: req.user!.id,
+      reason: optionalReason(req.body),
+      metadata: { count },
+    });
+    res.json({ success: true, count });
+  }));
+
+  app.post("/api/admin/posts/:id/hide", requireAdmin, asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const storage = await getStorage();
+    const hidden = await hidePost(database, storage, req.params.id, req.user!.id, optionalReason(req.body));
+    if (!hidden) throw new ApiError(404, "not_found", 'Post not found or already hidden');
+    await storage.reports.close(req.params.id, "resolved", req.user!.id);
+    res.json({ success: true });
+  }));
+
+  app.post("/api/admin/posts/:id/restore", requireAdmin, asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const storage = await getStorage();
+    if (!await restorePost(storage, req.params.id)) {
+      throw new ApiError(404, "not_found", 'Post not found or not hidden');
+    }
+
+    // Otherwise the same reports would push it straight back over the threshold
+    await storage.reports.close(req.params.id, "dismissed", req.user!.id);
+    logModerationAction(database, {
+      action: "post_restored",
+      targetType: "post",
+      targetId: req.params.id,
+      actorId: req.user!.id,
+      reason: optionalReason(req.body),
+    });
+    res.json({ success: true });
+  }));
+
+  app.delete("/api/admin/posts/:id", requireAdmin, asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const storage = await getStorage();
+    const reports = await storage.reports.close(req.params.id, "resolved", req.user!.id);
+    const photos = await storage.photos.list(req.params.id);
+    const post = await storage.posts.delete(req.params.id);
+    if (!post) throw notFound("Post");
+    skipDeletedOccurrence(database, post);
+    await removePhotoFiles(photos);
+    await publish("post:hidden", { post_id: post.id }, post);
+
+    // Votes, reports and photos are deleted with the post; the snapshot keeps the decision reviewable
+    logModerationAction(database, {
+      action: "post_deleted",
+      targetType: "post",
+      targetId: post.id,
+      actorId: req.user!.id,
+      reason: optionalReason(req.body),
+      metadata: { post, reports },
+    });
+    res.json({ success: true });
+  }));
+
+  app.post("/api/admin/users/:id/ban", requireAdmin, asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const reason = optionalReason(req.body);
+    const result = database.prepare("UPDATE users SET banned_at = ? WHERE id = ? AND banned_at IS NULL")
+      .run(new Date().toISOString(), req.params.id);
+    if (!result.changes) throw new ApiError(404, "not_found", 'User not found or already banned');
+
+    let hiddenPosts = 0;
+    if (req.body?.hide_posts) {
+      const storage = await getStorage();
+      for (const postId of await storage.posts.visibleIdsByUser(req.params.id)) {
+        if (await hidePost(database, storage, postId, req.user!.id, "Author banned")) hiddenPosts++;
+      }
+    }
+    logModerationAction(database, {
+      action: "user_banned",
+      targetType: "user",
+      targetId: req.params.id,
+      actorId: req.user!.id,
+      reason,
+      metadata: { hidden_posts: hiddenPosts },
+    });
+    res.json({ success: true, hidden_posts: hiddenPosts });
+  }));
+
+  app.post("/api/admin/users/:id/unban", requireAdmin, asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const result = database.prepare("UPDATE users SET banned_at = NULL WHERE id = ? AND banned_at IS NOT NULL")
+      .run(req.params.id);
+    if (!result.changes) throw new ApiError(404, "not_found", 'User not found or not banned');
+    logModerationAction(database, {
+      action: "user_unbanned",
+      targetType: "user",
+      targetId: req.params.id,
+      actorId: req.user!.id,
+      reason: optionalReason(req.body),
+    });
+    res.json({ success: true });
+  }));
+
+  app.get("/api/admin/actions", requireAdmin, asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const actions = database.prepare(`
+      SELECT * FROM moderation_actions ORDER BY id DESC LIMIT ?
+    `).all(limit);
+    res.json(actions.map((a: any) => ({ ...a, metadata: a.metadata ? JSON.parse(a.metadata) : null })));
+  }));
+}
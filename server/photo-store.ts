@@ -0,0 +1,91 @@
+import path from "path";
+import { mkdir, rm, writeFile } from "fs/promises";
+
+/** Where uploaded photo files live; posts only keep the keys. */
+export interface PhotoStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Succeeds when the file is already gone */
+  remove(key: string): Promise<void>;
+  /** URL the browser loads the file from */
+  url(key: string): string;
+}
+
+// Default store: files under UPLOAD_DIR, served by the app itself under /api so serverless rewrites reach them
+export class LocalPhotoStore implements PhotoStore {
+  constructor(public dir: string, public baseUrl = "/api/photos") {}
+
+  async put(key: string, data: Buffer) {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async remove(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string) {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  private resolve(key: string) {
+    const file = path.resolve(this.dir, key);
+    if (!file.startsWith(path.resolve(this.dir) + path.sep)) throw new Error(`Invalid photo key "${key}"`);
+    return file;
+  }
+}
+
+/**
+ * Keeps files in an object store with a plain HTTP API: PUT and DELETE at
+ * PHOTO_STORE_URL/<key>, with PHOTO_STORE_TOKEN as a bearer token. Browsers
+ * load them from PHOTO_PUBLIC_URL, which defaults to the store's own URL.
+ */
+export class HttpPhotoStore implements PhotoStore {
+  constructor(private storeUrl: string, private token = "", private publicUrl = storeUrl) {}
+
+  async put(key: string, data: Buffer, contentType: string) {
+    const res = await fetch(this.target(key), {
+      method: "PUT",
+      headers: { ...this.auth(), "Content-Type": contentType, "Cache-Control": "public, max-age=31536000, immutable" },
+      body: data,
+    });
+    if (!res.ok) throw new Error(`Photo store responded with ${res.status}`);
+  }
+
+  async remove(key: string) {
+    const res = await fetch(this.target(key), { method: "DELETE", headers: this.auth() });
+    if (!res.ok && res.status !== 404) throw new Error(`Photo store responded with ${res.status}`);
+  }
+
+  url(key: string) {
+    return `${this.publicUrl.replace(/\/+$/, "")}/${encodeURIComponent(key)}`;
+  }
+
+  private target(key: string) {
+    return `${this.storeUrl.replace(/\/+$/, "")}/${encodeURIComponent(key)}`;
+  }
+
+  private auth(): Record<string, string> {
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+}
+
+let store: PhotoStore | null = null;
+
+export function getPhotoStore(): PhotoStore {
+  if (store) return store;
+  if (process.env.PHOTO_STORE_URL) {
+    store = new HttpPhotoStore(process.env.PHOTO_STORE_URL, process.env.PHOTO_STORE_TOKEN, process.env.PHOTO_PUBLIC_URL || undefined);
+    return store;
+  }
+  // A serverless function's disk is per instance and wiped on cold starts
+  if (process.env.VERCEL) console.warn("PHOTO_STORE_URL is not set: uploaded photos are kept in /tmp and will be lost");
+  const dir = process.env.UPLOAD_DIR || (process.env.NODE_ENV === "production" ? "/tmp/uploads" : "uploads");
+  store = new LocalPhotoStore(dir);
+  return store;
+}
+
+// Lets tests or alternative deployments keep photos elsewhere, e.g. an object store
+export function setPhotoStore(next: PhotoStore) {
+  store = next;
+}
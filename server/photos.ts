@@ -0,0 +1,164 @@
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { randomBytes } from "crypto";
+import { getDb } from "./db";
+import { requireUser } from "./auth";
+import { PhotoRecord, getStorage } from "./storage";
+import { logModerationAction } from "./moderation";
+import { rateLimit } from "./rate-limit";
+import { LocalPhotoStore, getPhotoStore } from "./photo-store";
+import { ApiError, asyncRoute, invalidField, notFound } from "./errors";
+
+const MAX_PHOTO_MB = Number(process.env.MAX_PHOTO_MB) || 8;
+const MAX_PHOTOS_PER_POST = Number(process.env.MAX_PHOTOS_PER_POST) || 12;
+// Larger images are scaled down to fit; the thumbnail is a square crop for the gallery grid
+const FULL_SIZE_PX = 1600;
+const THUMBNAIL_PX = 320;
+// Rejects decompression bombs: a small file that decodes to a huge bitmap
+const MAX_INPUT_PIXELS = 50_000_000;
+// Decided from the file contents, not the client's Content-Type
+const ACCEPTED_FORMATS = ["jpeg", "png", "webp"];
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PHOTO_MB * 1024 * 1024, files: 1 },
+}).single("photo");
+
+// Turns multer's errors into the API's field errors
+function receivePhoto(req: Request, res: Response, next: NextFunction) {
+  upload(req, res, err => {
+    if (err instanceof multer.MulterError) {
+      return next(err.code === "LIMIT_FILE_SIZE"
+        ? invalidField("photo", "file_too_large", { max_mb: MAX_PHOTO_MB })
+        : invalidField("photo", "invalid_format"));
+    }
+    next(err);
+  });
+}
+
+interface ProcessedPhoto {
+  full: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Re-encodes the upload as JPEG. sharp writes no EXIF, XMP or IPTC unless
+ * asked to, so camera details and GPS coordinates never reach the server's
+ * disk; `rotate()` first applies the EXIF orientation that is about to be lost.
+ */
+export async function processPhoto(input: Buffer): Promise<ProcessedPhoto> {
+  const open = () => sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  let format: string | undefined;
+  try {
+    format = (await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata()).format;
+  } catch {
+    throw invalidField("photo", "unsupported_image");
+  }
+  if (!format || !ACCEPTED_FORMATS.includes(format)) throw invalidField("photo", "unsupported_image");
+
+  const { data: full, info } = await open()
+    .resize({ width: FULL_SIZE_PX, height: FULL_SIZE_PX, fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 82, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+  const thumbnail = await open()
+    .resize({ width: THUMBNAIL_PX, height: THUMBNAIL_PX, fit: "cover" })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+  return { full, thumbnail, width: info.width, height: info.height };
+}
+
+export function photoView(photo: PhotoRecord) {
+  const store = getPhotoStore();
+  return {
+    id: photo.id,
+    post_id: photo.post_id,
+    user_id: photo.user_id,
+    url: store.url(photo.file_key),
+    thumbnail_url: store.url(photo.thumbnail_key),
+    width: photo.width,
+    height: photo.height,
+    created_at: photo.created_at,
+  };
+}
+
+/** Removes the files behind photo records that are being (or were) deleted. */
+export async function removePhotoFiles(photos: PhotoRecord[]) {
+  const store = getPhotoStore();
+  for (const photo of photos) {
+    await store.remove(photo.file_key);
+    await store.remove(photo.thumbnail_key);
+  }
+}
+
+export function registerPhotoRoutes(app: Express) {
+  const store = getPhotoStore();
+  if (store instanceof LocalPhotoStore) {
+    // Keys are random and files never change, so browsers may cache them for good
+    app.use(store.baseUrl, express.static(store.dir, { immutable: true, maxAge: "365d", index: false }));
+  }
+
+  app.get("/api/posts/:id/photos", asyncRoute(async (req, res) => {
+    const storage = await getStorage();
+    const post = await storage.posts.get(await storage.posts.resolveId(req.params.id));
+    if (!post || post.hidden_at) throw notFound("Post");
+    res.json((await storage.photos.list(post.id)).map(photoView));
+  }));
+
+  // The author when posting, and anyone who checks the spot later
+  app.post("/api/posts/:id/photos", requireUser, rateLimit("photos"), receivePhoto, asyncRoute(async (req, res) => {
+    if (!req.file) throw invalidField("photo", "required");
+    const storage = await getStorage();
+    const post = await storage.posts.get(await storage.posts.resolveId(req.params.id));
+    // Authors may still add to their own hidden posts, so a held-back post looks like any other to them
+    if (!post || (post.hidden_at && post.user_id !== req.user!.id)) throw notFound("Post");
+    if ((await storage.photos.list(post.id)).length >= MAX_PHOTOS_PER_POST) {
+      throw new ApiError(409, "conflict", `A post can have at most ${MAX_PHOTOS_PER_POST} photos`);
+    }
+
+    const processed = await processPhoto(req.file.buffer);
+    const id = randomBytes(8).toString("hex");
+    const fileKey = `${id}.jpg`;
+    const thumbnailKey = `${id}_thumb.jpg`;
+    await store.put(fileKey, processed.full, "image/jpeg");
+    await store.put(thumbnailKey, processed.thumbnail, "image/jpeg");
+
+    const photo = await storage.photos.add({
+      id,
+      post_id: post.id,
+      user_id: req.user!.id,
+      file_key: fileKey,
+      thumbnail_key: thumbnailKey,
+      width: processed.width,
+      height: processed.height,
+    });
+    res.status(201).json(photoView(photo));
+  }));
+
+  // The uploader, the post's author or an admin
+  app.delete("/api/photos/:id", requireUser, asyncRoute(async (req, res) => {
+    const storage = await getStorage();
+    const photo = await storage.photos.get(req.params.id);
+    if (!photo) throw notFound("Photo");
+    const post = await storage.posts.get(photo.post_id);
+    const isAdmin = req.user!.role === "admin";
+    if (!isAdmin && photo.user_id !== req.user!.id && post?.user_id !== req.user!.id) {
+      throw new ApiError(403, "forbidden", 'Only the uploader, the author or an admin can delete this photo');
+    }
+
+    await storage.photos.delete(photo.id);
+    await removePhotoFiles([photo]);
+    if (isAdmin && photo.user_id !== req.user!.id) {
+      logModerationAction(await getDb(), {
+        action: "photo_deleted",
+        targetType: "post",
+        targetId: photo.post_id,
+        actorId: req.user!.id,
+        metadata: { photo },
+      });
+    }
+    res.json({ success: true });
+  }));
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { expiryCutoff, withLifecycle } from "../shared/lifecycle";
+import { validate, queryNumber } from "./validation";
+import { BBox, LatLng, haversineMeters, inBbox, parseBbox, parseLatLng, radiusBbox } from "./geo";
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 500;
+const DEFAULT_RADIUS = 2000;
+const MAX_RADIUS = 50000;
+
+export interface PostQuery {
+  bbox: BBox | null;
+  near: LatLng | null;
+  radius: number;
+  limit: number;
+  cursor: [string | number, string] | null;
+  /** Only posts with one of these food types */
+  foodTypes: string[] | null;
+  /** Return only expired posts instead of only current ones */
+  archive?: boolean;
+}
+
+function encodeCursor(key: [string | number, string]) {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(value: string): [string | number, string] | null {
+  try {
+    const key = JSON.parse(Buffer.from(value, "base64url").toString());
+    return Array.isArray(key) && key.length === 2 && typeof key[1] === "string" ? key as [string | number, string] : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Shapes a posts row for API responses: computed lifecycle and parsed JSON columns. */
+export function toPost(row: any, now = Date.now()) {
+  const prayer_rule = typeof row.prayer_rule === "string" ? JSON.parse(row.prayer_rule) : row.prayer_rule ?? null;
+  return withLifecycle({ ...row, prayer_rule }, now);
+}
+
+/** Whether the clock alone moved the post's status or ending-soon flag between `from` and `to`. */
+export function lifecycleChanged(post: { distribution_time: string; ends_at: string }, from: number, to: number) {
+  const before = withLifecycle(post, from);
+  const after = withLifecycle(post, to);
+  return before.status !== after.status || before.ending_soon !== after.ending_soon;
+}
+
+// Plain code unit order, matching SQLite's default BINARY collation used by the SQL cursor
+function compareIds(a: string, b: string) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Parses a text query parameter with `parse`, reporting `expected` as the format when it fails. */
+function formatted<T>(parse: (value: string) => T | null, expected: string) {
+  return z.string().optional().transform((value, ctx) => {
+    if (value === undefined) return null;
+    const parsed = parse(value);
+    if (parsed === null) {
+      ctx.addIssue({ code: "custom", params: { code: "invalid_format", expected } });
+      return z.NEVER;
+    }
+    return parsed;
+  });
+}
+
+const postQuerySchema = z.object({
+  bbox: formatted(parseBbox, "minLng,minLat,maxLng,maxLat"),
+  near: formatted(parseLatLng, "lat,lng"),
+  radius: queryNumber(z.number().min(1).max(MAX_RADIUS).default(DEFAULT_RADIUS)),
+  limit: queryNumber(z.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT)),
+  cursor: formatted(decodeCursor, "a cursor from X-Next-Cursor"),
+  food_type: z.string().optional().transform(value =>
+    value ? value.split(",").map(f => f.trim()).filter(Boolean) : null
+  ),
+});
+
+/** Validates feed query parameters; throws a 400 naming the bad parameter. */
+export function parsePostQuery(query: unknown): PostQuery {
+  const { food_type, ...q } = validate(postQuerySchema, query);
+  return { ...q, foodTypes: food_type } as PostQuery;
+}
+
+/** Feed visibility shared by every storage driver: not hidden, and current or archived. */
+export function isListed(post: { hidden_at?: string | null; ends_at: string }, q: PostQuery, now = Date.now()) {
+  return !post.hidden_at && (post.ends_at <= expiryCutoff(now)) === !!q.archive;
+}
+
+/** Whether the post is where the query looks and of a food type it asks for, listed or not. */
+export function inArea(post: { food_type: string | null; lat: number; lng: number }, q: PostQuery) {
+  return (!q.foodTypes || (post.food_type !== null && q.foodTypes.includes(post.food_type))) &&
+    (!q.bbox || inBbox(post, q.bbox)) &&
+    (!q.near || haversineMeters(q.near, post) <= q.radius);
+}
+
+/**
+ * Sorts, pages and shapes feed candidates that already passed the storage
+ * driver's filters (visibility, food type and the search box).
+ *
+ * Without `near` results are newest first; with `near` they are nearest first
+ * and carry `distance` in metres. Every post carries its computed lifecycle.
+ */
+export function pagePosts(candidates: any[], q: PostQuery, now = Date.now()) {
+  // When both are given, the circle is further clipped to the viewport
+  if (q.bbox) candidates = candidates.filter(p => inBbox(p, q.bbox!));
+
+  let sorted: any[];
+  let keyOf: (p: any) => [string | number, string];
+  if (q.near) {
+    const center = q.near;
+    sorted = candidates
+      .map(p => ({ ...p, distance: Math.round(haversineMeters(center, p)) }))
+      .filter(p => p.distance <= q.radius)
+      .sort((a, b) => a.distance - b.distance || compareIds(a.id, b.id));
+    keyOf = p => [p.distance, p.id];
+    if (q.cursor) {
+      const [d, id] = q.cursor;
+      sorted = sorted.filter(p => p.distance > Number(d) || (p.distance === Number(d) && p.id > id));
+    }
+  } else {
+    const cursor = q.cursor;
+    sorted = candidates
+      .filter(p => !cursor || p.created_at < cursor[0] || (p.created_at === cursor[0] && p.id < cursor[1]))
+      .sort((a, b) => (a.created_at < b.created_at ? 1 : a.created_at > b.created_at ? -1 : compareIds(b.id, a.id)));
+    keyOf = p => [p.created_at, p.id];
+  }
+
+  const posts = sorted.slice(0, q.limit).map(p => toPost(p, now));
+  const nextCursor = sorted.length > q.limit ? encodeCursor(keyOf(posts[posts.length - 1])) : null;
+  return { posts, nextCursor };
+}
+
+/** The box that pre-filters a query: the circle's bounds for `near`, else the viewport. */
+export function searchBox(q: PostQuery) {
+  return q.near ? radiusBbox(q.near, q.radius) : q.bbox;
+}
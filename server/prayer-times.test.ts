@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { PrayerRule, computePrayerTimes, prayerRuleApplies, resolvePrayerRule } from "./prayer-times";
+
+const DHAKA = { lat: 23.8103, lng: 90.4125 };
+const MINUTE = 60 * 1000;
+
+function expectNear(actual: Date, expected: string, toleranceMinutes = 2) {
+  expect(Math.abs(actual.getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(toleranceMinutes * MINUTE);
+}
+
+describe("computePrayerTimes", () => {
+  it("gives the expected Karachi / Hanafi times for Dhaka at the March equinox", () => {
+    const times = computePrayerTimes("2026-03-20", DHAKA.lat, DHAKA.lng);
+    expectNear(times.fajr, "2026-03-20T04:47:00+06:00");
+    expectNear(times.sunrise, "2026-03-20T06:03:00+06:00");
+    expectNear(times.dhuhr, "2026-03-20T12:06:00+06:00");
+    expectNear(times.asr, "2026-03-20T16:28:00+06:00");
+    expectNear(times.maghrib, "2026-03-20T18:09:00+06:00");
+    expectNear(times.isha, "2026-03-20T19:25:00+06:00");
+  });
+
+  it("puts Hanafi Asr after the standard one", () => {
+    const hanafi = computePrayerTimes("2026-03-20", DHAKA.lat, DHAKA.lng, "karachi", "hanafi");
+    const standard = computePrayerTimes("2026-03-20", DHAKA.lat, DHAKA.lng, "karachi", "standard");
+    expect(hanafi.asr.getTime()).toBeGreaterThan(standard.asr.getTime());
+    expect(hanafi.dhuhr).toEqual(standard.dhuhr);
+  });
+
+  it("sets Isha a fixed time after Maghrib for Umm al-Qura", () => {
+    const times = computePrayerTimes("2026-03-20", DHAKA.lat, DHAKA.lng, "makkah");
+    expect(times.isha.getTime() - times.maghrib.getTime()).toBe(90 * MINUTE);
+  });
+
+  it("rejects unknown methods and angles the sun never reaches", () => {
+    expect(() => computePrayerTimes("2026-03-20", DHAKA.lat, DHAKA.lng, "nowhere")).toThrow("Unknown calculation method");
+    expect(() => computePrayerTimes("2026-06-21", 80, 0)).toThrow("Sun does not reach");
+  });
+});
+
+describe("resolvePrayerRule", () => {
+  const afterMaghrib: PrayerRule = { prayer: "maghrib", offset_minutes: 30, method: "karachi", asr: "hanafi" };
+
+  it("offsets the prayer time", () => {
+    const { maghrib } = computePrayerTimes("2026-03-20", DHAKA.lat, DHAKA.lng);
+    expect(resolvePrayerRule(afterMaghrib, "2026-03-20", DHAKA.lat, DHAKA.lng).getTime()).toBe(maghrib.getTime() + 30 * MINUTE);
+    expect(resolvePrayerRule({ ...afterMaghrib, offset_minutes: -15 }, "2026-03-20", DHAKA.lat, DHAKA.lng).getTime())
+      .toBe(maghrib.getTime() - 15 * MINUTE);
+  });
+
+  it("treats Jummah as Dhuhr, on Fridays only", () => {
+    const jummah: PrayerRule = { ...afterMaghrib, prayer: "jummah", offset_minutes: 0 };
+    const { dhuhr } = computePrayerTimes("2026-03-20", DHAKA.lat, DHAKA.lng);
+    expect(resolvePrayerRule(jummah, "2026-03-20", DHAKA.lat, DHAKA.lng)).toEqual(dhuhr);
+    expect(prayerRuleApplies(jummah, "2026-03-20")).toBe(true);
+    expect(prayerRuleApplies(jummah, "2026-03-21")).toBe(false);
+    expect(prayerRuleApplies(afterMaghrib, "2026-03-21")).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Offline prayer time calculator, following the standard astronomical method
+ * (as used by praytimes.org): solar declination and equation of time for the
+ * date, then the hour angle at which the sun reaches each prayer's angle.
+ */
+import { z } from "zod";
+import { weekday } from "./time";
+
+export type Prayer = "fajr" | "sunrise" | "dhuhr" | "asr" | "maghrib" | "isha" | "jummah";
+export type AsrMethod = "standard" | "hanafi";
+
+export const PRAYERS: Prayer[] = ["fajr", "sunrise", "dhuhr", "asr", "maghrib", "isha", "jummah"];
+
+interface CalculationMethod {
+  name: string;
+  fajrAngle: number;
+  /** Isha is either a twilight angle or a fixed number of minutes after Maghrib */
+  isha: { angle: number } | { minutes: number };
+}
+
+export const CALCULATION_METHODS: Record<string, CalculationMethod> = {
+  karachi: { name: "University of Islamic Sciences, Karachi", fajrAngle: 18, isha: { angle: 18 } },
+  mwl: { name: "Muslim World League", fajrAngle: 18, isha: { angle: 17 } },
+  isna: { name: "Islamic Society of North America", fajrAngle: 15, isha: { angle: 15 } },
+  egypt: { name: "Egyptian General Authority of Survey", fajrAngle: 19.5, isha: { angle: 17.5 } },
+  makkah: { name: "Umm al-Qura, Makkah", fajrAngle: 18.5, isha: { minutes: 90 } },
+};
+
+// Islamic Foundation Bangladesh publishes Karachi angles with Hanafi Asr
+export const DEFAULT_METHOD = "karachi";
+export const DEFAULT_ASR: AsrMethod = "hanafi";
+
+export interface PrayerRule {
+  prayer: Prayer;
+  /** Minutes after (positive) or before (negative) the prayer */
+  offset_minutes: number;
+  method: string;
+  asr: AsrMethod;
+}
+
+export type PrayerTimes = Record<Exclude<Prayer, "jummah">, Date>;
+
+const MAX_OFFSET_MINUTES = 6 * 60;
+
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+const fix = (a: number, b: number) => {
+  const x = a - b * Math.floor(a / b);
+  return x < 0 ? x + b : x;
+};
+
+function julianDate(year: number, month: number, day: number) {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+function sunPosition(jd: number) {
+  const d = jd - 2451545.0;
+  const g = fix(357.529 + 0.98560028 * d, 360);
+  const q = fix(280.459 + 0.98564736 * d, 360);
+  const l = fix(q + 1.915 * Math.sin(dtr(g)) + 0.02 * Math.sin(dtr(2 * g)), 360);
+  const e = 23.439 - 0.00000036 * d;
+  const ra = rtd(Math.atan2(Math.cos(dtr(e)) * Math.sin(dtr(l)), Math.cos(dtr(l)))) / 15;
+  return {
+    declination: rtd(Math.asin(Math.sin(dtr(e)) * Math.sin(dtr(l)))),
+    equation: q / 15 - fix(ra, 24),
+  };
+}
+
+/**
+ * Prayer times for a calendar date (`YYYY-MM-DD`, local to the location) as
+ * UTC instants. Throws when the sun never reaches an angle (far polar latitudes).
+ */
+export function computePrayerTimes(
+  date: string,
+  lat: number,
+  lng: number,
+  method = DEFAULT_METHOD,
+  asr: AsrMethod = DEFAULT_ASR
+): PrayerTimes {
+  const params = CALCULATION_METHODS[method];
+  if (!params) throw new Error(`Unknown calculation method: ${method}`);
+
+  const [year, month, day] = date.split("-").map(Number);
+  const jd = julianDate(year, month, day) - lng / (15 * 24);
+
+  // `t` is the rough fraction of the day, refining the sun position for each prayer
+  const midDay = (t: number) => fix(12 - sunPosition(jd + t).equation, 24);
+  const sunAngleTime = (angle: number, t: number, beforeNoon = false) => {
+    const { declination } = sunPosition(jd + t);
+    const cosH = (-Math.sin(dtr(angle)) - Math.sin(dtr(declination)) * Math.sin(dtr(lat))) /
+      (Math.cos(dtr(declination)) * Math.cos(dtr(lat)));
+    if (cosH < -1 || cosH > 1) throw new Error(`Sun does not reach ${angle}° on ${date} at this latitude`);
+    const hours = rtd(Math.acos(cosH)) / 15;
+    return midDay(t) + (beforeNoon ? -hours : hours);
+  };
+  const asrTime = (factor: number, t: number) => {
+    const { declination } = sunPosition(jd + t);
+    const angle = -rtd(Math.atan(1 / (factor + Math.tan(dtr(Math.abs(lat - declination))))));
+    return sunAngleTime(angle, t);
+  };
+
+  const local = {
+    fajr: sunAngleTime(params.fajrAngle, 5 / 24, true),
+    sunrise: sunAngleTime(0.833, 6 / 24, true),
+    dhuhr: midDay(12 / 24),
+    asr: asrTime(asr === "hanafi" ? 2 : 1, 13 / 24),
+    maghrib: sunAngleTime(0.833, 18 / 24),
+    isha: 0,
+  };
+  local.isha = "angle" in params.isha
+    ? sunAngleTime(params.isha.angle, 18 / 24)
+    : local.maghrib + params.isha.minutes / 60;
+
+  // Times above are local solar hours; shifting by longitude gives UTC hours
+  const midnightUtc = Date.UTC(year, month - 1, day);
+  const toDate = (hours: number) => new Date(midnightUtc + Math.round((hours - lng / 15) * 3600) * 1000);
+  return {
+    fajr: toDate(local.fajr),
+    sunrise: toDate(local.sunrise),
+    dhuhr: toDate(local.dhuhr),
+    asr: toDate(local.asr),
+    maghrib: toDate(local.maghrib),
+    isha: toDate(local.isha),
+  };
+}
+
+/** Whether `rule` can happen on `date` at all (Jummah is Friday only). */
+export function prayerRuleApplies(rule: PrayerRule, date: string) {
+  return rule.prayer !== "jummah" || weekday(date) === 5;
+}
+
+/** Resolves a rule such as "30 minutes after Maghrib" to a concrete instant on `date`. */
+export function resolvePrayerRule(rule: PrayerRule, date: string, lat: number, lng: number) {
+  const times = computePrayerTimes(date, lat, lng, rule.method, rule.asr);
+  const base = rule.prayer === "jummah" ? times.dhuhr : times[rule.prayer];
+  return new Date(base.getTime() + rule.offset_minutes * 60 * 1000);
+}
+
+// Without strictNullChecks zod infers every key as optional, so the output is spelled out as a PrayerRule
+export const prayerRuleSchema: z.ZodType<PrayerRule, z.ZodTypeDef, unknown> = z.object({
+  prayer: z.enum(PRAYERS as [Prayer, ...Prayer[]]),
+  offset_minutes: z.number().int().min(-MAX_OFFSET_MINUTES).max(MAX_OFFSET_MINUTES).default(0),
+  method: z.enum(Object.keys(CALCULATION_METHODS) as [string, ...string[]]).default(DEFAULT_METHOD),
+  asr: z.enum(["standard", "hanafi"]).default(DEFAULT_ASR),
+}).transform((rule): PrayerRule => ({
+  prayer: rule.prayer,
+  offset_minutes: rule.offset_minutes,
+  method: rule.method,
+  asr: rule.asr,
+}));
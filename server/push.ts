@@ -0,0 +1,94 @@
+import webpush from "web-push";
+
+export interface PushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** Opened when the notification is tapped */
+  url: string;
+  /** A newer notification with the same tag replaces the older one */
+  tag?: string;
+}
+
+export interface PushTransport {
+  /** Resolves false when the subscription is gone (unsubscribed or expired) and should be forgotten. */
+  send(subscription: PushSubscription, message: PushMessage): Promise<boolean>;
+}
+
+// Default transport: prints the notification so watch zones can be tried locally without VAPID keys
+export class ConsolePushTransport implements PushTransport {
+  async send(subscription: PushSubscription, message: PushMessage) {
+    console.log(`[push] To: ${subscription.endpoint}\n[push] ${message.title}: ${message.body} (${message.url})`);
+    return true;
+  }
+}
+
+// Posts the subscription and notification as JSON to PUSH_WEBHOOK_URL, e.g. a local stand-in that records them
+export class WebhookPushTransport implements PushTransport {
+  constructor(private url: string) {}
+
+  async send(subscription: PushSubscription, message: PushMessage) {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ subscription, message }),
+    });
+    if (res.status === 404 || res.status === 410) return false;
+    if (!res.ok) {
+      throw new Error(`Push webhook responded with ${res.status}`);
+    }
+    return true;
+  }
+}
+
+// Sends through the browser vendors' push services, signed with the server's VAPID key pair
+export class WebPushTransport implements PushTransport {
+  constructor(private vapid: { subject: string; publicKey: string; privateKey: string }) {}
+
+  async send(subscription: PushSubscription, message: PushMessage) {
+    try {
+      await webpush.sendNotification(subscription, JSON.stringify(message), {
+        vapidDetails: this.vapid,
+        // Spots are short-lived; a notification that cannot be delivered within hours is not worth sending
+        TTL: 6 * 60 * 60,
+      });
+      return true;
+    } catch (err) {
+      if (err instanceof webpush.WebPushError && (err.statusCode === 404 || err.statusCode === 410)) return false;
+      throw err;
+    }
+  }
+}
+
+/** The key browsers subscribe with; null when push is not set up (the console transport needs none). */
+export function vapidPublicKey() {
+  return process.env.VAPID_PUBLIC_KEY || null;
+}
+
+let transport: PushTransport | null = null;
+
+export function getPushTransport(): PushTransport {
+  if (transport) return transport;
+  const { PUSH_WEBHOOK_URL, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+  if (PUSH_WEBHOOK_URL) {
+    transport = new WebhookPushTransport(PUSH_WEBHOOK_URL);
+  } else if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+    transport = new WebPushTransport({
+      subject: VAPID_SUBJECT || "mailto:admin@example.com",
+      publicKey: VAPID_PUBLIC_KEY,
+      privateKey: VAPID_PRIVATE_KEY,
+    });
+  } else {
+    transport = new ConsolePushTransport();
+  }
+  return transport;
+}
+
+// Lets tests or alternative deployments plug in their own transport
+export function setPushTransport(next: PushTransport) {
+  transport = next;
+}
@@ -0,0 +1,124 @@
+import type { NextFunction, Request, Response } from "express";
+import { sendError } from "./errors";
+
+export interface RateLimit {
+  /** Requests allowed per window for one session or device */
+  limit: number;
+  windowMs: number;
+}
+
+// Overridable per route with RATE_LIMITS="posts=5/600,votes=30/60" (requests/seconds)
+const DEFAULT_LIMITS = {
+  posts: { limit: 5, windowMs: 10 * 60 * 1000 },
+  schedules: { limit: 5, windowMs: 60 * 60 * 1000 },
+  votes: { limit: 30, windowMs: 60 * 1000 },
+  reports: { limit: 10, windowMs: 10 * 60 * 1000 },
+  updates: { limit: 20, windowMs: 10 * 60 * 1000 },
+  photos: { limit: 20, windowMs: 60 * 60 * 1000 },
+  magic_link: { limit: 5, windowMs: 15 * 60 * 1000 },
+  /** New anonymous device identities, so clearing cookies does not reset the other limits */
+  identities: { limit: 10, windowMs: 60 * 60 * 1000 },
+} satisfies Record<string, RateLimit>;
+
+export type RateLimitName = keyof typeof DEFAULT_LIMITS;
+
+// Mobile carriers put many users behind one address, so an IP gets this many times the limit
+const IP_LIMIT_FACTOR = Number(process.env.RATE_LIMIT_IP_FACTOR) || 10;
+
+function parseLimits(value: string | undefined): Record<RateLimitName, RateLimit> {
+  const limits: Record<string, RateLimit> = { ...DEFAULT_LIMITS };
+  for (const entry of (value || "").split(",")) {
+    const match = entry.trim().match(/^(\w+)=(\d+)\/(\d+)$/);
+    if (!match) continue;
+    if (!(match[1] in DEFAULT_LIMITS)) {
+      console.warn(`Ignoring rate limit for unknown route "${match[1]}"`);
+      continue;
+    }
+    limits[match[1]] = { limit: Number(match[2]), windowMs: Number(match[3]) * 1000 };
+  }
+  return limits;
+}
+
+const limits = parseLimits(process.env.RATE_LIMITS);
+
+export interface RateLimitStore {
+  /**
+   * Records a hit for `key` unless it already has `limit` hits inside the
+   * window ending at `now`. Returns 0 when recorded, otherwise the
+   * milliseconds until the oldest hit leaves the window.
+   */
+  hit(key: string, limit: number, windowMs: number, now: number): number;
+}
+
+/**
+ * Sliding-window log kept in process memory. Each server instance counts on
+ * its own, so limits are per instance when the app is scaled out.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+  private lastSweep = 0;
+
+  hit(key: string, limit: number, windowMs: number, now: number) {
+    this.sweep(now);
+    const recent = (this.hits.get(key) ?? []).filter(t => t > now - windowMs);
+    if (recent.length >= limit) {
+      this.hits.set(key, recent);
+      return recent[0] + windowMs - now;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  // Drops keys that have been quiet for a day so the map does not grow forever
+  private sweep(now: number) {
+    const day = 24 * 60 * 60 * 1000;
+    if (now - this.lastSweep < 60 * 60 * 1000) return;
+    this.lastSweep = now;
+    for (const [key, times] of this.hits) {
+      if (times[times.length - 1] <= now - day) this.hits.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+export interface RateLimitKeys {
+  user?: string;
+  device?: string;
+  ip?: string;
+}
+
+/**
+ * Counts one request against every identity it carries. Returns 0 when
+ * allowed, otherwise the milliseconds to wait before retrying.
+ */
+export function consumeRateLimit(name: RateLimitName, keys: RateLimitKeys, now = Date.now()) {
+  const { limit, windowMs } = limits[name];
+  let retryAfter = 0;
+  for (const [kind, value] of Object.entries(keys)) {
+    if (!value) continue;
+    const max = kind === "ip" ? limit * IP_LIMIT_FACTOR : limit;
+    retryAfter = Math.max(retryAfter, store.hit(`${name}:${kind}:${value}`, max, windowMs, now));
+  }
+  return retryAfter;
+}
+
+export function sendRateLimited(res: Response, retryAfterMs: number) {
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  res.set("Retry-After", String(seconds));
+  return sendError(res, 429, `Too many requests, try again in ${seconds} seconds`, "rate_limited");
+}
+
+/** Keys by session user, device cookie and client IP; mount after `requireUser` so the identity is known. */
+export function rateLimit(name: RateLimitName) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const retryAfter = consumeRateLimit(name, { user: req.user?.id, device: req.deviceId, ip: req.ip });
+    if (retryAfter) return sendRateLimited(res, retryAfter);
+    next();
+  };
+}
@@ -0,0 +1,189 @@
+import type { Express, Response } from "express";
+import type { Server } from "socket.io";
+import { getDb } from "./db";
+import { getStorage } from "./storage";
+import { expiryCutoff } from "../shared/lifecycle";
+import { LatLng, encodeGeohash, geohashCover, parseBbox } from "./geo";
+import { ApiError, asyncRoute, invalidField } from "./errors";
+
+/**
+ * Live updates go out over Socket.io where the server runs it (development)
+ * and over Server-Sent Events otherwise. Every event is written to
+ * `live_events` first, so its id lets a reconnecting stream replay what it
+ * missed.
+ *
+ * Both need the write and the open stream to meet in one long-running
+ * process: open streams are held in memory and the log is the instance's own
+ * database. On serverless platforms the instance handling a post or vote is
+ * rarely the one holding a stream, so live events are off there by default
+ * and clients keep their feed current with delta polling (see sync.ts).
+ *
+ * Events are scoped to where they happen: clients subscribe with their map
+ * viewport, which is turned into geohash cells, and only hear about posts
+ * inside those cells.
+ */
+export type LiveEventType = "post:created" | "post:voted" | "post:updated" | "post:hidden" | "post:expired";
+
+export interface LiveEvent {
+  id: number;
+  type: LiveEventType;
+  payload: unknown;
+  /** Of the post the event is about, GEOHASH_PRECISION characters long */
+  geohash: string;
+}
+
+// Events are located to cells of about 5 x 5 km; a subscription uses coarser cells for large viewports
+const GEOHASH_PRECISION = 5;
+const MAX_SUBSCRIBED_CELLS = 32;
+const ROOM_PREFIX = "geo:";
+// How often posts that passed their expiry cutoff are announced
+const EXPIRY_SWEEP_MS = 60 * 1000;
+
+// Replay reaches back this far; older Last-Event-IDs get a `reset` instead
+const RETENTION_MS = (Number(process.env.LIVE_EVENT_RETENTION_HOURS) || 24) * 60 * 60 * 1000;
+// Clients that missed more than this reload their feed rather than replaying
+const MAX_REPLAY = 500;
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+// Serverless platforms cut long requests; ending the stream first lets the browser reconnect and replay
+const STREAM_MAX_MS = (Number(process.env.STREAM_MAX_SECONDS) || 300) * 1000;
+// Tells EventSource how long to wait before reconnecting
+const RETRY_MS = 3000;
+const LIVE_EVENTS = (process.env.LIVE_EVENTS || (process.env.VERCEL ? "off" : "on")) !== "off";
+
+let io: Server | null = null;
+/** Open streams and their cells; null cells receive every event */
+const streams = new Map<Response, string[] | null>();
+let lastPrune = 0;
+
+function matches(geohash: string, cells: string[] | null) {
+  return !cells || cells.some(cell => geohash.startsWith(cell));
+}
+
+export function setSocketServer(server: Server | null) {
+  io = server;
+  // Sockets hear nothing until they subscribe; each subscription replaces the last
+  io?.on("connection", socket => {
+    socket.on("subscribe", (bbox: unknown) => {
+      const box = parseBbox(bbox);
+      if (!box) return;
+      for (const room of socket.rooms) {
+        if (room.startsWith(ROOM_PREFIX)) socket.leave(room);
+      }
+      socket.join(geohashCover(box, GEOHASH_PRECISION, MAX_SUBSCRIBED_CELLS).map(cell => ROOM_PREFIX + cell));
+    });
+  });
+}
+
+function writeEvent(res: Response, event: { id: number; type: string; payload: unknown }) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.payload)}\n\n`);
+}
+
+function prune(database: any, now: number) {
+  if (now - lastPrune < 60 * 60 * 1000) return;
+  lastPrune = now;
+  database.prepare("DELETE FROM live_events WHERE created_at < ?").run(new Date(now - RETENTION_MS).toISOString());
+}
+
+/** Logs the event, then sends it to the sockets and streams subscribed to `at`. */
+export async function publish(type: LiveEventType, payload: unknown, at: LatLng): Promise<LiveEvent> {
+  const database = await getDb();
+  const now = Date.now();
+  const geohash = encodeGeohash(at, GEOHASH_PRECISION);
+  const { lastInsertRowid } = database.prepare(`
+    INSERT INTO live_events (type, payload, geohash, created_at) VALUES (?, ?, ?, ?)
+  `).run(type, JSON.stringify(payload), geohash, new Date(now).toISOString());
+  const event: LiveEvent = { id: Number(lastInsertRowid), type, payload, geohash };
+  prune(database, now);
+
+  // Subscribers may hold any prefix of the cell. Socket.io sends once per socket across the rooms,
+  // and the id rides along as a second argument so clients can drop events they already have.
+  const rooms = [...geohash].map((_, i) => ROOM_PREFIX + geohash.slice(0, i + 1));
+  io?.to(rooms).emit(type, payload, event.id);
+  for (const [res, cells] of streams) {
+    if (matches(geohash, cells)) writeEvent(res, event);
+  }
+  return event;
+}
+
+let lastCutoff: string | null = null;
+
+// Announces posts that moved to the archive since the last sweep, so maps can drop them
+async function sweepExpired() {
+  const cutoff = expiryCutoff();
+  if (lastCutoff) {
+    const storage = await getStorage();
+    for (const post of await storage.posts.expiredBetween(lastCutoff, cutoff)) {
+      await publish("post:expired", { post_id: post.id }, post);
+    }
+  }
+  lastCutoff = cutoff;
+}
+
+function parseEventId(value: unknown) {
+  const id = typeof value === "string" && /^\d+$/.test(value) ? Number(value) : null;
+  return id !== null && Number.isSafeInteger(id) ? id : null;
+}
+
+export function registerRealtimeRoutes(app: Express) {
+  sweepExpired().catch(err => console.error('Expiry sweep failed:', err));
+  setInterval(() => sweepExpired().catch(err => console.error('Expiry sweep failed:', err)), EXPIRY_SWEEP_MS).unref();
+
+  // EventSource sends Last-Event-ID itself when it reconnects; `last_event_id` covers a fresh page.
+  // `bbox` (minLng,minLat,maxLng,maxLat) limits the stream to that area; without it every event is sent.
+  app.get("/api/stream", asyncRoute(async (req, res) => {
+    // Clients treat the failed stream as being offline and poll for deltas instead
+    if (!LIVE_EVENTS) throw new ApiError(503, "unavailable", 'Live events are off on this server');
+    const lastId = parseEventId(req.get("Last-Event-ID") ?? req.query.last_event_id);
+    let cells: string[] | null = null;
+    if (req.query.bbox !== undefined) {
+      const box = parseBbox(req.query.bbox);
+      if (!box) throw invalidField("bbox", "invalid_format", { expected: "minLng,minLat,maxLng,maxLat" });
+      cells = geohashCover(box, GEOHASH_PRECISION, MAX_SUBSCRIBED_CELLS);
+    }
+    const database = await getDb();
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stops nginx-style proxies from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    // From here to joining `streams` is synchronous, so no event can slip in between
+    const latest = database.prepare("SELECT MAX(id) as id FROM live_events").get().id ?? 0;
+    if (lastId === null) {
+      // Gives the browser an id to resume from even if nothing happens before it disconnects
+      writeEvent(res, { id: latest, type: "ready", payload: {} });
+    } else if (lastId > latest) {
+      // The log was lost, e.g. a fresh serverless instance: ids start over, so the client starts over too
+      writeEvent(res, { id: latest, type: "reset", payload: {} });
+    } else if (lastId < latest) {
+      const oldest = database.prepare("SELECT MIN(id) as id FROM live_events").get().id ?? latest;
+      const missed = database.prepare("SELECT id, type, payload, geohash FROM live_events WHERE id > ? ORDER BY id LIMIT ?")
+        .all(lastId, MAX_REPLAY + 1);
+      if (lastId < oldest - 1 || missed.length > MAX_REPLAY) {
+        writeEvent(res, { id: latest, type: "reset", payload: {} });
+      } else {
+        for (const row of missed) {
+          if (matches(row.geohash, cells)) writeEvent(res, { id: row.id, type: row.type, payload: JSON.parse(row.payload) });
+        }
+        // Moves the browser's Last-Event-ID past events from other areas too
+        if (missed.length && !matches(missed[missed.length - 1].geohash, cells)) {
+          writeEvent(res, { id: latest, type: "ready", payload: {} });
+        }
+      }
+    }
+    streams.set(res, cells);
+
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+    const deadline = setTimeout(() => res.end(), STREAM_MAX_MS);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      clearTimeout(deadline);
+      streams.delete(res);
+    });
+  }));
+}
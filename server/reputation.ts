@@ -0,0 +1,136 @@
+import type { Express } from "express";
+import { getDb } from "./db";
+import { Storage, getStorage } from "./storage";
+import { finalOutcome, wilsonLowerBound } from "./trust";
+import { asyncRoute, notFound } from "./errors";
+
+/**
+ * A contributor's track record: whether the community confirmed their posts
+ * and whether their votes agreed with how other voters judged the same posts.
+ */
+export type ReputationLevel = "new" | "member" | "trusted" | "flagged";
+
+export interface Reputation {
+  /** 0-1; lower bound of the share of good outcomes, like the trust score */
+  reputation_score: number;
+  reputation_level: ReputationLevel;
+  confirmed_posts: number;
+  /** Posts voted fake or hidden by moderation */
+  disputed_posts: number;
+  agreed_votes: number;
+  disagreed_votes: number;
+}
+
+// A post's outcome says more about its author than one vote does about a voter
+const POST_WEIGHT = 2;
+// Less evidence than this and the user is still "new"
+const MIN_EVIDENCE = 3;
+// Three confirmed posts and one agreeing vote, with nothing against, reach "trusted"
+const TRUSTED_SCORE = 0.7;
+const FLAGGED_SCORE = 0.5;
+// Posts by trusted authors start as if this many people had already confirmed them
+const TRUSTED_BASELINE_VOTES = 2;
+
+export function baselineVotes(level: string | null | undefined) {
+  return level === "trusted" ? TRUSTED_BASELINE_VOTES : 0;
+}
+
+export async function computeReputation(storage: Storage, userId: string): Promise<Reputation> {
+  let confirmed = 0;
+  let disputed = 0;
+  for (const post of await storage.posts.byUser(userId, { includeHidden: true })) {
+    const outcome = post.hidden_at ? "disputed" : finalOutcome(post.true_votes, post.false_votes);
+    if (outcome === "confirmed") confirmed++;
+    if (outcome === "disputed") disputed++;
+  }
+
+  let agreed = 0;
+  let disagreed = 0;
+  for (const vote of await storage.votes.byUser(userId)) {
+    if (vote.author_id === userId) continue;
+    // Judged by everyone else's votes, so a voter cannot agree with themselves
+    const outcome = finalOutcome(vote.true_votes - vote.vote_type, vote.false_votes - (1 - vote.vote_type));
+    if (outcome === "undecided") continue;
+    if ((outcome === "confirmed") === (vote.vote_type === 1)) agreed++;
+    else disagreed++;
+  }
+
+  const good = confirmed * POST_WEIGHT + agreed;
+  const total = (confirmed + disputed) * POST_WEIGHT + agreed + disagreed;
+  const score = wilsonLowerBound(good, total);
+  let level: ReputationLevel = "member";
+  if (total > 0 && wilsonLowerBound(total - good, total) >= FLAGGED_SCORE) level = "flagged";
+  else if (total < MIN_EVIDENCE) level = "new";
+  else if (score >= TRUSTED_SCORE) level = "trusted";
+
+  return {
+    reputation_score: Math.round(score * 1000) / 1000,
+    reputation_level: level,
+    confirmed_posts: confirmed,
+    disputed_posts: disputed,
+    agreed_votes: agreed,
+    disagreed_votes: disagreed,
+  };
+}
+
+/**
+ * Recomputes and caches a user's reputation. Called whenever an outcome it
+ * counts may have changed: a vote on one of their posts or on a post they
+ * voted on, and a moderator hiding or restoring one of their posts.
+ */
+export async function refreshReputation(database: any, storage: Storage, userId: string) {
+  const reputation = await computeReputation(storage, userId);
+  const previous = database.prepare("SELECT reputation_level FROM users WHERE id = ?").get(userId);
+  // The level sets the trust baseline of the user's posts, which no vote on them records
+  if (previous && baselineVotes(previous.reputation_level) !== baselineVotes(reputation.reputation_level)) {
+    await storage.posts.touch(await storage.posts.visibleIdsByUser(userId));
+  }
+  database.prepare(`
+    UPDATE users SET reputation_score = ?, reputation_level = ?, confirmed_posts = ?, disputed_posts = ?,
+                     agreed_votes = ?, disagreed_votes = ?, reputation_updated_at = ?
+    WHERE id = ?
+  `).run(
+    reputation.reputation_score,
+    reputation.reputation_level,
+    reputation.confirmed_posts,
+    reputation.disputed_posts,
+    reputation.agreed_votes,
+    reputation.disagreed_votes,
+    new Date().toISOString(),
+    userId
+  );
+  return reputation;
+}
+
+/** A vote moves the post's outcome, and with it the author's standing and every voter's agreement. */
+export async function refreshPostReputations(database: any, storage: Storage, postId: string) {
+  const post = await storage.posts.get(postId);
+  const userIds = new Set(await storage.votes.voters(postId));
+  if (post?.user_id) userIds.add(post.user_id);
+  for (const userId of userIds) await refreshReputation(database, storage, userId);
+}
+
+const PROFILE_POST_LIMIT = 50;
+
+export function registerReputationRoutes(app: Express) {
+  // Public profile: no email, and only posts that are still visible
+  app.get("/api/users/:id", asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const user = database.prepare(`
+      SELECT id, name, is_anonymous, created_at, reputation_score, reputation_level,
+             confirmed_posts, disputed_posts, agreed_votes, disagreed_votes
+      FROM users WHERE id = ?
+    `).get(req.params.id);
+    if (!user) throw notFound("User");
+
+    const posts = await (await getStorage()).posts.byUser(user.id, { limit: PROFILE_POST_LIMIT });
+    res.json({
+      ...user,
+      is_anonymous: !!user.is_anonymous,
+      // Never refreshed: nothing the user posted or voted on has an outcome yet
+      reputation_score: user.reputation_score ?? 0,
+      reputation_level: user.reputation_level ?? "new",
+      posts,
+    });
+  }));
+}
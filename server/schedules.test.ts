@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { Schedule, expandOccurrences } from "./schedules";
+
+// 19:00 in Dhaka (UTC+6, no daylight saving) for an hour, every day from Sunday 1 March 2026
+const daily = {
+  id: "sch_test",
+  user_id: "u_test",
+  place_name: "Baitul Mukarram",
+  food_type: "biriyani",
+  description: null,
+  lat: 23.7291,
+  lng: 90.4126,
+  frequency: "daily",
+  weekdays: [],
+  start_time: "19:00",
+  prayer_rule: null,
+  duration_minutes: 60,
+  timezone: "Asia/Dhaka",
+  starts_on: "2026-03-01",
+  until: null,
+} as Schedule;
+
+const noExceptions = new Map<string, string | null>();
+
+function startsBetween(schedule: Schedule, from: string, to: string, exceptions = noExceptions) {
+  return expandOccurrences(schedule, exceptions, new Date(from), new Date(to)).map(o => o.distribution_time);
+}
+
+describe("expandOccurrences", () => {
+  it("places each occurrence at the local start time", () => {
+    expect(expandOccurrences(daily, noExceptions, new Date("2026-03-01T00:00:00Z"), new Date("2026-03-03T00:00:00Z"))).toEqual([
+      { date: "2026-03-01", distribution_time: "2026-03-01T13:00:00.000Z", ends_at: "2026-03-01T14:00:00.000Z" },
+      { date: "2026-03-02", distribution_time: "2026-03-02T13:00:00.000Z", ends_at: "2026-03-02T14:00:00.000Z" },
+    ]);
+  });
+
+  it("includes an occurrence that started before the window and is still running", () => {
+    expect(startsBetween(daily, "2026-03-01T13:30:00Z", "2026-03-01T14:00:00Z")).toEqual(["2026-03-01T13:00:00.000Z"]);
+    expect(startsBetween(daily, "2026-03-01T14:00:00Z", "2026-03-02T00:00:00Z")).toEqual([]);
+  });
+
+  it("keeps weekly schedules to their weekdays", () => {
+    const fridays = { ...daily, frequency: "weekly", weekdays: [5] } as Schedule;
+    expect(startsBetween(fridays, "2026-03-01T00:00:00Z", "2026-03-15T00:00:00Z")).toEqual([
+      "2026-03-06T13:00:00.000Z",
+      "2026-03-13T13:00:00.000Z",
+    ]);
+  });
+
+  it("stays within starts_on and until", () => {
+    const bounded = { ...daily, starts_on: "2026-03-02", until: "2026-03-03" } as Schedule;
+    expect(startsBetween(bounded, "2026-03-01T00:00:00Z", "2026-03-06T00:00:00Z")).toEqual([
+      "2026-03-02T13:00:00.000Z",
+      "2026-03-03T13:00:00.000Z",
+    ]);
+  });
+
+  it("skips or moves the dates with an exception", () => {
+    const exceptions = new Map<string, string | null>([["2026-03-01", null], ["2026-03-02", "20:30"]]);
+    expect(startsBetween(daily, "2026-03-01T00:00:00Z", "2026-03-04T00:00:00Z", exceptions)).toEqual([
+      "2026-03-02T14:30:00.000Z",
+      "2026-03-03T13:00:00.000Z",
+    ]);
+  });
+});
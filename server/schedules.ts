@@ -0,0 +1,376 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { randomBytes } from "crypto";
+import { getDb } from "./db";
+import { requireUser } from "./auth";
+import { NewPost, PostChanges, PostRecord, getStorage } from "./storage";
+import { isFoodType, listFoodTypes } from "./food-types";
+import { MAX_DURATION_MINUTES, expiryCutoff } from "../shared/lifecycle";
+import { PrayerRule, prayerRuleApplies, prayerRuleSchema, resolvePrayerRule } from "./prayer-times";
+import { DEFAULT_TIMEZONE, addDays, isValidTimezone, localDate, weekday, zonedTimeToUtc } from "./time";
+import { ApiError, asyncRoute, invalidField, notFound } from "./errors";
+import { latitude, localDateString, longitude, optionalText, requiredText, validate } from "./validation";
+import { rateLimit } from "./rate-limit";
+import { idempotent } from "./idempotency";
+
+export type Frequency = "daily" | "weekly";
+
+export interface Schedule {
+  id: string;
+  user_id: string;
+  place_name: string;
+  food_type: string;
+  description: string | null;
+  lat: number;
+  lng: number;
+  frequency: Frequency;
+  /** Days of week (0 = Sunday) for weekly schedules */
+  weekdays: number[];
+  /** Local wall-clock start, `HH:MM`; unused when `prayer_rule` is set */
+  start_time: string | null;
+  /** Start relative to a prayer, resolved separately for every date */
+  prayer_rule: PrayerRule | null;
+  duration_minutes: number;
+  timezone: string;
+  /** First and (optional) last local date the schedule applies to, `YYYY-MM-DD` */
+  starts_on: string;
+  until: string | null;
+}
+
+export interface Occurrence {
+  date: string;
+  distribution_time: string;
+  ends_at: string;
+}
+
+// How far ahead occurrences are expanded into the posts feed
+const LOOKAHEAD_MS = 48 * 60 * 60 * 1000;
+// Feed requests re-expand schedules at most this often
+const MATERIALIZE_INTERVAL_MS = 60 * 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const localTimeString = z.string().refine(v => TIME_PATTERN.test(v), { params: { code: "invalid_format", expected: "HH:MM" } });
+
+let lastMaterializedAt = 0;
+
+function toSchedule(row: any): Schedule {
+  return {
+    ...row,
+    weekdays: row.weekdays ? JSON.parse(row.weekdays) : [],
+    prayer_rule: row.prayer_rule ? JSON.parse(row.prayer_rule) : null,
+  };
+}
+
+/** Occurrence post ids are stable so re-expanding never duplicates a spot. */
+export function occurrenceId(scheduleId: string, date: string) {
+  return `${scheduleId}_${date.replace(/-/g, "")}`;
+}
+
+/** The local date an occurrence id was made for; null when `id` is not one of the schedule's. */
+function occurrenceDate(scheduleId: string, id: string) {
+  const match = id.startsWith(`${scheduleId}_`) && /^(\d{4})(\d{2})(\d{2})$/.exec(id.slice(scheduleId.length + 1));
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Marks a deleted occurrence's date as skipped; otherwise the next
+ * materialization would create it again under the same id.
+ */
+export function skipDeletedOccurrence(database: any, post: Pick<PostRecord, "id" | "schedule_id">) {
+  const date = post.schedule_id && occurrenceDate(post.schedule_id, post.id);
+  if (!date) return;
+  // Nothing to record once the schedule itself is gone
+  database.prepare(`
+    INSERT INTO schedule_exceptions (schedule_id, date, start_time)
+    SELECT id, ?, NULL FROM schedules WHERE id = ?
+    ON CONFLICT(schedule_id, date) DO UPDATE SET start_time = NULL
+  `).run(date, post.schedule_id);
+}
+
+/**
+ * Lists the occurrences of `schedule` that overlap [from, to). `exceptions`
+ * maps a local date to a replacement start time, or to null when skipped.
+ */
+export function expandOccurrences(
+  schedule: Schedule,
+  exceptions: Map<string, string | null>,
+  from: Date,
+  to: Date
+): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  const durationMs = schedule.duration_minutes * 60 * 1000;
+  // Start a day early so an occurrence that began yesterday and is still running is included
+  let date = localDate(new Date(from.getTime() - durationMs), schedule.timezone);
+  const lastDate = addDays(localDate(to, schedule.timezone), 1);
+
+  for (; date <= lastDate; date = addDays(date, 1)) {
+    if (date < schedule.starts_on || (schedule.until && date > schedule.until)) continue;
+    if (schedule.frequency === "weekly" && !schedule.weekdays.includes(weekday(date))) continue;
+
+    let start: Date;
+    if (exceptions.has(date)) {
+      const override = exceptions.get(date);
+      if (!override) continue;
+      start = zonedTimeToUtc(date, override, schedule.timezone);
+    } else if (schedule.prayer_rule) {
+      if (!prayerRuleApplies(schedule.prayer_rule, date)) continue;
+      start = resolvePrayerRule(schedule.prayer_rule, date, schedule.lat, schedule.lng);
+    } else {
+      start = zonedTimeToUtc(date, schedule.start_time!, schedule.timezone);
+    }
+
+    const end = new Date(start.getTime() + durationMs);
+    if (end > from && start < to) {
+      occurrences.push({ date, distribution_time: start.toISOString(), ends_at: end.toISOString() });
+    }
+  }
+  return occurrences;
+}
+
+function loadExceptions(database: any, scheduleId: string) {
+  const rows = database.prepare("SELECT date, start_time FROM schedule_exceptions WHERE schedule_id = ?").all(scheduleId);
+  return new Map<string, string | null>(rows.map((r: any) => [r.date, r.start_time]));
+}
+
+// The occurrences a feed at `now` can show: from those still listed to the lookahead
+function currentOccurrences(database: any, schedule: Schedule, now: number) {
+  return expandOccurrences(
+    schedule,
+    loadExceptions(database, schedule.id),
+    new Date(expiryCutoff(now)),
+    new Date(now + LOOKAHEAD_MS)
+  );
+}
+
+function occurrencePost(schedule: Schedule, occurrence: Occurrence): NewPost {
+  return {
+    id: occurrenceId(schedule.id, occurrence.date),
+    user_id: schedule.user_id,
+    place_name: schedule.place_name,
+    food_type: schedule.food_type,
+    description: schedule.description,
+    lat: schedule.lat,
+    lng: schedule.lng,
+    distribution_time: occurrence.distribution_time,
+    ends_at: occurrence.ends_at,
+    schedule_id: schedule.id,
+    prayer_rule: schedule.prayer_rule,
+  };
+}
+
+async function materializeSchedule(database: any, schedule: Schedule, now: number) {
+  const occurrences = currentOccurrences(database, schedule, now);
+  await (await getStorage()).posts.createMissing(occurrences.map(o => occurrencePost(schedule, o)));
+}
+
+/**
+ * Expands upcoming schedule occurrences into real `posts` rows, so votes,
+ * reports, moderation and lifecycle treat them like any other spot.
+ */
+export async function materializeSchedules(database: any, now = Date.now(), force = false) {
+  if (!force && now - lastMaterializedAt < MATERIALIZE_INTERVAL_MS) return;
+  lastMaterializedAt = now;
+  for (const row of database.prepare("SELECT * FROM schedules").all()) {
+    await materializeSchedule(database, toSchedule(row), now);
+  }
+}
+
+// Fields of an occurrence post that follow the schedule
+const OCCURRENCE_FIELDS = [
+  "place_name", "food_type", "description", "lat", "lng", "distribution_time", "ends_at", "prayer_rule",
+] as const;
+
+/**
+ * Brings the occurrences that have not started yet in line with an edited
+ * rule or exception. Only dates the schedule no longer has are deleted; moved
+ * or edited ones are updated in place and the rest are left alone, so their
+ * votes, photos, updates and reports stay. Past occurrences are history.
+ */
+async function syncFutureOccurrences(database: any, schedule: Schedule, now: number) {
+  const { posts } = await getStorage();
+  const expected = new Map(currentOccurrences(database, schedule, now).map(o => [occurrenceId(schedule.id, o.date), o]));
+  for (const post of await posts.scheduledAfter(schedule.id, new Date(now).toISOString())) {
+    const occurrence = expected.get(post.id);
+    if (!occurrence) {
+      await posts.delete(post.id);
+      continue;
+    }
+    const wanted = occurrencePost(schedule, occurrence);
+    const changes: PostChanges = {};
+    for (const field of OCCURRENCE_FIELDS) {
+      if (JSON.stringify(post[field]) !== JSON.stringify(wanted[field])) Object.assign(changes, { [field]: wanted[field] });
+    }
+    if (Object.keys(changes).length) await posts.update(post.id, changes);
+  }
+  await materializeSchedule(database, schedule, now);
+}
+
+const scheduleSchema = z.object({
+  place_name: requiredText(120),
+  food_type: z.string(),
+  description: optionalText(500),
+  lat: latitude,
+  lng: longitude,
+  frequency: z.enum(["daily", "weekly"]),
+  weekdays: z.array(z.number().int().min(0).max(6)).nullish(),
+  start_time: localTimeString.nullish(),
+  prayer_rule: prayerRuleSchema.nullish(),
+  duration_minutes: z.number().int().min(1).max(MAX_DURATION_MINUTES).default(180),
+  timezone: z.string().default(DEFAULT_TIMEZONE).refine(isValidTimezone, { params: { code: "invalid_choice" } }),
+  starts_on: localDateString.nullish(),
+  until: localDateString.nullish(),
+});
+
+// Skips the date when start_time is null or missing
+const exceptionSchema = z.object({
+  start_time: localTimeString.nullish().transform(v => v ?? null),
+});
+
+const exceptionDateSchema = z.object({
+  date: localDateString,
+});
+
+/** Validates a new schedule, or an edit merged over `existing`; throws a 400 naming the bad field. */
+function parseScheduleInput(database: any, body: any, existing?: Schedule): Omit<Schedule, "id" | "user_id"> {
+  const input = validate(scheduleSchema, { ...existing, ...body });
+  const prayer_rule = (input.prayer_rule ?? null) as PrayerRule | null;
+  const weekdays = input.frequency === "weekly" ? input.weekdays ?? [] : [];
+
+  if (!isFoodType(database, input.food_type)) {
+    throw invalidField("food_type", "invalid_choice", { choices: listFoodTypes(database).map(f => f.id) });
+  }
+  if (input.frequency === "weekly" && !weekdays.length) throw invalidField("weekdays", "required");
+  if (!prayer_rule && !input.start_time) throw invalidField("start_time", "required");
+
+  const starts_on = input.starts_on ?? localDate(new Date(), input.timezone);
+  if (input.until && input.until < starts_on) throw invalidField("until", "before_start");
+
+  return {
+    place_name: input.place_name,
+    food_type: input.food_type,
+    description: input.description,
+    lat: input.lat,
+    lng: input.lng,
+    frequency: input.frequency,
+    weekdays: [...new Set<number>(weekdays)].sort((a, b) => a - b),
+    start_time: prayer_rule ? null : input.start_time,
+    prayer_rule,
+    duration_minutes: input.duration_minutes,
+    timezone: input.timezone,
+    starts_on,
+    until: input.until ?? null,
+  };
+}
+
+function withNextOccurrences(database: any, schedule: Schedule, now = Date.now()) {
+  const next = expandOccurrences(
+    schedule,
+    loadExceptions(database, schedule.id),
+    new Date(now),
+    new Date(now + 14 * 24 * 60 * 60 * 1000)
+  ).slice(0, 5);
+  return { ...schedule, next_occurrences: next };
+}
+
+export function registerScheduleRoutes(app: Express) {
+  const loadOwned = async (req: any) => {
+    const database = await getDb();
+    const row = database.prepare("SELECT * FROM schedules WHERE id = ?").get(req.params.id);
+    if (!row) throw notFound("Schedule");
+    if (row.user_id !== req.user.id && req.user.role !== "admin") {
+      throw new ApiError(403, "forbidden", 'Only the owner can change this schedule');
+    }
+    return { database, schedule: toSchedule(row) };
+  };
+
+  app.get("/api/schedules", asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const mine = req.query.mine === "1" && req.user;
+    const rows = mine
+      ? database.prepare("SELECT * FROM schedules WHERE user_id = ? ORDER BY created_at DESC").all(req.user!.id)
+      : database.prepare("SELECT * FROM schedules ORDER BY created_at DESC LIMIT 200").all();
+    res.json(rows.map((row: any) => withNextOccurrences(database, toSchedule(row))));
+  }));
+
+  app.get("/api/schedules/:id", asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const row = database.prepare("SELECT * FROM schedules WHERE id = ?").get(req.params.id);
+    if (!row) throw notFound("Schedule");
+    const exceptions = database.prepare("SELECT date, start_time FROM schedule_exceptions WHERE schedule_id = ? ORDER BY date")
+      .all(row.id);
+    res.json({ ...withNextOccurrences(database, toSchedule(row)), exceptions });
+  }));
+
+  app.post("/api/schedules", requireUser, idempotent, rateLimit("schedules"), asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const input = parseScheduleInput(database, req.body);
+
+    const schedule: Schedule = { id: 'sched_' + randomBytes(6).toString("hex"), user_id: req.user!.id, ...input };
+    database.prepare(`
+      INSERT INTO schedules (id, user_id, place_name, food_type, description, lat, lng, frequency, weekdays,
+                             start_time, prayer_rule, duration_minutes, timezone, starts_on, until, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      schedule.id, schedule.user_id, schedule.place_name, schedule.food_type, schedule.description, schedule.lat, schedule.lng,
+      schedule.frequency, JSON.stringify(schedule.weekdays), schedule.start_time,
+      schedule.prayer_rule ? JSON.stringify(schedule.prayer_rule) : null, schedule.duration_minutes,
+      schedule.timezone, schedule.starts_on, schedule.until, new Date().toISOString()
+    );
+    await materializeSchedule(database, schedule, Date.now());
+    res.status(201).json(withNextOccurrences(database, schedule));
+  }));
+
+  app.patch("/api/schedules/:id", requireUser, asyncRoute(async (req, res) => {
+    const { database, schedule: existing } = await loadOwned(req);
+
+    const input = parseScheduleInput(database, req.body, existing);
+
+    const schedule: Schedule = { ...existing, ...input };
+    database.prepare(`
+      UPDATE schedules SET place_name = ?, food_type = ?, description = ?, lat = ?, lng = ?, frequency = ?, weekdays = ?,
+        start_time = ?, prayer_rule = ?, duration_minutes = ?, timezone = ?, starts_on = ?, until = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      schedule.place_name, schedule.food_type, schedule.description, schedule.lat, schedule.lng, schedule.frequency,
+      JSON.stringify(schedule.weekdays), schedule.start_time,
+      schedule.prayer_rule ? JSON.stringify(schedule.prayer_rule) : null, schedule.duration_minutes, schedule.timezone,
+      schedule.starts_on, schedule.until, new Date().toISOString(), schedule.id
+    );
+    await syncFutureOccurrences(database, schedule, Date.now());
+    res.json(withNextOccurrences(database, schedule));
+  }));
+
+  app.delete("/api/schedules/:id", requireUser, asyncRoute(async (req, res) => {
+    const { database, schedule } = await loadOwned(req);
+
+    // Occurrences that have not started yet go with the schedule; past ones are history
+    await (await getStorage()).posts.deleteScheduledAfter(schedule.id, new Date().toISOString());
+    database.prepare("DELETE FROM schedule_exceptions WHERE schedule_id = ?").run(schedule.id);
+    database.prepare("DELETE FROM schedules WHERE id = ?").run(schedule.id);
+    res.json({ success: true });
+  }));
+
+  // Skip a date (no start_time) or move that day's distribution to another time
+  app.put("/api/schedules/:id/exceptions/:date", requireUser, asyncRoute(async (req, res) => {
+    const { database, schedule } = await loadOwned(req);
+
+    const { date } = validate(exceptionDateSchema, req.params);
+    const { start_time } = validate(exceptionSchema, req.body);
+
+    database.prepare(`
+      INSERT INTO schedule_exceptions (schedule_id, date, start_time) VALUES (?, ?, ?)
+      ON CONFLICT(schedule_id, date) DO UPDATE SET start_time = excluded.start_time
+    `).run(schedule.id, date, start_time);
+    await syncFutureOccurrences(database, schedule, Date.now());
+    res.json(withNextOccurrences(database, schedule));
+  }));
+
+  app.delete("/api/schedules/:id/exceptions/:date", requireUser, asyncRoute(async (req, res) => {
+    const { database, schedule } = await loadOwned(req);
+
+    const { date } = validate(exceptionDateSchema, req.params);
+    database.prepare("DELETE FROM schedule_exceptions WHERE schedule_id = ? AND date = ?").run(schedule.id, date);
+    await syncFutureOccurrences(database, schedule, Date.now());
+    res.json(withNextOccurrences(database, schedule));
+  }));
+}
@@ -0,0 +1,40 @@
+import type { Storage } from "./storage";
+import { defaultEndsAt } from "../shared/lifecycle";
+
+const SAMPLE_AUTHOR = { id: "system", name: "এডমিন" };
+
+// Demo spots for a fresh install; ids are fixed so seeding twice changes nothing
+const SAMPLE_POSTS = [
+  {
+    id: "sample-1",
+    place_name: "ঢাকা বিশ্ববিদ্যালয় এলাকা",
+    food_type: "biriyani",
+    description: "এখানে নিয়মিত রাতে বিরিয়ানি বিতরণ করা হয়।",
+    lat: 23.733,
+    lng: 90.393,
+  },
+  {
+    id: "sample-2",
+    place_name: "মিরপুর ১০ গোলচত্বর",
+    food_type: "khicuri",
+    description: "শুক্রবার জুমার পর এখানে খিচুড়ি পাওয়া যায়।",
+    lat: 23.807,
+    lng: 90.368,
+  },
+];
+
+/** Adds the sample author and spots, starting now. Returns how many posts were added. */
+export async function seedSampleData(database: any, storage: Storage) {
+  database.prepare("INSERT OR IGNORE INTO users (id, name, is_anonymous, created_at) VALUES (?, ?, 0, CURRENT_TIMESTAMP)")
+    .run(SAMPLE_AUTHOR.id, SAMPLE_AUTHOR.name);
+
+  const distribution_time = new Date().toISOString();
+  return storage.posts.createMissing(SAMPLE_POSTS.map(post => ({
+    ...post,
+    user_id: SAMPLE_AUTHOR.id,
+    distribution_time,
+    ends_at: defaultEndsAt(distribution_time),
+    schedule_id: null,
+    prayer_rule: null,
+  })));
+}
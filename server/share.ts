@@ -0,0 +1,211 @@
+import type { Express } from "express";
+import sharp from "sharp";
+import { getDb } from "./db";
+import { appUrl } from "./auth";
+import { Post, getStorage } from "./storage";
+import { TrustLevel } from "./trust";
+import { listFoodTypes } from "./food-types";
+import { DEFAULT_TIMEZONE } from "./time";
+import { asyncRoute, notFound } from "./errors";
+
+/**
+ * Shareable spot pages. `/spot/:id` serves the app with Open Graph and
+ * Twitter tags describing the spot, so a link pasted into a chat unfurls into
+ * a card; the client opens the spot's details from the path. The card's image
+ * is a static map of the spot, rendered here from map tiles.
+ */
+
+/** Returns the app's index.html for `url`: the built file in production, Vite's transformed one in development. */
+export type IndexHtmlLoader = (url: string) => Promise<string>;
+
+// The size link previews are displayed at by most apps
+const PREVIEW_WIDTH = 1200;
+const PREVIEW_HEIGHT = 630;
+const TILE_SIZE = 256;
+const PREVIEW_ZOOM = 16;
+const DEFAULT_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_TIMEOUT_MS = 5000;
+// Shown where a tile could not be fetched
+const BACKGROUND = "#E7E5E4";
+// Rendered previews kept in memory; the oldest is dropped beyond this
+const MAX_CACHED_PREVIEWS = 200;
+const SITE_NAME = "BirianyDibeApp";
+
+// The marker colours the map uses
+const TRUST_COLORS: Record<TrustLevel, string> = {
+  unverified: "#F97316",
+  confirmed: "#10B981",
+  disputed: "#EF4444",
+};
+
+const TRUST_LABELS: Record<TrustLevel, string> = {
+  unverified: "এখনো যাচাই হয়নি",
+  confirmed: "কমিউনিটি নিশ্চিত করেছে",
+  disputed: "তথ্য নিয়ে সন্দেহ আছে",
+};
+
+const dateFormat = new Intl.DateTimeFormat("bn-BD", { timeZone: DEFAULT_TIMEZONE, day: "numeric", month: "long" });
+const timeFormat = new Intl.DateTimeFormat("bn-BD", { timeZone: DEFAULT_TIMEZONE, hour: "numeric", minute: "2-digit" });
+
+const previews = new Map<string, Buffer>();
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** "বিরিয়ানি · ১৯ অক্টোবর, ৬:৩০ PM – ৮:০০ PM · কমিউনিটি নিশ্চিত করেছে (১২ জন)" */
+export function describeSpot(post: Post, foodLabel: string | null) {
+  const start = new Date(post.distribution_time);
+  const time = `${dateFormat.format(start)}, ${timeFormat.format(start)} – ${timeFormat.format(new Date(post.ends_at))}`;
+  const trust = post.trust_level === "confirmed" && post.true_votes
+    ? `${TRUST_LABELS.confirmed} (${post.true_votes.toLocaleString("bn-BD")} জন)`
+    : TRUST_LABELS[post.trust_level];
+  return [foodLabel, time, trust].filter(Boolean).join(" · ");
+}
+
+function metaTags(post: Post, description: string, pageUrl: string, imageUrl: string) {
+  const tags: [string, string, string][] = [
+    ["name", "description", description],
+    ["property", "og:type", "website"],
+    ["property", "og:site_name", SITE_NAME],
+    ["property", "og:title", post.place_name],
+    ["property", "og:description", description],
+    ["property", "og:url", pageUrl],
+    ["property", "og:image", imageUrl],
+    ["property", "og:image:width", String(PREVIEW_WIDTH)],
+    ["property", "og:image:height", String(PREVIEW_HEIGHT)],
+    ["name", "twitter:card", "summary_large_image"],
+    ["name", "twitter:title", post.place_name],
+    ["name", "twitter:description", description],
+    ["name", "twitter:image", imageUrl],
+  ];
+  return tags.map(([attr, key, value]) => `<meta ${attr}="${key}" content="${escapeHtml(value)}" />`).join("\n    ");
+}
+
+/** `html` with the spot's title and link preview tags in its head. */
+export function injectSpotMeta(html: string, post: Post, description: string, pageUrl: string, imageUrl: string) {
+  // Replacer functions, so a `$&` or `$'` in a spot's name is not read as a replacement pattern
+  return html
+    .replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(`${post.place_name} · ${SITE_NAME}`)}</title>`)
+    .replace("</head>", () => `  ${metaTags(post, description, pageUrl, imageUrl)}\n  </head>`);
+}
+
+// Web Mercator pixel coordinates at `zoom`
+function worldPixel(lat: number, lng: number, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+async function fetchTile(x: number, y: number, zoom: number): Promise<Buffer | null> {
+  const template = process.env.STATIC_MAP_TILE_URL || DEFAULT_TILE_URL;
+  const url = template.replace("{z}", String(zoom)).replace("{x}", String(x)).replace("{y}", String(y));
+  try {
+    // Tile servers such as OpenStreetMap's ask clients to identify themselves
+    const res = await fetch(url, { headers: { "User-Agent": `${SITE_NAME} link previews` }, signal: AbortSignal.timeout(TILE_TIMEOUT_MS) });
+    if (!res.ok) throw new Error(`Tile request failed with ${res.status}`);
+    return Buffer.from(await res.arrayBuffer());
+  } catch (err) {
+    console.error(`Failed to fetch map tile ${zoom}/${x}/${y}:`, err);
+    return null;
+  }
+}
+
+function markerSvg(color: string) {
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="64" height="84" viewBox="0 0 64 84">
+  <path d="M32 2C15.4 2 2 15.4 2 32c0 22.5 30 50 30 50s30-27.5 30-50C62 15.4 48.6 2 32 2z" fill="${color}" stroke="#ffffff" stroke-width="4"/>
+  <circle cx="32" cy="32" r="11" fill="#ffffff"/>
+</svg>`);
+}
+
+function attributionSvg() {
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="260" height="28">
+  <rect width="260" height="28" fill="#ffffff" fill-opacity="0.8"/>
+  <text x="250" y="19" text-anchor="end" font-family="sans-serif" font-size="14" fill="#44403c">© OpenStreetMap contributors</text>
+</svg>`);
+}
+
+/**
+ * A map centred on the spot with its marker in the trust colour. Tiles that
+ * cannot be fetched are left blank, so the preview still renders offline.
+ */
+export async function renderSpotPreview(post: Pick<Post, "lat" | "lng" | "trust_level">) {
+  const center = worldPixel(post.lat, post.lng, PREVIEW_ZOOM);
+  const left = center.x - PREVIEW_WIDTH / 2;
+  const top = center.y - PREVIEW_HEIGHT / 2;
+  const firstX = Math.floor(left / TILE_SIZE);
+  const firstY = Math.floor(top / TILE_SIZE);
+  const columns = Math.floor((left + PREVIEW_WIDTH) / TILE_SIZE) - firstX + 1;
+  const rows = Math.floor((top + PREVIEW_HEIGHT) / TILE_SIZE) - firstY + 1;
+  const tileCount = 2 ** PREVIEW_ZOOM;
+
+  const tiles = await Promise.all(Array.from({ length: columns * rows }, async (_, i) => {
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    const y = firstY + row;
+    if (y < 0 || y >= tileCount) return null;
+    // Wraps around the antimeridian
+    const x = ((firstX + column) % tileCount + tileCount) % tileCount;
+    const input = await fetchTile(x, y, PREVIEW_ZOOM);
+    return input && { input, left: column * TILE_SIZE, top: row * TILE_SIZE };
+  }));
+
+  // Tiles go on a canvas aligned to the tile grid, which is then cropped around the spot
+  const grid = await sharp({
+    create: { width: columns * TILE_SIZE, height: rows * TILE_SIZE, channels: 3, background: BACKGROUND },
+  }).composite(tiles.filter(tile => tile !== null)).png().toBuffer();
+
+  return sharp(grid)
+    .extract({ left: Math.floor(left - firstX * TILE_SIZE), top: Math.floor(top - firstY * TILE_SIZE), width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT })
+    .composite([
+      // The pin's tip sits on the spot
+      { input: markerSvg(TRUST_COLORS[post.trust_level]), left: PREVIEW_WIDTH / 2 - 32, top: PREVIEW_HEIGHT / 2 - 82 },
+      { input: attributionSvg(), left: PREVIEW_WIDTH - 260, top: PREVIEW_HEIGHT - 28 },
+    ])
+    .png()
+    .toBuffer();
+}
+
+async function cachedPreview(post: Post) {
+  // Moving the spot or a change of trust level changes the picture
+  const key = `${post.id}:${post.lat}:${post.lng}:${post.trust_level}`;
+  let image = previews.get(key);
+  if (!image) {
+    image = await renderSpotPreview(post);
+    previews.set(key, image);
+    if (previews.size > MAX_CACHED_PREVIEWS) previews.delete(previews.keys().next().value!);
+  }
+  return image;
+}
+
+export function registerShareRoutes(app: Express, loadIndexHtml: IndexHtmlLoader) {
+  app.get("/api/posts/:id/preview.png", asyncRoute(async (req, res) => {
+    const storage = await getStorage();
+    const id = await storage.posts.resolveId(req.params.id);
+    if (id !== req.params.id) return res.redirect(301, `/api/posts/${encodeURIComponent(id)}/preview.png`);
+    const post = await storage.posts.get(id);
+    if (!post || post.hidden_at) throw notFound("Post");
+    const image = await cachedPreview(post);
+    res.set("Cache-Control", "public, max-age=3600");
+    res.type("png").send(image);
+  }));
+
+  app.get("/spot/:id", asyncRoute(async (req, res) => {
+    const storage = await getStorage();
+    const id = await storage.posts.resolveId(req.params.id);
+    if (id !== req.params.id) return res.redirect(301, `/spot/${encodeURIComponent(id)}`);
+    const post = await storage.posts.get(id);
+    const html = await loadIndexHtml(req.originalUrl);
+    // The app still loads, without a card, and shows the map
+    if (!post || post.hidden_at) return res.status(404).type("html").send(html);
+
+    const foodType = listFoodTypes(await getDb()).find(f => f.id === post.food_type);
+    const base = appUrl(req);
+    const pageUrl = `${base}/spot/${encodeURIComponent(post.id)}`;
+    const imageUrl = `${base}/api/posts/${encodeURIComponent(post.id)}/preview.png`;
+    res.type("html").send(injectSpotMeta(html, post, describeSpot(post, foodType?.label_bn ?? null), pageUrl, imageUrl));
+  }));
+}
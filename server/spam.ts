@@ -0,0 +1,247 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { getDb } from "./db";
+import { requireAdmin } from "./auth";
+import { Post, Storage, getStorage } from "./storage";
+import { logModerationAction, restorePost } from "./moderation";
+import { publish } from "./realtime";
+import { haversineMeters } from "./geo";
+import { asyncRoute, notFound } from "./errors";
+import { optionalText, validate } from "./validation";
+
+/**
+ * Shadow-banned users can keep posting, voting and reporting, and every
+ * request appears to succeed, but their posts are hidden with this reason,
+ * their votes and updates are suppressed and their reports are dropped until
+ * a moderator lifts the ban or it runs out. A ban that runs out is undone by
+ * `liftExpiredShadowBans` and stays listed, inactive, for moderators to review.
+ */
+export const SHADOW_BAN_REASON = "Shadow-banned author";
+
+const SHADOW_BAN_HOURS = Number(process.env.SHADOW_BAN_HOURS) || 24;
+// A new shadow ban also holds back posts the user made this long before it
+const SHADOW_BAN_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// More than AREA_MAX_POSTS posts from one identity within AREA_RADIUS_M of each other in AREA_WINDOW_MS
+const AREA_MAX_POSTS = 5;
+const AREA_RADIUS_M = 500;
+const AREA_WINDOW_MS = 60 * 60 * 1000;
+
+// FALSE_VOTE_BURST false votes on one post from new anonymous identities within FALSE_VOTE_WINDOW_MS
+const FALSE_VOTE_BURST = 5;
+const FALSE_VOTE_WINDOW_MS = 10 * 60 * 1000;
+const NEW_IDENTITY_MS = 24 * 60 * 60 * 1000;
+
+const SYSTEM_ACTOR = "system";
+// Feed requests look for bans that ran out at most this often
+const EXPIRY_CHECK_MS = 60 * 1000;
+
+let lastExpiryCheck = 0;
+
+export function isShadowBanned(database: any, userId: string | null, now = Date.now()) {
+  if (!userId) return false;
+  const row = database.prepare("SELECT shadow_banned_until FROM users WHERE id = ?").get(userId);
+  return !!row?.shadow_banned_until && new Date(row.shadow_banned_until).getTime() > now;
+}
+
+interface ShadowBan {
+  reason: string;
+  actorId: string;
+  hours?: number;
+  /** What triggered the ban, kept in the moderation log for review */
+  evidence?: Record<string, unknown>;
+}
+
+export async function shadowBan(database: any, storage: Storage, userId: string, ban: ShadowBan) {
+  const now = Date.now();
+  const until = new Date(now + (ban.hours ?? SHADOW_BAN_HOURS) * 60 * 60 * 1000).toISOString();
+  const result = database.prepare(`
+    UPDATE users SET shadow_banned_at = ?, shadow_banned_until = ?, shadow_ban_reason = ? WHERE id = ?
+  `).run(new Date(now).toISOString(), until, ban.reason, userId);
+  if (!result.changes) return false;
+
+  let heldPosts = 0;
+  for (const post of await storage.posts.recentByUser(userId, new Date(now - SHADOW_BAN_LOOKBACK_MS))) {
+    if (post.hidden_at || !await storage.posts.hide(post.id, SHADOW_BAN_REASON)) continue;
+    await publish("post:hidden", { post_id: post.id }, post);
+    heldPosts++;
+  }
+  const suppressedVotes = await storage.votes.setSuppressed(userId, true);
+  const suppressedUpdates = await storage.updates.setSuppressed(userId, true);
+
+  logModerationAction(database, {
+    action: "user_shadow_banned",
+    targetType: "user",
+    targetId: userId,
+    actorId: ban.actorId,
+    reason: ban.reason,
+    metadata: {
+      until,
+      held_posts: heldPosts,
+      suppressed_votes: suppressedVotes,
+      suppressed_updates: suppressedUpdates,
+      ...ban.evidence,
+    },
+  });
+  return true;
+}
+
+// Puts back what a shadow ban held back; posts only with `restorePosts`
+async function restoreHeldContent(storage: Storage, userId: string, restorePosts: boolean) {
+  let restoredPosts = 0;
+  if (restorePosts) {
+    for (const postId of await storage.posts.hiddenIdsByUser(userId, SHADOW_BAN_REASON)) {
+      if (await restorePost(storage, postId)) restoredPosts++;
+    }
+  }
+  return {
+    restored_posts: restoredPosts,
+    restored_votes: await storage.votes.setSuppressed(userId, false),
+    restored_updates: await storage.updates.setSuppressed(userId, false),
+  };
+}
+
+/**
+ * Restores the posts, votes and updates of users whose shadow ban ran out.
+ * Clearing `shadow_banned_until` marks the ban as handled; the rest of it is
+ * kept so moderators still see it in their list.
+ */
+export async function liftExpiredShadowBans(database: any, storage: Storage, now = Date.now()) {
+  if (now - lastExpiryCheck < EXPIRY_CHECK_MS) return;
+  lastExpiryCheck = now;
+  const expired = database.prepare("SELECT id FROM users WHERE shadow_banned_until IS NOT NULL AND shadow_banned_until <= ?")
+    .all(new Date(now).toISOString());
+  for (const { id } of expired) {
+    // Claimed first, so overlapping requests restore each ban once
+    const { changes } = database.prepare("UPDATE users SET shadow_banned_until = NULL WHERE id = ? AND shadow_banned_until IS NOT NULL")
+      .run(id);
+    if (!changes) continue;
+    logModerationAction(database, {
+      action: "user_shadow_ban_expired",
+      targetType: "user",
+      targetId: id,
+      actorId: SYSTEM_ACTOR,
+      metadata: await restoreHeldContent(storage, id, true),
+    });
+  }
+}
+
+/**
+ * Hides a post whose author is shadow-banned, or bans an author who keeps
+ * posting around the same spot. Returns true when the post was held back.
+ */
+export async function screenNewPost(database: any, storage: Storage, post: Post) {
+  if (!post.user_id) return false;
+  if (isShadowBanned(database, post.user_id)) {
+    await storage.posts.hide(post.id, SHADOW_BAN_REASON);
+    return true;
+  }
+
+  const recent = await storage.posts.recentByUser(post.user_id, new Date(Date.now() - AREA_WINDOW_MS));
+  const nearby = recent.filter(p => haversineMeters(p, post) <= AREA_RADIUS_M);
+  if (nearby.length <= AREA_MAX_POSTS) return false;
+
+  return shadowBan(database, storage, post.user_id, {
+    reason: `${nearby.length} posts within ${AREA_RADIUS_M} m in an hour`,
+    actorId: SYSTEM_ACTOR,
+    evidence: { post_ids: nearby.map(p => p.id) },
+  });
+}
+
+function createdAtMs(createdAt: string | null) {
+  // SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+  return createdAt ? new Date(createdAt.replace(" ", "T") + "Z").getTime() : 0;
+}
+
+/**
+ * Shadow-bans the new anonymous identities behind a burst of false votes on
+ * one post. Established accounts agreeing that a spot is fake are left alone.
+ * Returns true when any votes were suppressed.
+ */
+export async function screenFalseVotes(database: any, storage: Storage, postId: string) {
+  const now = Date.now();
+  const voters = await storage.votes.recentVoters(postId, 0, new Date(now - FALSE_VOTE_WINDOW_MS));
+  if (voters.length < FALSE_VOTE_BURST) return false;
+
+  const rows = database.prepare(`
+    SELECT id, is_anonymous, created_at FROM users WHERE id IN (${voters.map(() => "?").join(", ")})
+  `).all(...voters);
+  const suspects = rows
+    .filter((u: any) => u.is_anonymous && createdAtMs(u.created_at) > now - NEW_IDENTITY_MS)
+    .map((u: any) => u.id as string);
+  if (suspects.length < FALSE_VOTE_BURST) return false;
+
+  for (const userId of suspects) {
+    await shadowBan(database, storage, userId, {
+      reason: `Part of a burst of ${suspects.length} false votes`,
+      actorId: SYSTEM_ACTOR,
+      evidence: { post_id: postId, voters: suspects },
+    });
+  }
+  return true;
+}
+
+const shadowBanSchema = z.object({
+  hours: z.number().int().min(1).max(30 * 24).optional(),
+  reason: optionalText(500),
+});
+
+const liftSchema = z.object({
+  /** Put held-back posts back on the map; false leaves them hidden for a regular ban */
+  restore_posts: z.boolean().default(true),
+  reason: optionalText(500),
+});
+
+export function registerSpamRoutes(app: Express) {
+  // Active and expired shadow bans waiting for a moderator's decision; expired ones are already undone
+  app.get("/api/admin/shadow-bans", requireAdmin, asyncRoute(async (req, res) => {
+    const database = await getDb();
+    const storage = await getStorage();
+    const rows = database.prepare(`
+      SELECT id, name, email, is_anonymous, created_at, shadow_banned_at, shadow_banned_until, shadow_ban_reason
+      FROM users WHERE shadow_banned_at IS NOT NULL AND banned_at IS NULL
+      ORDER BY shadow_banned_at DESC
+    `).all();
+    const now = Date.now();
+    res.json(await Promise.all(rows.map(async (u: any) => ({
+      ...u,
+      is_anonymous: !!u.is_anonymous,
+      active: !!u.shadow_banned_until && new Date(u.shadow_banned_until).getTime() > now,
+      held_post_ids: await storage.posts.hiddenIdsByUser(u.id, SHADOW_BAN_REASON),
+    }))));
+  }));
+
+  app.post("/api/admin/users/:id/shadow-ban", requireAdmin, asyncRoute(async (req, res) => {
+    const { hours, reason } = validate(shadowBanSchema, req.body ?? {});
+    const database = await getDb();
+    const banned = await shadowBan(database, await getStorage(), req.params.id, {
+      reason: reason ?? "Set by a moderator",
+      actorId: req.user!.id,
+      hours,
+    });
+    if (!banned) throw notFound("User");
+    res.json({ success: true });
+  }));
+
+  app.post("/api/admin/users/:id/shadow-ban/lift", requireAdmin, asyncRoute(async (req, res) => {
+    const { restore_posts, reason } = validate(liftSchema, req.body ?? {});
+    const database = await getDb();
+    const storage = await getStorage();
+    const result = database.prepare(`
+      UPDATE users SET shadow_banned_at = NULL, shadow_banned_until = NULL, shadow_ban_reason = NULL
+      WHERE id = ? AND shadow_banned_at IS NOT NULL
+    `).run(req.params.id);
+    if (!result.changes) throw notFound("Shadow ban");
+
+    const restored = await restoreHeldContent(storage, req.params.id, restore_posts);
+    logModerationAction(database, {
+      action: "user_shadow_ban_lifted",
+      targetType: "user",
+      targetId: req.params.id,
+      actorId: req.user!.id,
+      reason,
+      metadata: restored,
+    });
+    res.json({ success: true, ...restored });
+  }));
+}
@@ -0,0 +1,324 @@
+import type { PrayerRule } from "../prayer-times";
+import type { PostQuery } from "../posts";
+import type { PostStatus } from "../../shared/lifecycle";
+import type { ReportCategory } from "../moderation";
+import type { Trust } from "../trust";
+import type { ReputationLevel } from "../reputation";
+import type { SpotStatus, UpdateKind } from "../updates";
+import type { NotifyReason } from "../watch-zones";
+import type { BBox } from "../geo";
+import { getDb } from "../db";
+import { SqliteStorage } from "./sqlite";
+import { MemoryStorage } from "./memory";
+
+export interface PostRecord {
+  id: string;
+  user_id: string | null;
+  place_name: string;
+  food_type: string | null;
+  description: string | null;
+  lat: number;
+  lng: number;
+  distribution_time: string;
+  ends_at: string;
+  schedule_id: string | null;
+  prayer_rule: PrayerRule | null;
+  hidden_at: string | null;
+  hidden_reason: string | null;
+  /** SQLite `CURRENT_TIMESTAMP` format, `YYYY-MM-DD HH:MM:SS` in UTC */
+  created_at: string;
+  /** ISO time of the last change to the post, its vote counts, its status or its visibility */
+  updated_at: string;
+}
+
+export type NewPost = Omit<PostRecord, "hidden_at" | "hidden_reason" | "created_at" | "updated_at">;
+
+/** Fields of a post that can be edited after it is created. */
+export type PostChanges = Partial<Omit<NewPost, "id" | "user_id" | "schedule_id">>;
+
+/** Raw counts of counted votes, with the trust computed from them. */
+export interface VoteCounts extends Trust {
+  true_votes: number;
+  false_votes: number;
+}
+
+/** A post as the API returns it: author name, votes and trust, and computed lifecycle. */
+export interface Post extends PostRecord, VoteCounts {
+  user_name: string | null;
+  /** The author's cached reputation level, shown as a badge */
+  user_reputation: ReputationLevel | null;
+  /** From the latest status update in the post's thread; null until someone posts one */
+  current_status: SpotStatus | null;
+  current_status_note: string | null;
+  current_status_at: string | null;
+  status: PostStatus;
+  ending_soon: boolean;
+  /** Metres from the search centre, only on `near` queries */
+  distance?: number;
+}
+
+export interface PostPage {
+  posts: Post[];
+  nextCursor: string | null;
+}
+
+export interface MergeResult {
+  /** The deleted source post */
+  source: PostRecord;
+  /** Votes moved onto the target */
+  moved_votes: number;
+  /** Votes dropped because the same user had already voted on the target */
+  dropped_votes: number;
+  /** Reports moved onto the target, so moderators still see them */
+  moved_reports: number;
+}
+
+export interface PostRepository {
+  /** Throws when a post with the same id already exists. */
+  create(post: NewPost): Promise<Post>;
+  /** Inserts the posts whose ids are neither taken nor merged away; returns how many were added. */
+  createMissing(posts: NewPost[]): Promise<number>;
+  /** Any post by id, including hidden and expired ones. */
+  get(id: string): Promise<Post | null>;
+  query(q: PostQuery): Promise<PostPage>;
+  /** Edits the post in place, keeping its votes, reports, photos and updates; false when it does not exist. */
+  update(id: string, changes: PostChanges): Promise<boolean>;
+  /** Returns false when the post does not exist or is already hidden. */
+  hide(id: string, reason: string | null): Promise<boolean>;
+  /** Returns false when the post does not exist or is not hidden. */
+  restore(id: string): Promise<boolean>;
+  /** Deletes the post with its votes, reports, photos and updates, returning the deleted row. */
+  delete(id: string): Promise<PostRecord | null>;
+  visibleIdsByUser(userId: string): Promise<string[]>;
+  /** The user's posts, newest first; hidden ones only with `includeHidden`. */
+  byUser(userId: string, options?: { includeHidden?: boolean; limit?: number }): Promise<Post[]>;
+  /** Hidden posts by the user whose hidden reason is exactly `reason`. */
+  hiddenIdsByUser(userId: string, reason: string): Promise<string[]>;
+  /** The user's posts created at or after `since`, hidden ones included. */
+  recentByUser(userId: string, since: Date): Promise<PostRecord[]>;
+  /**
+   * Moves the source post's votes, reports, photos and updates onto the target, deletes the source and
+   * redirects its id to the target. Both posts must exist.
+   */
+  merge(sourceId: string, targetId: string): Promise<MergeResult>;
+  /** Follows a merge redirect; ids that were never merged come back unchanged. */
+  resolveId(id: string): Promise<string>;
+  /** Visible posts with `ends_at` in (from, to]; given two expiry cutoffs, the posts that expired in between. */
+  expiredBetween(from: string, to: string): Promise<PostRecord[]>;
+  /** A schedule's occurrences starting after `after` (ISO time). */
+  scheduledAfter(scheduleId: string, after: string): Promise<PostRecord[]>;
+  /** Deletes a schedule's occurrences starting after `after` (ISO time). */
+  deleteScheduledAfter(scheduleId: string, after: string): Promise<number>;
+  /** Posts whose `updated_at` is at or after `since` (ISO time), hidden and expired ones included. */
+  changedSince(since: string): Promise<Post[]>;
+  /**
+   * Visible, unexpired posts whose status or `ending_soon` at `to` differs
+   * from `from` without a write: the clock passed their start, end or
+   * ending-soon mark. Only posts with one of those marks in the window are read.
+   */
+  driftedBetween(from: string, to: string): Promise<Post[]>;
+  /** Ids of visible, unexpired posts whose votes decayed across a trust level between `from` and `to`. */
+  trustChangedBetween(from: string, to: string): Promise<string[]>;
+  /** Marks posts as changed for delta sync after a change kept outside the post, such as its author's reputation. */
+  touch(ids: string[]): Promise<void>;
+  /** Ids of posts deleted or merged away at or after `since`. */
+  removedSince(since: string): Promise<string[]>;
+  /** Forgets deletions before `before`; returns how many were forgotten. */
+  pruneRemoved(before: string): Promise<number>;
+}
+
+/** One of a user's counted votes, with the post's current counts. */
+export interface UserVote {
+  post_id: string;
+  author_id: string | null;
+  vote_type: 0 | 1;
+  true_votes: number;
+  false_votes: number;
+}
+
+export interface VoteRepository {
+  /**
+   * Records or changes a user's vote; null when the post does not exist.
+   * Suppressed votes are kept for review but left out of every count.
+   */
+  cast(postId: string, userId: string, voteType: 0 | 1, suppressed?: boolean): Promise<VoteCounts | null>;
+  counts(postId: string): Promise<VoteCounts>;
+  byUser(userId: string): Promise<UserVote[]>;
+  /** Users with a counted vote on the post. */
+  voters(postId: string): Promise<string[]>;
+  /** Users whose counted vote of this type on the post was cast at or after `since`. */
+  recentVoters(postId: string, voteType: 0 | 1, since: Date): Promise<string[]>;
+  /** Suppresses or restores every vote by the user, returning how many changed. */
+  setSuppressed(userId: string, suppressed: boolean): Promise<number>;
+}
+
+export type ReportStatus = "open" | "resolved" | "dismissed";
+
+export interface ReportRecord {
+  id: number;
+  post_id: string;
+  user_id: string;
+  category: ReportCategory;
+  reason: string | null;
+  status: ReportStatus;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+export interface NewReport {
+  post_id: string;
+  user_id: string;
+  category: ReportCategory;
+  reason: string | null;
+}
+
+export interface ReportRepository {
+  /** One open report per user and post; reporting again updates it. */
+  submit(report: NewReport): Promise<void>;
+  openReporterCount(postId: string): Promise<number>;
+  /** Closes every open report on the post, returning how many were closed. */
+  close(postId: string, status: "resolved" | "dismissed", actorId: string): Promise<number>;
+  /** Reports with the given status, newest first. */
+  list(status: string): Promise<ReportRecord[]>;
+}
+
+/** A processed photo; the files themselves live in the PhotoStore under these keys. */
+export interface PhotoRecord {
+  id: string;
+  post_id: string;
+  user_id: string | null;
+  file_key: string;
+  thumbnail_key: string;
+  width: number;
+  height: number;
+  created_at: string;
+}
+
+export type NewPhoto = Omit<PhotoRecord, "created_at">;
+
+export interface PhotoRepository {
+  add(photo: NewPhoto): Promise<PhotoRecord>;
+  /** The post's photos, oldest first. */
+  list(postId: string): Promise<PhotoRecord[]>;
+  get(id: string): Promise<PhotoRecord | null>;
+  /** Returns the deleted row so its files can be removed too. */
+  delete(id: string): Promise<PhotoRecord | null>;
+}
+
+export interface UpdateRecord {
+  id: number;
+  post_id: string;
+  user_id: string | null;
+  kind: UpdateKind;
+  body: string | null;
+  /** ISO time */
+  created_at: string;
+}
+
+export interface PostUpdate extends UpdateRecord {
+  user_name: string | null;
+}
+
+export type NewUpdate = Omit<UpdateRecord, "id" | "created_at">;
+
+export interface UpdateRepository {
+  /** Suppressed updates are kept for review but never listed or used for the current status. */
+  add(update: NewUpdate, suppressed?: boolean): Promise<PostUpdate>;
+  /** The post's counted updates, newest first. */
+  list(postId: string, limit: number): Promise<PostUpdate[]>;
+  /** Suppresses or restores every update by the user, returning how many changed. */
+  setSuppressed(userId: string, suppressed: boolean): Promise<number>;
+}
+
+export interface WatchZone {
+  id: string;
+  user_id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radius_m: number;
+  /** Only posts of these food types; null for all */
+  food_types: string[] | null;
+  /** Local hours (`HH:MM`, Dhaka time) notifications are sent in; null for any time. May wrap past midnight. */
+  notify_from: string | null;
+  notify_until: string | null;
+  created_at: string;
+}
+
+export interface WatchZoneRepository {
+  /** The user's zones, oldest first. */
+  list(userId: string): Promise<WatchZone[]>;
+  count(userId: string): Promise<number>;
+  create(zone: WatchZone): Promise<void>;
+  /** Deletes one of the user's zones; false when they have no such zone. */
+  delete(id: string, userId: string): Promise<boolean>;
+  /** Zones centred inside `box` whose owners have at least one push subscription. */
+  watchingBox(box: BBox): Promise<WatchZone[]>;
+}
+
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  user_id: string;
+  p256dh: string;
+  auth: string;
+  created_at: string;
+}
+
+export type NewPushSubscription = Omit<PushSubscriptionRecord, "created_at">;
+
+export interface PushRepository {
+  /** The same browser endpoint moves to whoever subscribed with it last, e.g. after logging in. */
+  subscribe(subscription: NewPushSubscription): Promise<void>;
+  /** Removes the endpoint only if it belongs to the user. */
+  unsubscribe(endpoint: string, userId: string): Promise<void>;
+  /** Forgets an endpoint the push service reported as gone, whoever it belonged to. */
+  forget(endpoint: string): Promise<void>;
+  subscriptions(userId: string): Promise<PushSubscriptionRecord[]>;
+  /** Records that the user was notified about the post for `reason`; false if they already were. */
+  recordDelivery(userId: string, postId: string, reason: NotifyReason): Promise<boolean>;
+  /** Forgets deliveries sent before `before` (ISO time), returning how many. */
+  pruneDeliveries(before: string): Promise<number>;
+}
+
+export interface Storage {
+  posts: PostRepository;
+  votes: VoteRepository;
+  reports: ReportRepository;
+  photos: PhotoRepository;
+  updates: UpdateRepository;
+  watchZones: WatchZoneRepository;
+  push: PushRepository;
+}
+
+export type StorageDriver = "sqlite" | "memory";
+
+let storage: Storage | null = null;
+
+/**
+ * `STORAGE_DRIVER=memory` keeps posts, votes, reports, photo records, updates,
+ * watch zones and push subscriptions in process memory (lost on restart).
+ */
+export async function getStorage(): Promise<Storage> {
+  if (storage) return storage;
+  const driver = (process.env.STORAGE_DRIVER || "sqlite") as StorageDriver;
+  if (driver === "memory") {
+    // Accounts still live in the database, so authors and voters are looked up there
+    const database = await getDb();
+    storage = new MemoryStorage(async userId => {
+      const row = database.prepare("SELECT name, is_anonymous, reputation_level FROM users WHERE id = ?").get(userId);
+      return row ? { name: row.name, is_anonymous: !!row.is_anonymous, reputation_level: row.reputation_level } : null;
+    });
+  } else if (driver === "sqlite") {
+    storage = new SqliteStorage(await getDb());
+  } else {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "sqlite" or "memory"`);
+  }
+  console.log(`Using ${driver} storage`);
+  return storage;
+}
+
+// Lets tests or alternative deployments plug in their own storage
+export function setStorage(next: Storage) {
+  storage = next;
+}
@@ -0,0 +1,569 @@
+import type {
+  MergeResult, NewPhoto, NewPost, NewPushSubscription, PostChanges, NewReport, NewUpdate, PhotoRecord, PhotoRepository, Post, PostPage,
+  PostRecord, PostRepository, PostUpdate, PushRepository, PushSubscriptionRecord, ReportRecord, ReportRepository, Storage,
+  UpdateRecord, UpdateRepository, UserVote, VoteCounts, VoteRepository, WatchZone, WatchZoneRepository,
+} from "./index";
+import type { NotifyReason } from "../watch-zones";
+import { PostQuery, isListed, lifecycleChanged, pagePosts, searchBox, toPost } from "../posts";
+import { expiryCutoff } from "../../shared/lifecycle";
+import { BBox, inBbox } from "../geo";
+import { sqliteTimestamp } from "../time";
+import { VoteEvidence, scoreVotes } from "../trust";
+import { ReputationLevel, baselineVotes } from "../reputation";
+
+/** Looks up an author or voter; posts and votes keep pointing at users stored elsewhere. */
+export type UserLookup = (userId: string) => Promise<{
+  name: string;
+  is_anonymous: boolean;
+  reputation_level: ReputationLevel | null;
+} | null>;
+
+interface MemoryVote {
+  vote_type: 0 | 1;
+  voted_at: string;
+  suppressed: boolean;
+}
+
+// Shared by the repositories so deletes cascade like the SQLite foreign keys
+interface MemoryTables {
+  posts: Map<string, PostRecord>;
+  /** post id -> user id -> vote */
+  votes: Map<string, Map<string, MemoryVote>>;
+  reports: ReportRecord[];
+  nextReportId: number;
+  /** merged post id -> id it was merged into */
+  redirects: Map<string, string>;
+  photos: PhotoRecord[];
+  /** Oldest first */
+  updates: MemoryUpdate[];
+  nextUpdateId: number;
+  /** deleted or merged post id -> ISO time it was removed */
+  tombstones: Map<string, string>;
+  /** Oldest first */
+  watchZones: WatchZone[];
+  /** endpoint -> subscription */
+  pushSubscriptions: Map<string, PushSubscriptionRecord>;
+  /** "user id:post id:reason" -> ISO time it was sent */
+  deliveries: Map<string, string>;
+}
+
+interface MemoryUpdate extends UpdateRecord {
+  suppressed: boolean;
+}
+
+function rawCounts(tables: MemoryTables, postId: string) {
+  const counts = { true_votes: 0, false_votes: 0 };
+  for (const vote of tables.votes.get(postId)?.values() ?? []) {
+    if (vote.suppressed) continue;
+    if (vote.vote_type === 1) counts.true_votes++;
+    else counts.false_votes++;
+  }
+  return counts;
+}
+
+async function countVotes(tables: MemoryTables, lookupUser: UserLookup, postId: string, now = Date.now()): Promise<VoteCounts> {
+  const evidence: VoteEvidence[] = [];
+  for (const [userId, vote] of tables.votes.get(postId) ?? []) {
+    if (vote.suppressed) continue;
+    const voter = await lookupUser(userId);
+    evidence.push({ vote_type: vote.vote_type, voted_at: vote.voted_at, is_anonymous: voter?.is_anonymous });
+  }
+  const authorId = tables.posts.get(postId)?.user_id;
+  const author = authorId ? await lookupUser(authorId) : null;
+  return { ...rawCounts(tables, postId), ...scoreVotes(evidence, now, baselineVotes(author?.reputation_level)) };
+}
+
+// Marks a post as changed for delta sync
+function touch(tables: MemoryTables, postId: string) {
+  const record = tables.posts.get(postId);
+  if (record) record.updated_at = new Date().toISOString();
+}
+
+// Matches the SQLite current_status columns: the latest counted update that is not a comment
+function currentStatus(tables: MemoryTables, postId: string) {
+  const latest = [...tables.updates].reverse().find(u => u.post_id === postId && u.kind !== "comment" && !u.suppressed);
+  return {
+    current_status: latest ? latest.kind as Post["current_status"] : null,
+    current_status_note: latest?.body ?? null,
+    current_status_at: latest?.created_at ?? null,
+  };
+}
+
+export class MemoryPostRepository implements PostRepository {
+  constructor(private tables: MemoryTables, private lookupUser: UserLookup) {}
+
+  private async toFeedRow(record: PostRecord) {
+    const author = record.user_id ? await this.lookupUser(record.user_id) : null;
+    return {
+      ...record,
+      user_name: author?.name ?? null,
+      user_reputation: author?.reputation_level ?? null,
+      ...currentStatus(this.tables, record.id),
+      ...await countVotes(this.tables, this.lookupUser, record.id),
+    };
+  }
+
+  async create(post: NewPost) {
+    if (this.tables.posts.has(post.id)) throw new Error(`Post ${post.id} already exists`);
+    this.tables.posts.set(post.id, {
+      ...post, hidden_at: null, hidden_reason: null, created_at: sqliteTimestamp(), updated_at: new Date().toISOString(),
+    });
+    return (await this.get(post.id))!;
+  }
+
+  async createMissing(posts: NewPost[]) {
+    let added = 0;
+    for (const post of posts) {
+      if (this.tables.posts.has(post.id) || this.tables.redirects.has(post.id)) continue;
+      await this.create(post);
+      added++;
+    }
+    return added;
+  }
+
+  async get(id: string): Promise<Post | null> {
+    const record = this.tables.posts.get(id);
+    return record ? toPost(await this.toFeedRow(record)) : null;
+  }
+
+  async query(q: PostQuery): Promise<PostPage> {
+    const now = Date.now();
+    const box = searchBox(q);
+    const matches = [...this.tables.posts.values()].filter(p =>
+      isListed(p, q, now) &&
+      (!q.foodTypes || (p.food_type !== null && q.foodTypes.includes(p.food_type))) &&
+      (!box || inBbox(p, box))
+    );
+    return pagePosts(await Promise.all(matches.map(p => this.toFeedRow(p))), q, now);
+  }
+
+  async update(id: string, changes: PostChanges) {
+    const record = this.tables.posts.get(id);
+    if (!record) return false;
+    Object.assign(record, changes, { updated_at: new Date().toISOString() });
+    return true;
+  }
+
+  async hide(id: string, reason: string | null) {
+    const record = this.tables.posts.get(id);
+    if (!record || record.hidden_at) return false;
+    record.hidden_at = record.updated_at = new Date().toISOString();
+    record.hidden_reason = reason;
+    return true;
+  }
+
+  async restore(id: string) {
+    const record = this.tables.posts.get(id);
+    if (!record || !record.hidden_at) return false;
+    record.hidden_at = null;
+    record.hidden_reason = null;
+    record.updated_at = new Date().toISOString();
+    return true;
+  }
+
+  async delete(id: string) {
+    const record = this.tables.posts.get(id);
+    if (!record) return null;
+    this.tables.posts.delete(id);
+    this.tables.votes.delete(id);
+    this.tables.reports = this.tables.reports.filter(r => r.post_id !== id);
+    this.tables.photos = this.tables.photos.filter(p => p.post_id !== id);
+    this.tables.updates = this.tables.updates.filter(u => u.post_id !== id);
+    for (const [oldId, newId] of this.tables.redirects) {
+      if (newId === id) this.tables.redirects.delete(oldId);
+    }
+    this.tables.tombstones.set(id, new Date().toISOString());
+    return { ...record };
+  }
+
+  async visibleIdsByUser(userId: string) {
+    return [...this.tables.posts.values()].filter(p => p.user_id === userId && !p.hidden_at).map(p => p.id);
+  }
+
+  async byUser(userId: string, options: { includeHidden?: boolean; limit?: number } = {}) {
+    const records = [...this.tables.posts.values()]
+      .filter(p => p.user_id === userId && (options.includeHidden || !p.hidden_at))
+      .sort((a, b) => (a.created_at < b.created_at ? 1 : a.created_at > b.created_at ? -1 : b.id < a.id ? -1 : 1))
+      .slice(0, options.limit);
+    return Promise.all(records.map(async p => toPost(await this.toFeedRow(p))));
+  }
+
+  async driftedBetween(from: string, to: string) {
+    const fromMs = Date.parse(from);
+    const toMs = Date.parse(to);
+    const cutoff = expiryCutoff(toMs);
+    const drifted: Post[] = [];
+    for (const record of this.tables.posts.values()) {
+      if (record.hidden_at || record.ends_at <= cutoff || !lifecycleChanged(record, fromMs, toMs)) continue;
+      const trust = await countVotes(this.tables, this.lookupUser, record.id, toMs);
+      drifted.push(toPost({ ...await this.toFeedRow(record), ...trust }, toMs));
+    }
+    return drifted;
+  }
+
+  async trustChangedBetween(from: string, to: string) {
+    const fromMs = Date.parse(from);
+    const toMs = Date.parse(to);
+    const cutoff = expiryCutoff(toMs);
+    const changed: string[] = [];
+    for (const [postId, votes] of this.tables.votes) {
+      const record = this.tables.posts.get(postId);
+      // Without a counted vote the trust is the author's baseline alone, which does not decay
+      if (!record || record.hidden_at || record.ends_at <= cutoff || ![...votes.values()].some(v => !v.suppressed)) continue;
+      const before = await countVotes(this.tables, this.lookupUser, postId, fromMs);
+      const after = await countVotes(this.tables, this.lookupUser, postId, toMs);
+      if (before.trust_level !== after.trust_level) changed.push(postId);
+    }
+    return changed;
+  }
+
+  async touch(ids: string[]) {
+    for (const id of ids) touch(this.tables, id);
+  }
+
+  async hiddenIdsByUser(userId: string, reason: string) {
+    return [...this.tables.posts.values()]
+      .filter(p => p.user_id === userId && p.hidden_at && p.hidden_reason === reason)
+      .map(p => p.id);
+  }
+
+  async recentByUser(userId: string, since: Date) {
+    const after = sqliteTimestamp(since);
+    return [...this.tables.posts.values()]
+      .filter(p => p.user_id === userId && p.created_at >= after)
+      .sort((a, b) => (a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0))
+      .map(p => ({ ...p }));
+  }
+
+  async merge(sourceId: string, targetId: string): Promise<MergeResult> {
+    const sourceVotes = this.tables.votes.get(sourceId) ?? new Map<string, MemoryVote>();
+    let targetVotes = this.tables.votes.get(targetId);
+    if (!targetVotes) this.tables.votes.set(targetId, targetVotes = new Map());
+    let moved = 0;
+    for (const [userId, vote] of sourceVotes) {
+      // Matches the SQLite UNIQUE(post_id, user_id): the vote already on the target wins
+      if (targetVotes.has(userId)) continue;
+      targetVotes.set(userId, vote);
+      moved++;
+    }
+    let movedReports = 0;
+    for (const report of this.tables.reports) {
+      if (report.post_id === sourceId) {
+        report.post_id = targetId;
+        movedReports++;
+      }
+    }
+    for (const photo of this.tables.photos) {
+      if (photo.post_id === sourceId) photo.post_id = targetId;
+    }
+    // Ids grow with time, so the merged thread stays in order
+    for (const update of this.tables.updates) {
+      if (update.post_id === sourceId) update.post_id = targetId;
+    }
+    // Earlier merges into the source now point at the target, so redirects never chain
+    for (const [oldId, newId] of this.tables.redirects) {
+      if (newId === sourceId) this.tables.redirects.set(oldId, targetId);
+    }
+    const source = (await this.delete(sourceId))!;
+    this.tables.redirects.set(sourceId, targetId);
+    touch(this.tables, targetId);
+    return { source, moved_votes: moved, dropped_votes: sourceVotes.size - moved, moved_reports: movedReports };
+  }
+
+  async resolveId(id: string) {
+    return this.tables.redirects.get(id) ?? id;
+  }
+
+  async expiredBetween(from: string, to: string) {
+    return [...this.tables.posts.values()]
+      .filter(p => !p.hidden_at && p.ends_at > from && p.ends_at <= to)
+      .map(p => ({ ...p }));
+  }
+
+  async scheduledAfter(scheduleId: string, after: string) {
+    return [...this.tables.posts.values()]
+      .filter(p => p.schedule_id === scheduleId && p.distribution_time > after)
+      .map(p => ({ ...p }));
+  }
+
+  async deleteScheduledAfter(scheduleId: string, after: string) {
+    const ids = [...this.tables.posts.values()]
+      .filter(p => p.schedule_id === scheduleId && p.distribution_time > after)
+      .map(p => p.id);
+    for (const id of ids) await this.delete(id);
+    return ids.length;
+  }
+
+  async changedSince(since: string) {
+    const records = [...this.tables.posts.values()].filter(p => p.updated_at >= since);
+    return Promise.all(records.map(async p => toPost(await this.toFeedRow(p))));
+  }
+
+  async removedSince(since: string) {
+    return [...this.tables.tombstones].filter(([, removedAt]) => removedAt >= since).map(([id]) => id);
+  }
+
+  async pruneRemoved(before: string) {
+    let pruned = 0;
+    for (const [id, removedAt] of this.tables.tombstones) {
+      if (removedAt < before) {
+        this.tables.tombstones.delete(id);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+export class MemoryVoteRepository implements VoteRepository {
+  constructor(private tables: MemoryTables, private lookupUser: UserLookup) {}
+
+  async cast(postId: string, userId: string, voteType: 0 | 1, suppressed = false) {
+    if (!this.tables.posts.has(postId)) return null;
+    let votes = this.tables.votes.get(postId);
+    if (!votes) this.tables.votes.set(postId, votes = new Map());
+    votes.set(userId, { vote_type: voteType, voted_at: new Date().toISOString(), suppressed });
+    if (!suppressed) touch(this.tables, postId);
+    return countVotes(this.tables, this.lookupUser, postId);
+  }
+
+  async counts(postId: string) {
+    return countVotes(this.tables, this.lookupUser, postId);
+  }
+
+  async byUser(userId: string): Promise<UserVote[]> {
+    const votes: UserVote[] = [];
+    for (const [postId, postVotes] of this.tables.votes) {
+      const vote = postVotes.get(userId);
+      if (!vote || vote.suppressed) continue;
+      votes.push({
+        post_id: postId,
+        author_id: this.tables.posts.get(postId)?.user_id ?? null,
+        vote_type: vote.vote_type,
+        ...rawCounts(this.tables, postId),
+      });
+    }
+    return votes;
+  }
+
+  async voters(postId: string) {
+    return [...this.tables.votes.get(postId) ?? []].filter(([, vote]) => !vote.suppressed).map(([userId]) => userId);
+  }
+
+  async recentVoters(postId: string, voteType: 0 | 1, since: Date) {
+    const after = since.toISOString();
+    return [...this.tables.votes.get(postId) ?? []]
+      .filter(([, vote]) => vote.vote_type === voteType && !vote.suppressed && vote.voted_at >= after)
+      .map(([userId]) => userId);
+  }
+
+  async setSuppressed(userId: string, suppressed: boolean) {
+    let changed = 0;
+    for (const [postId, votes] of this.tables.votes) {
+      const vote = votes.get(userId);
+      if (vote && vote.suppressed !== suppressed) {
+        vote.suppressed = suppressed;
+        touch(this.tables, postId);
+        changed++;
+      }
+    }
+    return changed;
+  }
+}
+
+export class MemoryReportRepository implements ReportRepository {
+  constructor(private tables: MemoryTables) {}
+
+  async submit(report: NewReport) {
+    const existing = this.tables.reports.find(r =>
+      r.post_id === report.post_id && r.user_id === report.user_id && r.status === "open"
+    );
+    if (existing) {
+      existing.category = report.category;
+      existing.reason = report.reason;
+      return;
+    }
+    this.tables.reports.push({
+      ...report,
+      id: this.tables.nextReportId++,
+      status: "open",
+      created_at: sqliteTimestamp(),
+      resolved_at: null,
+      resolved_by: null,
+    });
+  }
+
+  async openReporterCount(postId: string) {
+    const reporters = this.tables.reports.filter(r => r.post_id === postId && r.status === "open").map(r => r.user_id);
+    return new Set(reporters).size;
+  }
+
+  async close(postId: string, status: "resolved" | "dismissed", actorId: string) {
+    const open = this.tables.reports.filter(r => r.post_id === postId && r.status === "open");
+    const resolvedAt = new Date().toISOString();
+    for (const report of open) {
+      report.status = status;
+      report.resolved_at = resolvedAt;
+      report.resolved_by = actorId;
+    }
+    return open.length;
+  }
+
+  async list(status: string) {
+    return this.tables.reports
+      .filter(r => r.status === status)
+      .sort((a, b) => (a.created_at < b.created_at ? 1 : a.created_at > b.created_at ? -1 : b.id - a.id))
+      .map(r => ({ ...r }));
+  }
+}
+
+export class MemoryPhotoRepository implements PhotoRepository {
+  constructor(private tables: MemoryTables) {}
+
+  async add(photo: NewPhoto) {
+    const record = { ...photo, created_at: sqliteTimestamp() };
+    this.tables.photos.push(record);
+    return { ...record };
+  }
+
+  async list(postId: string) {
+    return this.tables.photos.filter(p => p.post_id === postId).map(p => ({ ...p }));
+  }
+
+  async get(id: string) {
+    const record = this.tables.photos.find(p => p.id === id);
+    return record ? { ...record } : null;
+  }
+
+  async delete(id: string) {
+    const record = this.tables.photos.find(p => p.id === id);
+    if (!record) return null;
+    this.tables.photos = this.tables.photos.filter(p => p !== record);
+    return record;
+  }
+}
+
+export class MemoryUpdateRepository implements UpdateRepository {
+  constructor(private tables: MemoryTables, private lookupUser: UserLookup) {}
+
+  private async toView({ suppressed, ...update }: MemoryUpdate): Promise<PostUpdate> {
+    const author = update.user_id ? await this.lookupUser(update.user_id) : null;
+    return { ...update, user_name: author?.name ?? null };
+  }
+
+  async add(update: NewUpdate, suppressed = false) {
+    const record = { ...update, id: this.tables.nextUpdateId++, suppressed, created_at: new Date().toISOString() };
+    this.tables.updates.push(record);
+    if (!suppressed && update.kind !== "comment") touch(this.tables, update.post_id);
+    return this.toView(record);
+  }
+
+  async list(postId: string, limit: number) {
+    const updates = this.tables.updates.filter(u => u.post_id === postId && !u.suppressed).reverse().slice(0, limit);
+    return Promise.all(updates.map(u => this.toView(u)));
+  }
+
+  async setSuppressed(userId: string, suppressed: boolean) {
+    let changed = 0;
+    for (const update of this.tables.updates) {
+      if (update.user_id !== userId || update.suppressed === suppressed) continue;
+      update.suppressed = suppressed;
+      if (update.kind !== "comment") touch(this.tables, update.post_id);
+      changed++;
+    }
+    return changed;
+  }
+}
+
+export class MemoryWatchZoneRepository implements WatchZoneRepository {
+  constructor(private tables: MemoryTables) {}
+
+  async list(userId: string) {
+    return this.tables.watchZones.filter(z => z.user_id === userId).map(z => ({ ...z }));
+  }
+
+  async count(userId: string) {
+    return this.tables.watchZones.filter(z => z.user_id === userId).length;
+  }
+
+  async create(zone: WatchZone) {
+    if (this.tables.watchZones.some(z => z.id === zone.id)) throw new Error(`Watch zone ${zone.id} already exists`);
+    this.tables.watchZones.push({ ...zone });
+  }
+
+  async delete(id: string, userId: string) {
+    const before = this.tables.watchZones.length;
+    this.tables.watchZones = this.tables.watchZones.filter(z => z.id !== id || z.user_id !== userId);
+    return this.tables.watchZones.length < before;
+  }
+
+  async watchingBox(box: BBox) {
+    const subscribed = new Set([...this.tables.pushSubscriptions.values()].map(s => s.user_id));
+    return this.tables.watchZones.filter(z => inBbox(z, box) && subscribed.has(z.user_id)).map(z => ({ ...z }));
+  }
+}
+
+export class MemoryPushRepository implements PushRepository {
+  constructor(private tables: MemoryTables) {}
+
+  async subscribe(subscription: NewPushSubscription) {
+    const existing = this.tables.pushSubscriptions.get(subscription.endpoint);
+    this.tables.pushSubscriptions.set(subscription.endpoint, {
+      ...subscription, created_at: existing?.created_at ?? new Date().toISOString(),
+    });
+  }
+
+  async unsubscribe(endpoint: string, userId: string) {
+    if (this.tables.pushSubscriptions.get(endpoint)?.user_id === userId) this.tables.pushSubscriptions.delete(endpoint);
+  }
+
+  async forget(endpoint: string) {
+    this.tables.pushSubscriptions.delete(endpoint);
+  }
+
+  async subscriptions(userId: string) {
+    return [...this.tables.pushSubscriptions.values()].filter(s => s.user_id === userId).map(s => ({ ...s }));
+  }
+
+  async recordDelivery(userId: string, postId: string, reason: NotifyReason) {
+    const key = `${userId}:${postId}:${reason}`;
+    if (this.tables.deliveries.has(key)) return false;
+    this.tables.deliveries.set(key, new Date().toISOString());
+    return true;
+  }
+
+  async pruneDeliveries(before: string) {
+    let pruned = 0;
+    for (const [key, sentAt] of this.tables.deliveries) {
+      if (sentAt < before) {
+        this.tables.deliveries.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+export class MemoryStorage implements Storage {
+  posts: MemoryPostRepository;
+  votes: MemoryVoteRepository;
+  reports: MemoryReportRepository;
+  photos: MemoryPhotoRepository;
+  updates: MemoryUpdateRepository;
+  watchZones: MemoryWatchZoneRepository;
+  push: MemoryPushRepository;
+
+  constructor(lookupUser: UserLookup = async () => null) {
+    const tables: MemoryTables = {
+      posts: new Map(), votes: new Map(), reports: [], nextReportId: 1, redirects: new Map(), photos: [],
+      updates: [], nextUpdateId: 1, tombstones: new Map(), watchZones: [], pushSubscriptions: new Map(), deliveries: new Map(),
+    };
+    this.posts = new MemoryPostRepository(tables, lookupUser);
+    this.votes = new MemoryVoteRepository(tables, lookupUser);
+    this.reports = new MemoryReportRepository(tables);
+    this.photos = new MemoryPhotoRepository(tables);
+    this.updates = new MemoryUpdateRepository(tables, lookupUser);
+    this.watchZones = new MemoryWatchZoneRepository(tables);
+    this.push = new MemoryPushRepository(tables);
+  }
+}
@@ -0,0 +1,547 @@
+import type {
+  MergeResult, NewPhoto, NewPost, NewPushSubscription, PostChanges, NewReport, NewUpdate, PhotoRecord, PhotoRepository, Post, PostPage,
+  PostRecord, PostRepository, PostUpdate, PushRepository, PushSubscriptionRecord, ReportRecord, ReportRepository, Storage,
+  UpdateRepository, UserVote, VoteCounts, VoteRepository, WatchZone, WatchZoneRepository,
+} from "./index";
+import type { NotifyReason } from "../watch-zones";
+import type { BBox } from "../geo";
+import { PostQuery, lifecycleChanged, pagePosts, searchBox, toPost } from "../posts";
+import { ENDING_SOON_MS, expiryCutoff } from "../../shared/lifecycle";
+import { sqliteTimestamp } from "../time";
+import { Trust, VoteEvidence, scoreVotes } from "../trust";
+import { baselineVotes } from "../reputation";
+
+// A column of the post's latest counted status update; comments do not change the status
+const currentStatus = (column: string) => `(
+  SELECT pu.${column} FROM post_updates pu
+  WHERE pu.post_id = p.id AND pu.kind != 'comment' AND pu.suppressed = 0
+  ORDER BY pu.id DESC LIMIT 1
+)`;
+
+const POST_SELECT = `
+  SELECT p.*,
+         u.name as user_name,
+         u.reputation_level as user_reputation,
+         (SELECT COUNT(*) FROM votes v WHERE v.post_id = p.id AND v.vote_type = 1 AND v.suppressed = 0) as true_votes,
+         (SELECT COUNT(*) FROM votes v WHERE v.post_id = p.id AND v.vote_type = 0 AND v.suppressed = 0) as false_votes,
+         ${currentStatus("kind")} as current_status,
+         ${currentStatus("body")} as current_status_note,
+         ${currentStatus("created_at")} as current_status_at
+  FROM posts p
+  LEFT JOIN users u ON p.user_id = u.id
+`;
+
+/**
+ * Trust for each post from its counted votes, with the voters' account type
+ * for reputation weighting and the author's reputation as a baseline.
+ */
+function trustByPost(db: any, postIds: string[], now = Date.now()): Map<string, Trust> {
+  const evidence = new Map<string, VoteEvidence[]>();
+  const baselines = new Map<string, number>();
+  if (postIds.length) {
+    const placeholders = postIds.map(() => "?").join(", ");
+    const rows = db.prepare(`
+      SELECT v.post_id, v.vote_type, v.voted_at, u.is_anonymous
+      FROM votes v LEFT JOIN users u ON u.id = v.user_id
+      WHERE v.suppressed = 0 AND v.post_id IN (${placeholders})
+    `).all(...postIds);
+    for (const row of rows) {
+      const votes = evidence.get(row.post_id) ?? [];
+      votes.push({ vote_type: row.vote_type, voted_at: row.voted_at, is_anonymous: !!row.is_anonymous });
+      evidence.set(row.post_id, votes);
+    }
+    const authors = db.prepare(`
+      SELECT p.id, u.reputation_level FROM posts p LEFT JOIN users u ON u.id = p.user_id WHERE p.id IN (${placeholders})
+    `).all(...postIds);
+    for (const row of authors) baselines.set(row.id, baselineVotes(row.reputation_level));
+  }
+  return new Map(postIds.map(id => [id, scoreVotes(evidence.get(id) ?? [], now, baselines.get(id))]));
+}
+
+function withTrust<T extends { id: string }>(db: any, posts: T[], now = Date.now()) {
+  const trust = trustByPost(db, posts.map(p => p.id), now);
+  return posts.map(p => ({ ...p, ...trust.get(p.id)! }));
+}
+
+const INSERT_POST = `
+  INSERT INTO posts (id, user_id, place_name, food_type, description, lat, lng, distribution_time, ends_at,
+                     schedule_id, prayer_rule, updated_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+// Column names `update` may write; PostChanges keys are interpolated into the SQL
+const EDITABLE_FIELDS = new Set([
+  "place_name", "food_type", "description", "lat", "lng", "distribution_time", "ends_at", "prayer_rule",
+]);
+
+function postParams(post: NewPost) {
+  return [
+    post.id, post.user_id, post.place_name, post.food_type, post.description, post.lat, post.lng,
+    post.distribution_time, post.ends_at, post.schedule_id, post.prayer_rule ? JSON.stringify(post.prayer_rule) : null,
+    new Date().toISOString(),
+  ];
+}
+
+// Marks posts as changed for delta sync; `where` selects them, e.g. "id = ?"
+function touchPosts(db: any, where: string, ...params: any[]) {
+  db.prepare(`UPDATE posts SET updated_at = ? WHERE ${where}`).run(new Date().toISOString(), ...params);
+}
+
+function addTombstones(db: any, ids: string[]) {
+  const insert = db.prepare("INSERT OR REPLACE INTO post_tombstones (post_id, removed_at) VALUES (?, ?)");
+  const removedAt = new Date().toISOString();
+  for (const id of ids) insert.run(id, removedAt);
+}
+
+export class SqlitePostRepository implements PostRepository {
+  constructor(private db: any) {}
+
+  async create(post: NewPost) {
+    this.db.prepare(INSERT_POST).run(...postParams(post));
+    return (await this.get(post.id))!;
+  }
+
+  async createMissing(posts: NewPost[]) {
+    const insert = this.db.prepare(INSERT_POST.replace("INSERT INTO", "INSERT OR IGNORE INTO"));
+    const merged = this.db.prepare("SELECT 1 FROM post_redirects WHERE old_id = ?");
+    let added = 0;
+    for (const post of posts) {
+      if (!merged.get(post.id)) added += insert.run(...postParams(post)).changes;
+    }
+    return added;
+  }
+
+  async get(id: string): Promise<Post | null> {
+    const row = this.db.prepare(`${POST_SELECT} WHERE p.id = ?`).get(id);
+    return row ? withTrust(this.db, [toPost(row)])[0] : null;
+  }
+
+  async query(q: PostQuery): Promise<PostPage> {
+    const now = Date.now();
+    const where = ["p.hidden_at IS NULL", q.archive ? "p.ends_at <= ?" : "p.ends_at > ?"];
+    const params: any[] = [expiryCutoff(now)];
+    let join = "";
+
+    // The R*Tree pre-filters by box; exact radius and viewport clipping happen in pagePosts
+    const box = searchBox(q);
+    if (box) {
+      join = "JOIN posts_rtree r ON r.id = p.rowid";
+      where.push("r.max_lat >= ? AND r.min_lat <= ? AND r.max_lng >= ? AND r.min_lng <= ?");
+      params.push(box.minLat, box.maxLat, box.minLng, box.maxLng);
+    }
+
+    if (q.foodTypes) {
+      where.push(`p.food_type IN (${q.foodTypes.map(() => "?").join(", ")})`);
+      params.push(...q.foodTypes);
+    }
+
+    let rows: any[];
+    if (q.near) {
+      rows = this.db.prepare(`${POST_SELECT} ${join} WHERE ${where.join(" AND ")}`).all(...params);
+    } else {
+      if (q.cursor) {
+        where.push("(p.created_at, p.id) < (?, ?)");
+        params.push(q.cursor[0], q.cursor[1]);
+      }
+      rows = this.db.prepare(`
+        ${POST_SELECT} ${join}
+        WHERE ${where.join(" AND ")}
+        ORDER BY p.created_at DESC, p.id DESC
+        LIMIT ?
+      `).all(...params, q.limit + 1);
+    }
+    const page = pagePosts(rows, q, now);
+    return { ...page, posts: withTrust(this.db, page.posts, now) };
+  }
+
+  async hide(id: string, reason: string | null) {
+    const now = new Date().toISOString();
+    return !!this.db.prepare(`
+      UPDATE posts SET hidden_at = ?, hidden_reason = ?, updated_at = ? WHERE id = ? AND hidden_at IS NULL
+    `).run(now, reason, now, id).changes;
+  }
+
+  async restore(id: string) {
+    return !!this.db.prepare(`
+      UPDATE posts SET hidden_at = NULL, hidden_reason = NULL, updated_at = ? WHERE id = ? AND hidden_at IS NOT NULL
+    `).run(new Date().toISOString(), id).changes;
+  }
+
+  async update(id: string, changes: PostChanges) {
+    const fields = Object.keys(changes).filter(field => EDITABLE_FIELDS.has(field)) as (keyof PostChanges)[];
+    const values = fields.map(field => (field === "prayer_rule" && changes.prayer_rule ? JSON.stringify(changes.prayer_rule) : changes[field]));
+    const assignments = [...fields.map(field => `${field} = ?`), "updated_at = ?"].join(", ");
+    return this.db.prepare(`UPDATE posts SET ${assignments} WHERE id = ?`).run(...values, new Date().toISOString(), id).changes > 0;
+  }
+
+  async delete(id: string): Promise<PostRecord | null> {
+    const row = this.db.prepare("SELECT * FROM posts WHERE id = ?").get(id);
+    if (!row) return null;
+    // Votes, reports, photo records and updates go with it through ON DELETE CASCADE
+    this.db.prepare("DELETE FROM posts WHERE id = ?").run(id);
+    addTombstones(this.db, [id]);
+    return { ...row, prayer_rule: row.prayer_rule ? JSON.parse(row.prayer_rule) : null };
+  }
+
+  async visibleIdsByUser(userId: string) {
+    return this.db.prepare("SELECT id FROM posts WHERE user_id = ? AND hidden_at IS NULL").all(userId)
+      .map((r: any) => r.id as string);
+  }
+
+  async byUser(userId: string, options: { includeHidden?: boolean; limit?: number } = {}) {
+    const rows: any[] = this.db.prepare(`
+      ${POST_SELECT}
+      WHERE p.user_id = ? ${options.includeHidden ? "" : "AND p.hidden_at IS NULL"}
+      ORDER BY p.created_at DESC, p.id DESC
+      LIMIT ?
+    `).all(userId, options.limit ?? -1);
+    return withTrust(this.db, rows.map(row => toPost(row)));
+  }
+
+  async driftedBetween(from: string, to: string) {
+    const fromMs = Date.parse(from);
+    const toMs = Date.parse(to);
+    const soon = (ms: number) => new Date(ms + ENDING_SOON_MS).toISOString();
+    const rows: any[] = this.db.prepare(`
+      ${POST_SELECT}
+      WHERE p.hidden_at IS NULL AND (
+        (p.distribution_time > ? AND p.distribution_time <= ?) OR
+        (p.ends_at > ? AND p.ends_at <= ?) OR
+        (p.ends_at > ? AND p.ends_at <= ?)
+      )
+    `).all(from, to, from, to, soon(fromMs), soon(toMs));
+    const drifted = rows.filter(row => lifecycleChanged(row, fromMs, toMs)).map(row => toPost(row, toMs));
+    return withTrust(this.db, drifted, toMs);
+  }
+
+  async trustChangedBetween(from: string, to: string) {
+    const toMs = Date.parse(to);
+    // Without a counted vote the trust is the author's baseline alone, which does not decay
+    const ids = this.db.prepare(`
+      SELECT DISTINCT p.id FROM posts p JOIN votes v ON v.post_id = p.id AND v.suppressed = 0
+      WHERE p.hidden_at IS NULL AND p.ends_at > ?
+    `).all(expiryCutoff(toMs)).map((r: any) => r.id as string);
+    const before = trustByPost(this.db, ids, Date.parse(from));
+    const after = trustByPost(this.db, ids, toMs);
+    return ids.filter(id => before.get(id)!.trust_level !== after.get(id)!.trust_level);
+  }
+
+  async touch(ids: string[]) {
+    if (ids.length) touchPosts(this.db, `id IN (${ids.map(() => "?").join(", ")})`, ...ids);
+  }
+
+  async hiddenIdsByUser(userId: string, reason: string) {
+    return this.db.prepare("SELECT id FROM posts WHERE user_id = ? AND hidden_at IS NOT NULL AND hidden_reason = ?")
+      .all(userId, reason).map((r: any) => r.id as string);
+  }
+
+  async recentByUser(userId: string, since: Date): Promise<PostRecord[]> {
+    return this.db.prepare("SELECT * FROM posts WHERE user_id = ? AND created_at >= ? ORDER BY created_at")
+      .all(userId, sqliteTimestamp(since))
+      .map((row: any) => ({ ...row, prayer_rule: row.prayer_rule ? JSON.parse(row.prayer_rule) : null }));
+  }
+
+  async merge(sourceId: string, targetId: string): Promise<MergeResult> {
+    return this.db.transaction(() => {
+      const row = this.db.prepare("SELECT * FROM posts WHERE id = ?").get(sourceId);
+      const total = this.db.prepare("SELECT COUNT(*) as n FROM votes WHERE post_id = ?").get(sourceId).n as number;
+      // UNIQUE(post_id, user_id) keeps the vote a user already cast on the target
+      const moved = this.db.prepare(`
+        INSERT OR IGNORE INTO votes (post_id, user_id, vote_type, voted_at, suppressed)
+        SELECT ?, user_id, vote_type, voted_at, suppressed FROM votes WHERE post_id = ?
+      `).run(targetId, sourceId).changes as number;
+      const movedReports = this.db.prepare("UPDATE reports SET post_id = ? WHERE post_id = ?").run(targetId, sourceId).changes as number;
+      this.db.prepare("UPDATE post_photos SET post_id = ? WHERE post_id = ?").run(targetId, sourceId);
+      this.db.prepare("UPDATE post_updates SET post_id = ? WHERE post_id = ?").run(targetId, sourceId);
+      // Earlier merges into the source now point at the target, so redirects never chain
+      this.db.prepare("UPDATE post_redirects SET new_id = ? WHERE new_id = ?").run(targetId, sourceId);
+      this.db.prepare("DELETE FROM posts WHERE id = ?").run(sourceId);
+      this.db.prepare("INSERT OR REPLACE INTO post_redirects (old_id, new_id, merged_at) VALUES (?, ?, ?)")
+        .run(sourceId, targetId, new Date().toISOString());
+      addTombstones(this.db, [sourceId]);
+      touchPosts(this.db, "id = ?", targetId);
+      return {
+        source: { ...row, prayer_rule: row.prayer_rule ? JSON.parse(row.prayer_rule) : null },
+        moved_votes: moved,
+        dropped_votes: total - moved,
+        moved_reports: movedReports,
+      };
+    })();
+  }
+
+  async resolveId(id: string) {
+    return (this.db.prepare("SELECT new_id FROM post_redirects WHERE old_id = ?").get(id)?.new_id as string) ?? id;
+  }
+
+  async expiredBetween(from: string, to: string): Promise<PostRecord[]> {
+    return this.db.prepare("SELECT * FROM posts WHERE hidden_at IS NULL AND ends_at > ? AND ends_at <= ?")
+      .all(from, to)
+      .map((row: any) => ({ ...row, prayer_rule: row.prayer_rule ? JSON.parse(row.prayer_rule) : null }));
+  }
+
+  async scheduledAfter(scheduleId: string, after: string): Promise<PostRecord[]> {
+    return this.db.prepare("SELECT * FROM posts WHERE schedule_id = ? AND distribution_time > ?")
+      .all(scheduleId, after)
+      .map((row: any) => ({ ...row, prayer_rule: row.prayer_rule ? JSON.parse(row.prayer_rule) : null }));
+  }
+
+  async deleteScheduledAfter(scheduleId: string, after: string) {
+    return this.db.transaction(() => {
+      const ids = this.db.prepare("SELECT id FROM posts WHERE schedule_id = ? AND distribution_time > ?")
+        .all(scheduleId, after).map((r: any) => r.id as string);
+      this.db.prepare("DELETE FROM posts WHERE schedule_id = ? AND distribution_time > ?").run(scheduleId, after);
+      addTombstones(this.db, ids);
+      return ids.length;
+    })();
+  }
+
+  async changedSince(since: string) {
+    const rows: any[] = this.db.prepare(`${POST_SELECT} WHERE p.updated_at >= ?`).all(since);
+    return withTrust(this.db, rows.map(row => toPost(row)));
+  }
+
+  async removedSince(since: string) {
+    return this.db.prepare("SELECT post_id FROM post_tombstones WHERE removed_at >= ?").all(since)
+      .map((r: any) => r.post_id as string);
+  }
+
+  async pruneRemoved(before: string) {
+    return this.db.prepare("DELETE FROM post_tombstones WHERE removed_at < ?").run(before).changes as number;
+  }
+}
+
+export class SqliteVoteRepository implements VoteRepository {
+  constructor(private db: any) {}
+
+  async cast(postId: string, userId: string, voteType: 0 | 1, suppressed = false) {
+    if (!this.db.prepare("SELECT 1 FROM posts WHERE id = ?").get(postId)) return null;
+    this.db.prepare(`
+      INSERT INTO votes (post_id, user_id, vote_type, voted_at, suppressed)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(post_id, user_id) DO UPDATE SET
+        vote_type = excluded.vote_type, voted_at = excluded.voted_at, suppressed = excluded.suppressed
+    `).run(postId, userId, voteType, new Date().toISOString(), suppressed ? 1 : 0);
+    if (!suppressed) touchPosts(this.db, "id = ?", postId);
+    return this.counts(postId);
+  }
+
+  async counts(postId: string): Promise<VoteCounts> {
+    const counts = this.db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM votes WHERE post_id = ? AND vote_type = 1 AND suppressed = 0) as true_votes,
+        (SELECT COUNT(*) FROM votes WHERE post_id = ? AND vote_type = 0 AND suppressed = 0) as false_votes
+    `).get(postId, postId);
+    return { ...counts, ...trustByPost(this.db, [postId]).get(postId)! };
+  }
+
+  async byUser(userId: string): Promise<UserVote[]> {
+    return this.db.prepare(`
+      SELECT v.post_id, p.user_id as author_id, v.vote_type,
+             (SELECT COUNT(*) FROM votes c WHERE c.post_id = v.post_id AND c.vote_type = 1 AND c.suppressed = 0) as true_votes,
+             (SELECT COUNT(*) FROM votes c WHERE c.post_id = v.post_id AND c.vote_type = 0 AND c.suppressed = 0) as false_votes
+      FROM votes v JOIN posts p ON p.id = v.post_id
+      WHERE v.user_id = ? AND v.suppressed = 0
+    `).all(userId);
+  }
+
+  async voters(postId: string) {
+    return this.db.prepare("SELECT user_id FROM votes WHERE post_id = ? AND suppressed = 0")
+      .all(postId).map((r: any) => r.user_id as string);
+  }
+
+  async recentVoters(postId: string, voteType: 0 | 1, since: Date) {
+    return this.db.prepare(`
+      SELECT user_id FROM votes WHERE post_id = ? AND vote_type = ? AND suppressed = 0 AND voted_at >= ?
+    `).all(postId, voteType, since.toISOString()).map((r: any) => r.user_id as string);
+  }
+
+  async setSuppressed(userId: string, suppressed: boolean) {
+    const changed = this.db.prepare("UPDATE votes SET suppressed = ? WHERE user_id = ? AND suppressed = ?")
+      .run(suppressed ? 1 : 0, userId, suppressed ? 0 : 1).changes as number;
+    if (changed) touchPosts(this.db, "id IN (SELECT post_id FROM votes WHERE user_id = ?)", userId);
+    return changed;
+  }
+}
+
+export class SqliteReportRepository implements ReportRepository {
+  constructor(private db: any) {}
+
+  async submit(report: NewReport) {
+    const existing = this.db.prepare(
+      "SELECT id FROM reports WHERE post_id = ? AND user_id = ? AND status = 'open'"
+    ).get(report.post_id, report.user_id);
+    if (existing) {
+      this.db.prepare("UPDATE reports SET category = ?, reason = ? WHERE id = ?")
+        .run(report.category, report.reason, existing.id);
+    } else {
+      this.db.prepare(`
+        INSERT INTO reports (post_id, user_id, category, reason, status, created_at)
+        VALUES (?, ?, ?, ?, 'open', CURRENT_TIMESTAMP)
+      `).run(report.post_id, report.user_id, report.category, report.reason);
+    }
+  }
+
+  async openReporterCount(postId: string) {
+    return this.db.prepare(
+      "SELECT COUNT(DISTINCT user_id) as reporters FROM reports WHERE post_id = ? AND status = 'open'"
+    ).get(postId).reporters as number;
+  }
+
+  async close(postId: string, status: "resolved" | "dismissed", actorId: string) {
+    return this.db.prepare(`
+      UPDATE reports SET status = ?, resolved_at = ?, resolved_by = ? WHERE post_id = ? AND status = 'open'
+    `).run(status, new Date().toISOString(), actorId, postId).changes as number;
+  }
+
+  async list(status: string): Promise<ReportRecord[]> {
+    return this.db.prepare("SELECT * FROM reports WHERE status = ? ORDER BY created_at DESC, id DESC").all(status);
+  }
+}
+
+export class SqlitePhotoRepository implements PhotoRepository {
+  constructor(private db: any) {}
+
+  async add(photo: NewPhoto): Promise<PhotoRecord> {
+    this.db.prepare(`
+      INSERT INTO post_photos (id, post_id, user_id, file_key, thumbnail_key, width, height)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(photo.id, photo.post_id, photo.user_id, photo.file_key, photo.thumbnail_key, photo.width, photo.height);
+    return this.db.prepare("SELECT * FROM post_photos WHERE id = ?").get(photo.id);
+  }
+
+  async list(postId: string): Promise<PhotoRecord[]> {
+    return this.db.prepare("SELECT * FROM post_photos WHERE post_id = ? ORDER BY created_at, rowid").all(postId);
+  }
+
+  async get(id: string): Promise<PhotoRecord | null> {
+    return this.db.prepare("SELECT * FROM post_photos WHERE id = ?").get(id) ?? null;
+  }
+
+  async delete(id: string) {
+    const row = await this.get(id);
+    if (row) this.db.prepare("DELETE FROM post_photos WHERE id = ?").run(id);
+    return row;
+  }
+}
+
+const UPDATE_SELECT = `
+  SELECT pu.id, pu.post_id, pu.user_id, pu.kind, pu.body, pu.created_at, u.name as user_name
+  FROM post_updates pu LEFT JOIN users u ON u.id = pu.user_id
+`;
+
+export class SqliteUpdateRepository implements UpdateRepository {
+  constructor(private db: any) {}
+
+  async add(update: NewUpdate, suppressed = false): Promise<PostUpdate> {
+    const { lastInsertRowid } = this.db.prepare(`
+      INSERT INTO post_updates (post_id, user_id, kind, body, suppressed, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(update.post_id, update.user_id, update.kind, update.body, suppressed ? 1 : 0, new Date().toISOString());
+    if (!suppressed && update.kind !== "comment") touchPosts(this.db, "id = ?", update.post_id);
+    return this.db.prepare(`${UPDATE_SELECT} WHERE pu.id = ?`).get(lastInsertRowid);
+  }
+
+  async list(postId: string, limit: number): Promise<PostUpdate[]> {
+    return this.db.prepare(`${UPDATE_SELECT} WHERE pu.post_id = ? AND pu.suppressed = 0 ORDER BY pu.id DESC LIMIT ?`)
+      .all(postId, limit);
+  }
+
+  async setSuppressed(userId: string, suppressed: boolean) {
+    const changed = this.db.prepare("UPDATE post_updates SET suppressed = ? WHERE user_id = ? AND suppressed = ?")
+      .run(suppressed ? 1 : 0, userId, suppressed ? 0 : 1).changes as number;
+    if (changed) {
+      touchPosts(this.db, "id IN (SELECT post_id FROM post_updates WHERE user_id = ? AND kind != 'comment')", userId);
+    }
+    return changed;
+  }
+}
+
+function toZone(row: any): WatchZone {
+  return { ...row, food_types: row.food_types ? JSON.parse(row.food_types) : null };
+}
+
+export class SqliteWatchZoneRepository implements WatchZoneRepository {
+  constructor(private db: any) {}
+
+  async list(userId: string): Promise<WatchZone[]> {
+    return this.db.prepare("SELECT * FROM watch_zones WHERE user_id = ? ORDER BY created_at").all(userId).map(toZone);
+  }
+
+  async count(userId: string) {
+    return this.db.prepare("SELECT COUNT(*) as n FROM watch_zones WHERE user_id = ?").get(userId).n as number;
+  }
+
+  async create(zone: WatchZone) {
+    this.db.prepare(`
+      INSERT INTO watch_zones (id, user_id, name, lat, lng, radius_m, food_types, notify_from, notify_until, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      zone.id, zone.user_id, zone.name, zone.lat, zone.lng, zone.radius_m,
+      zone.food_types ? JSON.stringify(zone.food_types) : null, zone.notify_from, zone.notify_until, zone.created_at
+    );
+  }
+
+  async delete(id: string, userId: string) {
+    return this.db.prepare("DELETE FROM watch_zones WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+  }
+
+  async watchingBox(box: BBox): Promise<WatchZone[]> {
+    return this.db.prepare(`
+      SELECT z.* FROM watch_zones z
+      WHERE z.lat BETWEEN ? AND ? AND z.lng BETWEEN ? AND ?
+        AND EXISTS (SELECT 1 FROM push_subscriptions s WHERE s.user_id = z.user_id)
+    `).all(box.minLat, box.maxLat, box.minLng, box.maxLng).map(toZone);
+  }
+}
+
+export class SqlitePushRepository implements PushRepository {
+  constructor(private db: any) {}
+
+  async subscribe(subscription: NewPushSubscription) {
+    this.db.prepare(`
+      INSERT INTO push_subscriptions (endpoint, user_id, p256dh, auth, created_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(endpoint) DO UPDATE SET user_id = excluded.user_id, p256dh = excluded.p256dh, auth = excluded.auth
+    `).run(subscription.endpoint, subscription.user_id, subscription.p256dh, subscription.auth, new Date().toISOString());
+  }
+
+  async unsubscribe(endpoint: string, userId: string) {
+    this.db.prepare("DELETE FROM push_subscriptions WHERE endpoint = ? AND user_id = ?").run(endpoint, userId);
+  }
+
+  async forget(endpoint: string) {
+    this.db.prepare("DELETE FROM push_subscriptions WHERE endpoint = ?").run(endpoint);
+  }
+
+  async subscriptions(userId: string): Promise<PushSubscriptionRecord[]> {
+    return this.db.prepare("SELECT * FROM push_subscriptions WHERE user_id = ?").all(userId);
+  }
+
+  async recordDelivery(userId: string, postId: string, reason: NotifyReason) {
+    return this.db.prepare(`
+      INSERT OR IGNORE INTO push_deliveries (user_id, post_id, reason, sent_at) VALUES (?, ?, ?, ?)
+    `).run(userId, postId, reason, new Date().toISOString()).changes > 0;
+  }
+
+  async pruneDeliveries(before: string) {
+    return this.db.prepare("DELETE FROM push_deliveries WHERE sent_at < ?").run(before).changes as number;
+  }
+}
+
+export class SqliteStorage implements Storage {
+  posts: SqlitePostRepository;
+  votes: SqliteVoteRepository;
+  reports: SqliteReportRepository;
+  photos: SqlitePhotoRepository;
+  updates: SqliteUpdateRepository;
+  watchZones: SqliteWatchZoneRepository;
+  push: SqlitePushRepository;
+
+  constructor(db: any) {
+    this.posts = new SqlitePostRepository(db);
+    this.votes = new SqliteVoteRepository(db);
+    this.reports = new SqliteReportRepository(db);
+    this.photos = new SqlitePhotoRepository(db);
+    this.updates = new SqliteUpdateRepository(db);
+    this.watchZones = new SqliteWatchZoneRepository(db);
+    this.push = new SqlitePushRepository(db);
+  }
+}
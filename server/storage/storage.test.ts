@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { openDatabase } from "../db";
+import { runMigrations } from "../migrate";
+import { NewPost, Storage } from "./index";
+import { SqliteStorage } from "./sqlite";
+import { MemoryStorage } from "./memory";
+
+// Both drivers must behave the same, so every case below runs against each of them
+const USERS = [
+  { id: "u_author", name: "Author" },
+  { id: "u_voter1", name: "Voter 1" },
+  { id: "u_voter2", name: "Voter 2" },
+];
+
+async function openSqlite() {
+  const db = await openDatabase(":memory:");
+  runMigrations(db);
+  for (const user of USERS) db.prepare("INSERT INTO users (id, name, is_anonymous) VALUES (?, ?, 0)").run(user.id, user.name);
+  return new SqliteStorage(db);
+}
+
+async function openMemory() {
+  return new MemoryStorage(async id => {
+    const user = USERS.find(u => u.id === id);
+    return user ? { name: user.name, is_anonymous: false, reputation_level: null } : null;
+  });
+}
+
+const DRIVERS: [string, () => Promise<Storage>][] = [["sqlite", openSqlite], ["memory", openMemory]];
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.now();
+
+// Lets a later write get a later timestamp
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+function newPost(id: string, lat: number, lng: number, startsInHours = 0): NewPost {
+  const start = NOW + startsInHours * HOUR;
+  return {
+    id,
+    user_id: "u_author",
+    place_name: `Mosque ${id}`,
+    food_type: "biriyani",
+    description: null,
+    lat,
+    lng,
+    distribution_time: new Date(start).toISOString(),
+    ends_at: new Date(start + 2 * HOUR).toISOString(),
+    schedule_id: null,
+    prayer_rule: null,
+  };
+}
+
+const DHAKA_BOX = { minLat: 23.7, minLng: 90.3, maxLat: 23.9, maxLng: 90.5 };
+
+function query(limit = 50, cursor: [string | number, string] | null = null) {
+  return { bbox: DHAKA_BOX, near: null, radius: 0, limit, cursor, foodTypes: null };
+}
+
+describe.each(DRIVERS)("%s storage", (_, open) => {
+  let storage: Storage;
+
+  beforeEach(async () => {
+    storage = await open();
+  });
+
+  it("creates posts with the author's name and no votes", async () => {
+    const created = await storage.posts.create(newPost("p1", 23.8, 90.4));
+    expect(created).toMatchObject({ id: "p1", user_name: "Author", true_votes: 0, false_votes: 0, status: "live" });
+    expect(await storage.posts.get("p1")).toEqual(created);
+    await expect(storage.posts.create(newPost("p1", 23.8, 90.4))).rejects.toThrow();
+  });
+
+  it("only inserts the missing posts", async () => {
+    await storage.posts.create(newPost("p1", 23.8, 90.4));
+    expect(await storage.posts.createMissing([newPost("p1", 23.8, 90.4), newPost("p2", 23.8, 90.4)])).toBe(1);
+  });
+
+  it("counts one vote per user, changed by voting again", async () => {
+    await storage.posts.create(newPost("p1", 23.8, 90.4));
+    await storage.votes.cast("p1", "u_voter1", 1);
+    await storage.votes.cast("p1", "u_voter2", 1);
+    expect(await storage.votes.cast("p1", "u_voter2", 0)).toMatchObject({ true_votes: 1, false_votes: 1 });
+    expect(await storage.votes.counts("p1")).toMatchObject({ true_votes: 1, false_votes: 1 });
+    expect(await storage.votes.cast("missing", "u_voter1", 1)).toBeNull();
+  });
+
+  it("lists the posts in the box, page by page", async () => {
+    await storage.posts.create(newPost("p1", 23.8, 90.4, 0));
+    await storage.posts.create(newPost("p2", 23.81, 90.41, 1));
+    await storage.posts.create(newPost("p3", 23.82, 90.42, 2));
+    await storage.posts.create(newPost("far", 22.3, 91.8));
+
+    const first = await storage.posts.query(query(2));
+    expect(first.posts).toHaveLength(2);
+    expect(first.nextCursor).not.toBeNull();
+    const rest = await storage.posts.query(query(2, JSON.parse(Buffer.from(first.nextCursor!, "base64url").toString())));
+    expect([...first.posts, ...rest.posts].map(p => p.id).sort()).toEqual(["p1", "p2", "p3"]);
+    expect(rest.nextCursor).toBeNull();
+  });
+
+  it("leaves hidden posts out of the feed until restored", async () => {
+    await storage.posts.create(newPost("p1", 23.8, 90.4));
+    expect(await storage.posts.hide("p1", "spam")).toBe(true);
+    expect(await storage.posts.hide("p1", "spam")).toBe(false);
+    expect((await storage.posts.query(query())).posts).toEqual([]);
+    expect(await storage.posts.get("p1")).toMatchObject({ hidden_reason: "spam" });
+
+    expect(await storage.posts.restore("p1")).toBe(true);
+    expect((await storage.posts.query(query())).posts.map(p => p.id)).toEqual(["p1"]);
+  });
+
+  it("deletes a post with its votes and reports", async () => {
+    await storage.posts.create(newPost("p1", 23.8, 90.4));
+    await storage.votes.cast("p1", "u_voter1", 1);
+    await storage.reports.submit({ post_id: "p1", user_id: "u_voter2", category: "fake", reason: null });
+
+    expect(await storage.posts.delete("p1")).toMatchObject({ id: "p1" });
+    expect(await storage.posts.get("p1")).toBeNull();
+    expect(await storage.votes.counts("p1")).toMatchObject({ true_votes: 0, false_votes: 0 });
+    expect(await storage.reports.openReporterCount("p1")).toBe(0);
+    expect(await storage.posts.delete("p1")).toBeNull();
+  });
+
+  it("keeps one open report per user and closes them together", async () => {
+    await storage.posts.create(newPost("p1", 23.8, 90.4));
+    await storage.reports.submit({ post_id: "p1", user_id: "u_voter1", category: "fake", reason: null });
+    await storage.reports.submit({ post_id: "p1", user_id: "u_voter1", category: "wrong_time", reason: "Over by 8pm" });
+    await storage.reports.submit({ post_id: "p1", user_id: "u_voter2", category: "fake", reason: null });
+    expect(await storage.reports.openReporterCount("p1")).toBe(2);
+
+    expect(await storage.reports.close("p1", "resolved", "u_author")).toBe(2);
+    expect(await storage.reports.openReporterCount("p1")).toBe(0);
+    const resolved = await storage.reports.list("resolved");
+    expect(resolved.map(r => [r.user_id, r.category, r.reason]).sort()).toEqual([
+      ["u_voter1", "wrong_time", "Over by 8pm"],
+      ["u_voter2", "fake", null],
+    ]);
+  });
+
+  it("reports the posts changed and removed since a cursor", async () => {
+    await storage.posts.create(newPost("p1", 23.8, 90.4));
+    await storage.posts.create(newPost("p2", 23.8, 90.4));
+    await storage.posts.create(newPost("p3", 23.8, 90.4));
+    await tick();
+    const since = new Date().toISOString();
+    await storage.votes.cast("p1", "u_voter1", 1);
+    await storage.posts.delete("p2");
+
+    expect((await storage.posts.changedSince(since)).map(p => p.id)).toEqual(["p1"]);
+    expect(await storage.posts.removedSince(since)).toEqual(["p2"]);
+    await storage.posts.touch(["p3"]);
+    expect((await storage.posts.changedSince(since)).map(p => p.id).sort()).toEqual(["p1", "p3"]);
+  });
+
+  it("finds the posts whose status the clock changed", async () => {
+    await storage.posts.create(newPost("starts", 23.8, 90.4, 1));
+    await storage.posts.create(newPost("ends", 23.8, 90.4, -1));
+    await storage.posts.create(newPost("hidden", 23.8, 90.4, 1));
+    await storage.posts.hide("hidden", null);
+    const at = (hours: number) => new Date(NOW + hours * HOUR).toISOString();
+
+    const drifted = async (from: number, to: number) =>
+      (await storage.posts.driftedBetween(at(from), at(to))).map(p => [p.id, p.status, p.ending_soon]).sort();
+    expect(await drifted(0, 0.25)).toEqual([]);
+    expect(await drifted(0, 0.75)).toEqual([["ends", "live", true]]);
+    expect(await drifted(0.75, 1.1)).toEqual([["ends", "ended", false], ["starts", "live", false]]);
+  });
+
+  it("finds the posts whose votes decayed across a trust level", async () => {
+    await storage.posts.create({ ...newPost("p1", 23.8, 90.4), ends_at: new Date(NOW + 24 * HOUR).toISOString() });
+    for (const user of USERS) await storage.votes.cast("p1", user.id, 1);
+    expect((await storage.posts.get("p1")).trust_level).toBe("confirmed");
+
+    const at = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString();
+    expect(await storage.posts.trustChangedBetween(at(0), at(0.1))).toEqual([]);
+    expect(await storage.posts.trustChangedBetween(at(0), at(18))).toEqual(["p1"]);
+  });
+});
+
+describe("sqlite and memory storage", () => {
+  // Timestamps are taken separately by each driver
+  const withoutTimes = ({ created_at, updated_at, hidden_at, ...post }: any) => post;
+
+  it("return the same posts for the same writes", async () => {
+    const results = await Promise.all(DRIVERS.map(async ([, open]) => {
+      const storage = await open();
+      await storage.posts.create(newPost("p1", 23.8, 90.4, 0));
+      await storage.posts.create(newPost("p2", 23.81, 90.41, 1));
+      await storage.posts.create(newPost("p3", 23.82, 90.42, -1.5));
+      await storage.votes.cast("p1", "u_voter1", 1);
+      await storage.votes.cast("p2", "u_voter1", 0);
+      await storage.votes.cast("p2", "u_voter2", 1);
+      await storage.posts.hide("p3", null);
+      return {
+        feed: (await storage.posts.query(query())).posts.map(withoutTimes),
+        hidden: withoutTimes(await storage.posts.get("p3")),
+      };
+    }));
+    expect(results[1]).toEqual(results[0]);
+  });
+});
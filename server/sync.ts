@@ -0,0 +1,107 @@
+import { createHash } from "crypto";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { Post, Storage } from "./storage";
+import { PostQuery, inArea, isListed } from "./posts";
+import { expiryCutoff } from "../shared/lifecycle";
+import { sqliteTimestamp } from "./time";
+import { ApiError, invalidField } from "./errors";
+import { isoTimestamp } from "./validation";
+
+/**
+ * Delta sync for the feed. A full `GET /api/posts` answers with an
+ * `X-Sync-Cursor`; sending it back as `since` returns only the posts created
+ * or changed after it and the ids to drop, with a new cursor. Both are far
+ * smaller than the full list on a phone that checks every few seconds.
+ */
+export interface PostDelta {
+  created: Post[];
+  changed: Post[];
+  /** Posts to drop: hidden, deleted, merged away or expired */
+  removed: string[];
+  cursor: string;
+}
+
+// Deletions are remembered this long; older cursors have to reload the full list
+const SYNC_WINDOW_MS = (Number(process.env.SYNC_WINDOW_HOURS) || 24) * 60 * 60 * 1000;
+// Past this many posts a delta saves nothing over the full list
+const MAX_DELTA_POSTS = 500;
+
+// Votes decaying across a trust level is checked this often rather than on every poll
+const TRUST_SWEEP_MS = 60 * 1000;
+
+let lastPrune = 0;
+let lastTrustSweep = 0;
+
+/** The cursor for a response built from data read after `now`. */
+export function syncCursor(now = Date.now()) {
+  return new Date(now).toISOString();
+}
+
+// The cursor is an ISO time, so anyone can also ask for "everything since 10 minutes ago"
+export const sinceSchema = z.object({
+  since: isoTimestamp.optional(),
+});
+
+export async function postDelta(storage: Storage, q: PostQuery, since: string, now = Date.now()): Promise<PostDelta> {
+  const sinceMs = Date.parse(since);
+  if (sinceMs > now) throw invalidField("since", "too_large", { max: syncCursor(now) });
+  if (now - sinceMs > SYNC_WINDOW_MS) throw new ApiError(410, "cursor_expired");
+  if (now - lastPrune > 60 * 60 * 1000) {
+    lastPrune = now;
+    await storage.posts.pruneRemoved(new Date(now - SYNC_WINDOW_MS).toISOString());
+  }
+  if (now - lastTrustSweep >= TRUST_SWEEP_MS) {
+    // Each sweep picks up where the last one on this instance stopped; the first covers this client's window
+    const from = lastTrustSweep ? syncCursor(lastTrustSweep) : since;
+    lastTrustSweep = now;
+    // Touched posts come back from changedSince below, and for every other cursor after it
+    await storage.posts.touch(await storage.posts.trustChangedBetween(from, syncCursor(now)));
+  }
+
+  // Taken before reading, and compared with >=, so a change made while this runs comes again next time
+  const cursor = syncCursor(now);
+  // created_at has whole seconds, so a post changed in the cursor's second may count as created; both are upserts
+  const createdAfter = sqliteTimestamp(new Date(sinceMs));
+  const delta: PostDelta = { created: [], changed: [], removed: [], cursor };
+  const removed = new Set(await storage.posts.removedSince(since));
+  const seen = new Set<string>();
+  for (const post of await storage.posts.changedSince(since)) {
+    seen.add(post.id);
+    if (!inArea(post, q)) continue;
+    if (!isListed(post, q, now)) removed.add(post.id);
+    else if (post.created_at >= createdAfter) delta.created.push(post);
+    else delta.changed.push(post);
+  }
+  // Expiry happens by the clock, not by a write, so it shows up in no updated_at
+  if (!q.archive) {
+    // So does a post going live, ending or starting to end soon
+    for (const post of await storage.posts.driftedBetween(since, cursor)) {
+      if (!seen.has(post.id) && inArea(post, q) && isListed(post, q, now)) delta.changed.push(post);
+    }
+    for (const post of await storage.posts.expiredBetween(expiryCutoff(sinceMs), expiryCutoff(now))) {
+      if (inArea(post, q)) removed.add(post.id);
+    }
+  }
+  if (delta.created.length + delta.changed.length > MAX_DELTA_POSTS) throw new ApiError(410, "cursor_expired");
+  delta.removed = [...removed];
+  return delta;
+}
+
+/**
+ * Sends `body` as JSON with a strong ETag, answering 304 when it matches the
+ * client's If-None-Match. `no-cache` makes browsers revalidate every time, so
+ * an unchanged list costs a few headers instead of the whole body.
+ *
+ * `trust_score` is left out of the hash: it decays between any two requests,
+ * so including it would change the tag every time. The trust level, status and
+ * ending-soon flag stay in: they change only at moments the client should see.
+ */
+export function sendWithEtag(req: Request, res: Response, body: unknown) {
+  const json = JSON.stringify(body);
+  const stable = JSON.stringify(body, (key, value) => (key === "trust_score" ? undefined : value));
+  res.set("ETag", `"${createHash("sha1").update(stable).digest("base64url")}"`);
+  res.set("Cache-Control", "no-cache");
+  if (req.fresh) return res.status(304).end();
+  res.type("json").send(json);
+}
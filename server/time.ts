@@ -0,0 +1,83 @@
+export const DEFAULT_TIMEZONE = "Asia/Dhaka";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Same shape as SQLite's CURRENT_TIMESTAMP, `YYYY-MM-DD HH:MM:SS` in UTC. */
+export function sqliteTimestamp(date = new Date()) {
+  return date.toISOString().replace("T", " ").slice(0, 19);
+}
+
+export function isValidTimezone(timeZone: string) {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+/** Offset of `timeZone` from UTC at `date`, in minutes (Dhaka is +360). */
+export function timezoneOffsetMinutes(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/** The calendar date (`YYYY-MM-DD`) at `date` in `timeZone`. */
+export function localDate(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/** The wall-clock time (`HH:MM`) at `date` in `timeZone`. */
+export function localTime(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  return `${String(p.hour).padStart(2, "0")}:${String(p.minute).padStart(2, "0")}`;
+}
+
+/** Converts a wall-clock date and `HH:MM` time in `timeZone` to a UTC instant. */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const guess = Date.UTC(y, m - 1, d, hh, mm);
+  // Re-check once so the answer is right on either side of a DST change
+  const first = guess - timezoneOffsetMinutes(new Date(guess), timeZone) * 60000;
+  return new Date(guess - timezoneOffsetMinutes(new Date(first), timeZone) * 60000);
+}
+
+export function addDays(date: string, days: number) {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/** Day of week for a `YYYY-MM-DD` date, 0 = Sunday. */
+export function weekday(date: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { UNVERIFIED, VoteEvidence, finalOutcome, scoreVotes, voteWeight, wilsonLowerBound } from "./trust";
+
+const NOW = Date.parse("2026-03-20T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+function votes(voteType: 0 | 1, count: number, hoursAgo = 0): VoteEvidence[] {
+  return Array.from({ length: count }, () => ({ vote_type: voteType, voted_at: new Date(NOW - hoursAgo * HOUR).toISOString() }));
+}
+
+describe("wilsonLowerBound", () => {
+  it("is zero without votes and grows with agreement", () => {
+    expect(wilsonLowerBound(0, 0)).toBe(0);
+    expect(wilsonLowerBound(1, 1)).toBeLessThan(wilsonLowerBound(3, 3));
+    expect(wilsonLowerBound(3, 3)).toBeLessThan(wilsonLowerBound(30, 30));
+    expect(wilsonLowerBound(30, 30)).toBeLessThan(1);
+  });
+
+  it("stays below the observed share", () => {
+    expect(wilsonLowerBound(8, 10)).toBeLessThan(0.8);
+    expect(wilsonLowerBound(80, 100)).toBeGreaterThan(wilsonLowerBound(8, 10));
+  });
+});
+
+describe("voteWeight", () => {
+  it("halves every half-life and counts undated votes as one half-life old", () => {
+    expect(voteWeight(votes(1, 1)[0], NOW)).toBe(1);
+    expect(voteWeight(votes(1, 1, 6)[0], NOW)).toBeCloseTo(0.5);
+    expect(voteWeight(votes(1, 1, 12)[0], NOW)).toBeCloseTo(0.25);
+    expect(voteWeight({ vote_type: 1, voted_at: null }, NOW)).toBe(0.5);
+  });
+});
+
+describe("scoreVotes", () => {
+  it("leaves a post unverified until enough people agree", () => {
+    expect(scoreVotes([], NOW)).toEqual(UNVERIFIED);
+    expect(scoreVotes(votes(1, 1), NOW).trust_level).toBe("unverified");
+    expect(scoreVotes(votes(1, 3), NOW).trust_level).toBe("confirmed");
+    expect(scoreVotes(votes(0, 3), NOW).trust_level).toBe("disputed");
+    expect(scoreVotes([...votes(1, 3), ...votes(0, 3)], NOW).trust_level).toBe("unverified");
+  });
+
+  it("lets a confirmation fade as its votes age", () => {
+    const confirmed = votes(1, 3, 1);
+    expect(scoreVotes(confirmed, NOW).trust_level).toBe("confirmed");
+    expect(scoreVotes(confirmed, NOW + 6 * HOUR).trust_level).toBe("unverified");
+    expect(scoreVotes(confirmed, NOW + 6 * HOUR).trust_score).toBeLessThan(scoreVotes(confirmed, NOW).trust_score);
+  });
+
+  it("starts a trusted author's post higher", () => {
+    expect(scoreVotes(votes(1, 1), NOW, 2).trust_score).toBeGreaterThan(scoreVotes(votes(1, 1), NOW).trust_score);
+    expect(scoreVotes([], NOW, 3).trust_level).toBe("confirmed");
+  });
+});
+
+describe("finalOutcome", () => {
+  it("judges the raw counts without decay", () => {
+    expect(finalOutcome(3, 0)).toBe("confirmed");
+    expect(finalOutcome(0, 3)).toBe("disputed");
+    expect(finalOutcome(1, 0)).toBe("undecided");
+    expect(finalOutcome(4, 4)).toBe("undecided");
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * How far a spot can be trusted, from its votes. A plain "true / total" ratio
+ * calls a spot confirmed after a single vote, so the score is instead the
+ * lower bound of the Wilson interval for the share of "true" votes: it stays
+ * low until enough people agree. Recent votes count more than stale ones,
+ * since a distribution that was real yesterday says little about today.
+ */
+
+export type TrustLevel = "unverified" | "confirmed" | "disputed";
+
+export interface Trust {
+  /** 0-1; the share of "true" votes we are fairly sure of */
+  trust_score: number;
+  trust_level: TrustLevel;
+}
+
+export interface VoteEvidence {
+  vote_type: 0 | 1;
+  /** ISO time; null for votes cast before vote times were kept */
+  voted_at: string | null;
+  /** The voter has not verified an email */
+  is_anonymous?: boolean;
+}
+
+// One-sided 95% confidence
+const Z = 1.645;
+// A lower bound above this (for "true", or for "false") decides the level. Three unanimous
+// votes reach it and, with the default half-life, hold it for about two hours.
+const LEVEL_THRESHOLD = 0.45;
+// A vote's weight halves every this many hours
+const HALF_LIFE_HOURS = Number(process.env.TRUST_HALF_LIFE_HOURS) || 6;
+// Votes without a time count as if they were one half-life old
+const UNDATED_WEIGHT = 0.5;
+// With TRUST_WEIGHT_BY_REPUTATION=true, votes from anonymous devices count this much
+const ANONYMOUS_WEIGHT = 0.5;
+
+const weighByReputation = process.env.TRUST_WEIGHT_BY_REPUTATION === "true";
+
+export const UNVERIFIED: Trust = { trust_score: 0, trust_level: "unverified" };
+
+export function voteWeight(vote: VoteEvidence, now = Date.now()) {
+  const ageHours = vote.voted_at ? Math.max(0, now - new Date(vote.voted_at).getTime()) / 3_600_000 : null;
+  const decay = ageHours === null ? UNDATED_WEIGHT : 0.5 ** (ageHours / HALF_LIFE_HOURS);
+  return decay * (weighByReputation && vote.is_anonymous ? ANONYMOUS_WEIGHT : 1);
+}
+
+/** Lower bound of the Wilson score interval; `total` may be fractional for weighted votes. */
+export function wilsonLowerBound(positive: number, total: number, z = Z) {
+  if (total <= 0) return 0;
+  const p = positive / total;
+  const z2 = z * z;
+  const centre = p + z2 / (2 * total);
+  const margin = z * Math.sqrt((p * (1 - p) + z2 / (4 * total)) / total);
+  return Math.max(0, (centre - margin) / (1 + z2 / total));
+}
+
+/**
+ * `baseline` adds that many undecaying "true" votes up front, so posts from
+ * authors with a good track record start out more trusted.
+ */
+export function scoreVotes(votes: VoteEvidence[], now = Date.now(), baseline = 0): Trust {
+  let positive = baseline;
+  let total = baseline;
+  for (const vote of votes) {
+    const weight = voteWeight(vote, now);
+    total += weight;
+    if (vote.vote_type === 1) positive += weight;
+  }
+  if (total <= 0) return UNVERIFIED;
+
+  const trust_score = wilsonLowerBound(positive, total);
+  let trust_level: TrustLevel = "unverified";
+  if (trust_score >= LEVEL_THRESHOLD) trust_level = "confirmed";
+  else if (wilsonLowerBound(total - positive, total) >= LEVEL_THRESHOLD) trust_level = "disputed";
+  return { trust_score: Math.round(trust_score * 1000) / 1000, trust_level };
+}
+
+export type Outcome = "confirmed" | "disputed" | "undecided";
+
+/**
+ * What the community concluded about a post from its raw vote counts. Unlike
+ * the trust score this does not fade, so it can be used to judge a post long
+ * after it ended.
+ */
+export function finalOutcome(trueVotes: number, falseVotes: number): Outcome {
+  const total = trueVotes + falseVotes;
+  if (wilsonLowerBound(trueVotes, total) >= LEVEL_THRESHOLD) return "confirmed";
+  if (wilsonLowerBound(falseVotes, total) >= LEVEL_THRESHOLD) return "disputed";
+  return "undecided";
+}
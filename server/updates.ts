@@ -0,0 +1,81 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { getDb } from "./db";
+import { requireUser } from "./auth";
+import { Post, PostUpdate, getStorage } from "./storage";
+import { isShadowBanned } from "./spam";
+import { rateLimit } from "./rate-limit";
+import { publish } from "./realtime";
+import { asyncRoute, invalidField, notFound } from "./errors";
+import { optionalText, queryNumber, validate } from "./validation";
+
+/**
+ * What people on the spot report after the post went up. The latest status
+ * becomes the post's `current_status`; comments only add to the thread.
+ */
+export const SPOT_STATUSES = ["available", "running_low", "finished", "moved"] as const;
+export type SpotStatus = typeof SPOT_STATUSES[number];
+export type UpdateKind = SpotStatus | "comment";
+
+const MAX_BODY_LENGTH = 280;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Both say nothing useful without text: a comment, and where the distribution moved to
+const NEEDS_BODY: UpdateKind[] = ["comment", "moved"];
+
+const updateSchema = z.object({
+  kind: z.enum([...SPOT_STATUSES, "comment"]),
+  body: optionalText(MAX_BODY_LENGTH),
+});
+
+const listSchema = z.object({
+  limit: queryNumber(z.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT)),
+});
+
+/** Sent as the `post:updated` event and as the response to a new update */
+export interface UpdateEvent extends Pick<Post, "current_status" | "current_status_note" | "current_status_at"> {
+  post_id: string;
+  update: PostUpdate;
+}
+
+function statusOf(post: Post, update: PostUpdate): UpdateEvent {
+  if (update.kind === "comment") {
+    const { current_status, current_status_note, current_status_at } = post;
+    return { post_id: post.id, update, current_status, current_status_note, current_status_at };
+  }
+  return {
+    post_id: post.id,
+    update,
+    current_status: update.kind,
+    current_status_note: update.body,
+    current_status_at: update.created_at,
+  };
+}
+
+export function registerUpdateRoutes(app: Express) {
+  app.get("/api/posts/:id/updates", asyncRoute(async (req, res) => {
+    const { limit } = validate(listSchema, req.query);
+    const storage = await getStorage();
+    const post = await storage.posts.get(await storage.posts.resolveId(req.params.id));
+    if (!post || post.hidden_at) throw notFound("Post");
+    res.json(await storage.updates.list(post.id, limit));
+  }));
+
+  app.post("/api/posts/:id/updates", requireUser, rateLimit("updates"), asyncRoute(async (req, res) => {
+    const { kind, body } = validate(updateSchema, req.body);
+    if (NEEDS_BODY.includes(kind) && !body) throw invalidField("body", "required");
+
+    const database = await getDb();
+    const storage = await getStorage();
+    const post = await storage.posts.get(await storage.posts.resolveId(req.params.id));
+    if (!post || (post.hidden_at && post.user_id !== req.user!.id)) throw notFound("Post");
+
+    // Like votes, a shadow-banned user's update is stored but left out of the thread and the status
+    const suppressed = isShadowBanned(database, req.user!.id);
+    const update = await storage.updates.add({ post_id: post.id, user_id: req.user!.id, kind, body }, suppressed);
+    const event = statusOf(post, update);
+    if (!suppressed && !post.hidden_at) await publish("post:updated", event, post);
+    res.status(201).json(event);
+  }));
+}
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { ApiError, FieldError, fieldError } from "./errors";
+
+/** Latitude in degrees; query strings are converted to numbers first. */
+export const latitude = z.number().min(-90).max(90);
+export const longitude = z.number().min(-180).max(180);
+
+/** Any timestamp `new Date()` understands that carries a date, normalised to ISO 8601 UTC. */
+export const isoTimestamp = z.string().refine(v => /^\d{4}-\d{2}-\d{2}/.test(v) && !isNaN(new Date(v).getTime()), {
+  params: { code: "invalid_timestamp" },
+}).transform(v => new Date(v).toISOString());
+
+/** A calendar date, `YYYY-MM-DD`; dates that do not exist, such as 2024-02-31, are rejected. */
+export const localDateString = z.string().refine(v => {
+  const date = new Date(`${v}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === v;
+}, {
+  params: { code: "invalid_date" },
+});
+
+/** Trimmed text that must not be empty. */
+export const requiredText = (max: number) => z.string().trim().min(1).max(max);
+
+/** Trimmed text where blank and missing both become null. */
+export const optionalText = (max: number) => z.string().trim().max(max).nullish()
+  .transform(v => v || null);
+
+/** Number from a query string; blank counts as missing. */
+export const queryNumber = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(v => (v === undefined || v === "" ? undefined : Number(v)), schema);
+
+function toFieldError(issue: z.ZodIssue): FieldError {
+  switch (issue.code) {
+    case "invalid_type":
+      if (issue.received === "undefined" || issue.received === "null") return fieldError("required");
+      return fieldError("invalid_type");
+    case "too_small":
+      if (issue.type === "string") {
+        return issue.minimum === 1 ? fieldError("required") : fieldError("too_short", { min: Number(issue.minimum) });
+      }
+      if (issue.type === "array" && issue.minimum === 1) return fieldError("required");
+      return fieldError("too_small", { min: Number(issue.minimum) });
+    case "too_big":
+      if (issue.type === "string") return fieldError("too_long", { max: Number(issue.maximum) });
+      return fieldError("too_large", { max: Number(issue.maximum) });
+    case "invalid_enum_value":
+      return fieldError("invalid_choice", { choices: issue.options });
+    case "invalid_literal":
+    case "invalid_union":
+      return fieldError("invalid_choice");
+    case "invalid_string":
+      return fieldError(issue.validation === "datetime" ? "invalid_timestamp" : "invalid_format");
+    case "custom":
+      return fieldError(issue.params?.code ?? "invalid_format", issue.params ?? {});
+    default:
+      return fieldError("invalid_format");
+  }
+}
+
+/** Parses `data` with `schema`, or throws a 400 listing the first problem with each field. */
+export function validate<T extends z.ZodTypeAny>(schema: T, data: unknown): z.output<T> {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const fields: Record<string, FieldError> = {};
+  for (const issue of result.error.issues) {
+    const path = issue.path.join(".") || "body";
+    fields[path] ??= toFieldError(issue);
+  }
+  throw new ApiError(400, "validation_failed", undefined, fields);
+}
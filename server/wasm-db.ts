@@ -0,0 +1,103 @@
+/**
+ * An in-memory SQLite database from sql.js (SQLite compiled to WebAssembly),
+ * wrapped in the part of better-sqlite3's API the server uses: `prepare` with
+ * `run`/`get`/`all`, `exec`, `pragma`, `transaction` and `close`. It stands in
+ * when the native better-sqlite3 module cannot be loaded, so the server still
+ * runs, e.g. with `STORAGE_DRIVER=memory`, on a host it was not built for.
+ *
+ * sql.js is built without the R*Tree module, so R*Tree tables are created as
+ * plain tables with the same columns: the same queries work, only unindexed.
+ */
+
+const RTREE_TABLE = /CREATE VIRTUAL TABLE (IF NOT EXISTS )?(\w+) USING rtree\(([^)]*)\)/gi;
+
+function withoutRtree(sql: string) {
+  return sql.replace(RTREE_TABLE, (_, ifNotExists = "", name: string, columns: string) => {
+    const [id, ...bounds] = columns.split(",").map(c => c.trim());
+    return `CREATE TABLE ${ifNotExists}${name} (${[`${id} INTEGER PRIMARY KEY`, ...bounds.map(c => `${c} REAL`)].join(", ")})`;
+  });
+}
+
+// better-sqlite3 binds undefined as NULL too, in the order given
+function toParams(params: unknown[]) {
+  return params.map(p => (p === undefined ? null : p));
+}
+
+class WasmStatement {
+  constructor(private db: WasmDatabase, private sql: string) {}
+
+  run(...params: unknown[]) {
+    const raw = this.db.raw;
+    raw.run(this.sql, toParams(params));
+    const changes = raw.getRowsModified();
+    const lastInsertRowid = raw.exec("SELECT last_insert_rowid()")[0].values[0][0];
+    return { changes, lastInsertRowid };
+  }
+
+  get(...params: unknown[]) {
+    return this.all(...params)[0];
+  }
+
+  all(...params: unknown[]) {
+    const statement = this.db.raw.prepare(this.sql);
+    try {
+      statement.bind(toParams(params));
+      const rows: any[] = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+}
+
+export class WasmDatabase {
+  private depth = 0;
+
+  constructor(public raw: any) {}
+
+  prepare(sql: string) {
+    return new WasmStatement(this, withoutRtree(sql));
+  }
+
+  exec(sql: string) {
+    this.raw.exec(withoutRtree(sql));
+    return this;
+  }
+
+  pragma(source: string) {
+    return this.prepare(`PRAGMA ${source}`).all();
+  }
+
+  /** Like better-sqlite3, nested transactions become savepoints. */
+  transaction<T extends (...args: any[]) => any>(fn: T) {
+    return (...args: Parameters<T>): ReturnType<T> => {
+      const savepoint = `tx_${this.depth}`;
+      this.raw.run(this.depth ? `SAVEPOINT ${savepoint}` : "BEGIN");
+      this.depth++;
+      try {
+        const result = fn(...args);
+        this.depth--;
+        this.raw.run(this.depth ? `RELEASE ${savepoint}` : "COMMIT");
+        return result;
+      } catch (err) {
+        this.depth--;
+        this.raw.run(this.depth ? `ROLLBACK TO ${savepoint}` : "ROLLBACK");
+        if (this.depth) this.raw.run(`RELEASE ${savepoint}`);
+        throw err;
+      }
+    };
+  }
+
+  close() {
+    this.raw.close();
+  }
+}
+
+export async function openWasmDatabase() {
+  const { default: initSqlJs } = await import("sql.js");
+  const SQL = await initSqlJs();
+  const database = new WasmDatabase(new SQL.Database());
+  database.pragma("foreign_keys = ON");
+  return database;
+}
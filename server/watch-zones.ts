@@ -0,0 +1,172 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { randomBytes } from "crypto";
+import { getDb } from "./db";
+import { requireUser } from "./auth";
+import { Post, WatchZone, getStorage } from "./storage";
+import { isFoodType, listFoodTypes } from "./food-types";
+import { haversineMeters, radiusBbox } from "./geo";
+import { DEFAULT_TIMEZONE, localTime } from "./time";
+import { PushMessage, getPushTransport, vapidPublicKey } from "./push";
+import { ApiError, asyncRoute, invalidField, notFound } from "./errors";
+import { latitude, longitude, requiredText, validate } from "./validation";
+
+/**
+ * Watch zones: circles such as home or campus that a user wants to hear
+ * about. A post created inside one, or confirmed by voters later, is sent to
+ * the user's devices as a Web Push notification.
+ */
+export type NotifyReason = "created" | "confirmed";
+
+const MIN_RADIUS_M = 100;
+const MAX_RADIUS_M = 20000;
+const MAX_ZONES_PER_USER = 10;
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const localHour = z.string().regex(TIME_PATTERN).nullish().transform(v => v ?? null);
+
+const zoneSchema = z.object({
+  name: requiredText(60),
+  lat: latitude,
+  lng: longitude,
+  radius_m: z.number().int().min(MIN_RADIUS_M).max(MAX_RADIUS_M),
+  food_types: z.array(z.string()).max(20).nullish().transform(v => v?.length ? [...new Set(v)] : null),
+  notify_from: localHour,
+  notify_until: localHour,
+});
+
+const subscriptionSchema = z.object({
+  endpoint: z.string().url().max(1000),
+  keys: z.object({
+    p256dh: requiredText(200),
+    auth: requiredText(100),
+  }),
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().max(1000),
+});
+
+function inHours(zone: WatchZone, time: string) {
+  if (!zone.notify_from || !zone.notify_until) return true;
+  return zone.notify_from <= zone.notify_until
+    ? time >= zone.notify_from && time < zone.notify_until
+    // e.g. 18:00-02:00
+    : time >= zone.notify_from || time < zone.notify_until;
+}
+
+/** Zones the post falls in whose food types and hours match now. */
+export function matchingZones(zones: WatchZone[], post: Pick<Post, "lat" | "lng" | "food_type">, now = new Date()) {
+  const time = localTime(now, DEFAULT_TIMEZONE);
+  return zones.filter(zone =>
+    haversineMeters(zone, post) <= zone.radius_m &&
+    (!zone.food_types || (post.food_type !== null && zone.food_types.includes(post.food_type))) &&
+    inHours(zone, time)
+  );
+}
+
+function messageFor(post: Post, reason: NotifyReason, zone: WatchZone): PushMessage {
+  return {
+    title: reason === "created" ? `${zone.name}: নতুন স্পট` : `${zone.name}: স্পট নিশ্চিত হয়েছে`,
+    body: post.place_name,
+    url: `/spot/${encodeURIComponent(post.id)}`,
+    tag: `post-${post.id}`,
+  };
+}
+
+/**
+ * Notifies everyone watching the post's location, except its author. Each
+ * user hears about a post once per reason, on all of their devices;
+ * subscriptions the push service reports as gone are forgotten.
+ */
+export async function notifyWatchers(post: Post, reason: NotifyReason) {
+  const storage = await getStorage();
+  // Posts are long over by then, so their delivery records are no longer needed
+  await storage.push.pruneDeliveries(new Date(Date.now() - DELIVERY_RETENTION_MS).toISOString());
+  // The bounding box is wider than any zone, so this only narrows the candidates
+  const candidates = await storage.watchZones.watchingBox(radiusBbox(post, MAX_RADIUS_M));
+
+  const zoneByUser = new Map<string, WatchZone>();
+  for (const zone of matchingZones(candidates, post)) {
+    if (zone.user_id !== post.user_id && !zoneByUser.has(zone.user_id)) zoneByUser.set(zone.user_id, zone);
+  }
+
+  const transport = getPushTransport();
+  for (const [userId, zone] of zoneByUser) {
+    if (!await storage.push.recordDelivery(userId, post.id, reason)) continue;
+
+    const message = messageFor(post, reason, zone);
+    for (const row of await storage.push.subscriptions(userId)) {
+      const subscription = { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } };
+      try {
+        if (!await transport.send(subscription, message)) await storage.push.forget(row.endpoint);
+      } catch (err) {
+        console.error('Push failed:', err);
+      }
+    }
+  }
+}
+
+export function registerWatchZoneRoutes(app: Express) {
+  app.get("/api/push/public-key", (req, res) => {
+    res.json({ public_key: vapidPublicKey() });
+  });
+
+  // The same browser endpoint moves to whoever subscribed with it last, e.g. after logging in
+  app.post("/api/push/subscriptions", requireUser, asyncRoute(async (req, res) => {
+    const { endpoint, keys } = validate(subscriptionSchema, req.body);
+    const storage = await getStorage();
+    await storage.push.subscribe({ endpoint, user_id: req.user!.id, p256dh: keys.p256dh, auth: keys.auth });
+    res.status(201).json({ success: true });
+  }));
+
+  app.delete("/api/push/subscriptions", requireUser, asyncRoute(async (req, res) => {
+    const { endpoint } = validate(unsubscribeSchema, req.body);
+    const storage = await getStorage();
+    await storage.push.unsubscribe(endpoint, req.user!.id);
+    res.json({ success: true });
+  }));
+
+  app.get("/api/watch-zones", requireUser, asyncRoute(async (req, res) => {
+    const storage = await getStorage();
+    res.json(await storage.watchZones.list(req.user!.id));
+  }));
+
+  app.post("/api/watch-zones", requireUser, asyncRoute(async (req, res) => {
+    const input = validate(zoneSchema, req.body);
+    const database = await getDb();
+    const unknown = input.food_types?.find(id => !isFoodType(database, id));
+    if (unknown) {
+      throw invalidField("food_types", "invalid_choice", { choices: listFoodTypes(database).map(f => f.id) });
+    }
+    if (!input.notify_from !== !input.notify_until) {
+      throw invalidField(input.notify_from ? "notify_until" : "notify_from", "required");
+    }
+    const storage = await getStorage();
+    if (await storage.watchZones.count(req.user!.id) >= MAX_ZONES_PER_USER) {
+      throw new ApiError(409, "conflict", `At most ${MAX_ZONES_PER_USER} watch zones are allowed`);
+    }
+
+    const zone: WatchZone = {
+      id: 'zone_' + randomBytes(6).toString("hex"),
+      user_id: req.user!.id,
+      name: input.name,
+      lat: input.lat,
+      lng: input.lng,
+      radius_m: input.radius_m,
+      food_types: input.food_types,
+      notify_from: input.notify_from,
+      notify_until: input.notify_until,
+      created_at: new Date().toISOString(),
+    };
+    await storage.watchZones.create(zone);
+    res.status(201).json(zone);
+  }));
+
+  app.delete("/api/watch-zones/:id", requireUser, asyncRoute(async (req, res) => {
+    const storage = await getStorage();
+    if (!await storage.watchZones.delete(req.params.id, req.user!.id)) throw notFound("Watch zone");
+    res.json({ success: true });
+  }));
+}
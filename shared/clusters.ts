@@ -0,0 +1,30 @@
+type TrustLevel = "unverified" | "confirmed" | "disputed";
+
+export type TrustCounts = Record<TrustLevel, number>;
+
+/** Clients ask for server clusters up to this zoom and cluster posts themselves above it. */
+export const MAX_SERVER_CLUSTER_ZOOM = 12;
+
+// Pixel radius and the zoom past which nothing clusters; the same on both sides, so clusters do not jump at the handover
+export const CLUSTER_OPTIONS = { radius: 60, maxZoom: 16 };
+
+const TRUST_ORDER: TrustLevel[] = ["confirmed", "unverified", "disputed"];
+
+export const countOne = (level: TrustLevel): TrustCounts => ({ confirmed: 0, unverified: 0, disputed: 0, [level]: 1 });
+
+/**
+ * Supercluster `map` and `reduce` that count each group's posts per trust
+ * level. The counts stay flat: supercluster copies cluster properties
+ * shallowly, so a nested object would be shared.
+ */
+export const TRUST_COUNTING = {
+  map: ({ post }: { post: { trust_level: TrustLevel } }) => countOne(post.trust_level),
+  reduce: (acc: TrustCounts, counts: TrustCounts) => {
+    for (const level of TRUST_ORDER) acc[level] += counts[level];
+  },
+};
+
+/** The most common trust level, which colours a cluster's badge; ties go to the more trusted level. */
+export function dominantTrust(trust: TrustCounts) {
+  return TRUST_ORDER.reduce((best, level) => (trust[level] > trust[best] ? level : best));
+}
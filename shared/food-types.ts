@@ -0,0 +1,17 @@
+export interface FoodType {
+  id: string;
+  label_bn: string;
+  label_en: string;
+  /** Hex colour used for badges and markers */
+  color: string;
+  sort_order: number;
+}
+
+// Matches the rows seeded by migration 008. The server serves these when the database is unavailable,
+// and the client shows them until /api/food-types answers.
+export const DEFAULT_FOOD_TYPES: FoodType[] = [
+  { id: "biriyani", label_bn: "বিরিয়ানি", label_en: "Biryani", color: "#F97316", sort_order: 10 },
+  { id: "teheri", label_bn: "তেহারি", label_en: "Tehari", color: "#F59E0B", sort_order: 20 },
+  { id: "khicuri", label_bn: "খিচুড়ি", label_en: "Khichuri", color: "#CA8A04", sort_order: 30 },
+  { id: "normal", label_bn: "সাধারণ খাবার", label_en: "Regular meal", color: "#78716C", sort_order: 40 },
+];
@@ -0,0 +1,34 @@
+export type PostStatus = "upcoming" | "live" | "ended" | "expired";
+
+export const DEFAULT_DURATION_MINUTES = 180;
+export const MAX_DURATION_MINUTES = 24 * 60;
+// Ended spots stay on the map this long (marked as ended) before moving to the archive
+export const EXPIRY_GRACE_MS = 6 * 60 * 60 * 1000;
+// Live spots this close to their end are flagged so the map can warn about them
+export const ENDING_SOON_MS = 30 * 60 * 1000;
+
+export function defaultEndsAt(distributionTime: string, durationMinutes = DEFAULT_DURATION_MINUTES) {
+  return new Date(new Date(distributionTime).getTime() + durationMinutes * 60 * 1000).toISOString();
+}
+
+/** Posts whose `ends_at` is before this moment are expired. */
+export function expiryCutoff(now = Date.now()) {
+  return new Date(now - EXPIRY_GRACE_MS).toISOString();
+}
+
+export function postStatus(post: { distribution_time: string; ends_at?: string | null }, now = Date.now()): PostStatus {
+  const start = new Date(post.distribution_time).getTime();
+  const end = post.ends_at ? new Date(post.ends_at).getTime() : new Date(defaultEndsAt(post.distribution_time)).getTime();
+  if (now < start) return "upcoming";
+  if (now < end) return "live";
+  if (now < end + EXPIRY_GRACE_MS) return "ended";
+  return "expired";
+}
+
+/** Adds the computed `status` and `ending_soon` fields to a post row. */
+export function withLifecycle<T extends { distribution_time: string; ends_at?: string | null }>(post: T, now = Date.now()) {
+  const ends_at = post.ends_at || defaultEndsAt(post.distribution_time);
+  const status = postStatus({ ...post, ends_at }, now);
+  const ending_soon = status === "live" && new Date(ends_at).getTime() - now <= ENDING_SOON_MS;
+  return { ...post, ends_at, status, ending_soon };
+}
@@ -1,158 +1,259 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import { io, Socket } from 'socket.io-client';
-import { 
-  MapPin, 
-  Plus, 
-  List, 
-  CheckCircle2, 
-  XCircle, 
-  AlertTriangle, 
-  Search, 
-  Navigation,
-  Clock,
-  Camera,
-  User as UserIcon,
-  ChevronUp,
-  ChevronDown
-} from 'lucide-react';
-import { motion, AnimatePresence } from 'motion/react';
-import { format, parseISO } from 'date-fns';
-import { bn } from 'date-fns/locale';
-import { MapContainer, TileLayer, Marker, useMap, useMapEvents } from 'react-leaflet';
-import L from 'leaflet';
-import 'leaflet/dist/leaflet.css';
-import { cn, Post, User, VoteUpdate } from './types';
-
-// Fix Leaflet default icon issue
-// Using CDN URLs for icons to avoid build issues with local assets in this environment
-const DefaultIcon = L.icon({
-    iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-    shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
-    iconSize: [25, 41],
-    iconAnchor: [12, 41]
-});
-
-L.Marker.prototype.options.icon = DefaultIcon;
-
-const getMarkerIcon = (post: Post) => {
-  const total = post.true_votes + post.false_votes;
-  const trustScore = total > 0 ? (post.true_votes / total) : 0.5;
-  
-  let color = '#F97316'; // Neutral Orange
-  if (total >= 1) { // Require at least 1 vote for color change
-    if (trustScore >= 0.7) color = '#10B981'; // Confirmed Green
-    if (trustScore <= 0.3) color = '#EF4444'; // Untrusted Red
-  }
-
-  return L.divIcon({
-    className: 'custom-div-icon',
-    html: `<div style="background-color: ${color};" class="w-8 h-8 rounded-full border-4 border-white shadow-lg flex items-center justify-center text-white">
-            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M20 6L9 17l-5-5"/></svg>
-           </div>`,
-    iconSize: [32, 32],
-    iconAnchor: [16, 32]
-  });
-};
-
-const FOOD_ITEMS = [
-  { id: 'biriyani', label: 'বিরিয়ানি', color: 'bg-orange-500' },
-  { id: 'teheri', label: 'তেহারি', color: 'bg-amber-500' },
-  { id: 'khicuri', label: 'খিচুড়ি', color: 'bg-yellow-600' },
-  { id: 'normal', label: 'সাধারণ খাবার', color: 'bg-stone-500' },
-];
-
-// Mock current user for demo purposes
-const MOCK_USER: User = {
-  id: 'user_' + Math.random().toString(36).substr(2, 9),
-  name: 'Local User',
-};
-
-// Component to handle map center updates
-function ChangeView({ center }: { center: [number, number] }) {
-  const map = useMap();
-  useEffect(() => {
-    map.setView(center);
-  }, [center, map]);
-  return null;
-}
-
-function MapEvents({ onMapClick, isPicking }: { onMapClick: (lat: number, lng: number) => void, isPicking: boolean }) {
-  useMapEvents({
-    click(e) {
-      if (isPicking) {
-        onMapClick(e.latlng.lat, e.latlng.lng);
-      }
-    },
-  });
-  return null;
-}
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bell, CheckCircle2, ChevronDown, ChevronUp, CloudUpload, MapPin, Plus, Search, SlidersHorizontal, User as UserIcon, WifiOff, XCircle } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { Circle, MapContainer, TileLayer } from 'react-leaflet';
+import { ApiErrorResponse, FoodType, Post, PostCluster, PostUpdate, UpdateEvent, User, VoteUpdate, WatchZone, cn } from './types';
+import { OutboxEntry, loadCachedPosts, saveCachedPosts, sendOrQueue } from './offline';
+import { Filters, activeFilterCount, clusterParams, distanceMeters, filtersFromSearch, filtersToSearch, postFilter, sortPosts } from './filters';
+import { DEFAULT_FOOD_TYPES } from '../shared/food-types';
+import { MAX_SERVER_CLUSTER_ZOOM } from '../shared/clusters';
+import { AccountModal } from './account';
+import { AddPostModal } from './add-post';
+import { PostCard, VirtualCardRow } from './cards';
+import { FilterPanel } from './filter-panel';
+import { connectLive } from './live';
+import { ChangeView, MapEvents, PostMarkers, RouteLayer, ViewportWatcher } from './map';
+import { useOutbox } from './outbox';
+import { uploadPhoto } from './photos';
+import { PostDetailModal } from './post-detail';
+import { applyStatusUpdate, applyVoteUpdate, createPostSync, inBbox, refreshLifecycle } from './sync';
+import { linkedPostId, removeQueryParam, spotPath } from './urls';
+import { RoutePanel, useWalkingRoute } from './walking-route';
+import { EMPTY_ZONE, WatchZonesModal, ZONE_RADIUS, ZoneDraft } from './watch-zones';
+
+const OFFLINE_POLL_MS = 15000;
+// Statuses like "live" and "ending soon" follow the clock, so they are recomputed locally this often
+const LIFECYCLE_TICK_MS = 60000;
+const CLUSTER_REFRESH_MS = 1000;
 
 export default function App() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<Filters>(() => filtersFromSearch(window.location.search));
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+  // Drives the relative times on cards
+  const [now, setNow] = useState(Date.now());
+  const [routeTarget, setRouteTarget] = useState<Post | null>(null);
   const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [isSheetExpanded, setIsSheetExpanded] = useState(false);
   const [isPickingLocation, setIsPickingLocation] = useState(false);
   const [isLocating, setIsLocating] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [addPostError, setAddPostError] = useState<ApiErrorResponse | null>(null);
   const [tempLocation, setTempLocation] = useState<[number, number] | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
+  const [viewportBbox, setViewportBbox] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(13);
+  const [serverClusters, setServerClusters] = useState<PostCluster[] | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [foodTypes, setFoodTypes] = useState<FoodType[]>(DEFAULT_FOOD_TYPES);
+  const [isZonesModalOpen, setIsZonesModalOpen] = useState(false);
+  const [zones, setZones] = useState<WatchZone[]>([]);
+  const [zoneDraft, setZoneDraft] = useState<ZoneDraft>(EMPTY_ZONE);
+  const [isDrawingZone, setIsDrawingZone] = useState(false);
   
-  const socket = React.useRef<Socket | null>(null);
-
-  // Initialize Socket.io
+  const [latestUpdate, setLatestUpdate] = useState<UpdateEvent | null>(null);
+  
+  const [isLive, setIsLive] = useState(false);
+  // Why the last queued write was turned down once it reached the server
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const liveRef = useRef<ReturnType<typeof connectLive> | null>(null);
+  const syncRef = useRef<ReturnType<typeof createPostSync> | null>(null);
+  // Read by the live handlers, which are set up once
+  const viewportRef = useRef<string | null>(null);
+  viewportRef.current = viewportBbox;
+
+  const removePost = (postId: string) => setPosts(prev => prev.filter(p => p.id !== postId));
+
+  // Live updates over Socket.io or, in production, Server-Sent Events
   useEffect(() => {
-    socket.current = io();
-    
-    socket.current.on('post:created', (newPost: Post) => {
-      setPosts(prev => [newPost, ...prev]);
+    const live = connectLive({
+      'post:created': newPost => {
+        // Subscriptions cover whole geohash cells, which reach past the viewport
+        if (!inBbox(newPost, viewportRef.current)) return;
+        setPosts(prev => prev.some(p => p.id === newPost.id) ? prev : [newPost, ...prev]);
+      },
+      'post:voted': update => {
+        setPosts(prev => prev.map(p => 
+          p.id === update.post_id 
+            ? { ...p, ...applyVoteUpdate(update) } 
+            : p
+        ));
+      },
+      'post:updated': handleUpdateEvent,
+      'post:hidden': ({ post_id }) => removePost(post_id),
+      'post:expired': ({ post_id }) => removePost(post_id),
+    }, {
+      onStatus: setIsLive,
+      // Too much was missed to replay, so catch up with a delta instead
+      onReset: () => syncRef.current?.sync(),
     });
+    liveRef.current = live;
+    return () => {
+      live.close();
+      liveRef.current = null;
+    };
+  }, []);
 
-    socket.current.on('post:voted', (update: VoteUpdate) => {
-      setPosts(prev => prev.map(p => 
-        p.id === update.post_id 
-          ? { ...p, true_votes: update.true_votes, false_votes: update.false_votes } 
-          : p
-      ));
-    });
+  // Follow the map: live events only come from the area in view
+  useEffect(() => {
+    if (viewportBbox) liveRef.current?.subscribe(viewportBbox);
+  }, [viewportBbox]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      setPosts(prev => {
+        const next = prev.map(post => refreshLifecycle(post));
+        return next.some((post, i) => post !== prev[i]) ? next : prev;
+      });
+    }, LIFECYCLE_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Load (or create) the session identity
+  useEffect(() => {
+    fetch('/api/me')
+      .then(res => res.json())
+      .then(setCurrentUser)
+      .catch(err => console.error('Session error:', err));
+
+    // Clean up the query string left behind by a magic link login
+    if (new URLSearchParams(window.location.search).has('login')) {
+      removeQueryParam('login');
+    }
+  }, []);
+
+  // Mirror the filters in the URL so the filtered view can be shared
+  useEffect(() => {
+    window.history.replaceState(null, '', window.location.pathname + filtersToSearch(filters, window.location.search));
+  }, [filters]);
 
+  // Opened from a shared link or a notification: show that spot, even when it is outside the remembered viewport
+  useEffect(() => {
+    const postId = linkedPostId();
+    if (!postId) return;
+    removeQueryParam('post');
+    fetch(`/api/posts/${encodeURIComponent(postId)}`)
+      .then(res => res.ok ? res.json() : null)
+      .then((post: Post | null) => {
+        if (!post) return;
+        setPosts(prev => prev.some(p => p.id === post.id) ? prev : [post, ...prev]);
+        setSelectedPostId(post.id);
+        setUserLocation([post.lat, post.lng]);
+      })
+      .catch(err => console.error('Post link error:', err));
+  }, []);
+
+  // The open spot's page is the address, so it can be copied or reloaded
+  useEffect(() => {
+    const path = spotPath(selectedPostId);
+    if (window.location.pathname !== path) window.history.replaceState(null, '', path + window.location.search);
+  }, [selectedPostId]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    fetch('/api/watch-zones')
+      .then(res => res.ok ? res.json() : [])
+      .then(setZones)
+      .catch(err => console.error('Watch zones error:', err));
+  }, [currentUser?.id]);
+
+  useEffect(() => {
+    fetch('/api/food-types')
+      .then(res => res.json())
+      .then(setFoodTypes)
+      .catch(err => console.error('Food types error:', err));
+  }, []);
+
+  // Load the posts for the current viewport, then keep them in sync
+  useEffect(() => {
+    if (!viewportBbox) return;
+    const sync = createPostSync(`bbox=${viewportBbox}&limit=500`, setPosts);
+    syncRef.current = sync;
+    sync.sync();
     return () => {
-      socket.current?.disconnect();
+      sync.stop();
+      if (syncRef.current === sync) syncRef.current = null;
     };
-  }, []);
+  }, [viewportBbox, refreshKey]);
 
-  // Fetch initial posts
+  // Zoomed out, the markers come from the server's clusters; they follow the loaded posts with a short delay.
+  // The server cannot apply the search box, so a search clusters the loaded posts instead.
   useEffect(() => {
-    const fetchPosts = () => {
-      fetch('/api/posts')
-        .then(res => res.json())
-        .then(data => {
-          setPosts(prev => {
-            if (JSON.stringify(prev) !== JSON.stringify(data)) {
-              return data;
-            }
-            return prev;
-          });
-        })
-        .catch(err => console.log('Fetch error:', err));
+    if (!viewportBbox || zoom > MAX_SERVER_CLUSTER_ZOOM || filters.q.trim()) {
+      setServerClusters(null);
+      return;
+    }
+    const params = clusterParams(filters, userLocation);
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/posts/clusters?bbox=${viewportBbox}&zoom=${zoom}&${params}`, { signal: controller.signal })
+        .then(res => res.ok ? res.json() : null)
+        .then(clusters => { if (clusters) setServerClusters(clusters); })
+        .catch(err => { if (err.name !== 'AbortError') console.error('Clusters error:', err); });
+    }, serverClusters ? CLUSTER_REFRESH_MS : 0);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
     };
+  }, [viewportBbox, zoom, refreshKey, posts, filters, userLocation]);
 
-    fetchPosts();
-    const interval = setInterval(fetchPosts, 15000); // Poll every 15 seconds
+  // Live events keep the feed current; polling for deltas only stands in while they are unavailable
+  useEffect(() => {
+    if (isLive) return;
+    const interval = setInterval(() => syncRef.current?.sync(), OFFLINE_POLL_MS);
     return () => clearInterval(interval);
+  }, [isLive]);
+
+  // Show the last known posts straight away, e.g. when opened without a connection
+  useEffect(() => {
+    loadCachedPosts()
+      .then(cached => setPosts(prev => prev.length ? prev : cached))
+      .catch(err => console.error('Offline cache error:', err));
   }, []);
 
-  // Get user location
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      saveCachedPosts(posts).catch(err => console.error('Offline cache error:', err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [posts]);
+
+  // A queued write reached the server: apply the answer as if it had been sent right away
+  const handleReplayed = async (entry: OutboxEntry, response: Response) => {
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      setSyncNotice((data as ApiErrorResponse | null)?.message_bn ?? 'অপেক্ষমাণ একটি তথ্য পাঠানো যায়নি');
+      // Takes back the optimistic vote count
+      if (entry.kind === 'vote') syncRef.current?.sync();
+      return;
+    }
+    if (entry.kind === 'vote') {
+      const update: VoteUpdate = data;
+      setPosts(prev => prev.map(p => p.id === update.post_id ? { ...p, ...applyVoteUpdate(update) } : p));
+    } else if (entry.kind === 'post') {
+      if (entry.photo) await uploadPhoto(data.id, entry.photo).catch(err => console.error('Error uploading photo:', err));
+      syncRef.current?.sync();
+    } else {
+      setRefreshKey(k => k + 1);
+    }
+  };
+
+  const { isOnline, pendingCount, refreshPending } = useOutbox(handleReplayed, () => syncRef.current?.sync());
+
+  // Get user location, unless a post link already centred the map
   useEffect(() => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setUserLocation([position.coords.latitude, position.coords.longitude]);
+          setUserLocation(prev => prev ?? [position.coords.latitude, position.coords.longitude]);
         },
         (error) => {
           console.error('Error getting location:', error);
-          setUserLocation([23.9999, 90.4203]); // Default center fallback
+          setUserLocation(prev => prev ?? [23.9999, 90.4203]); // Default center fallback
         }
       );
     } else {
@@ -160,17 +261,17 @@ export default function App() {
     }
   }, []);
 
+  const foodTypeById = useMemo(() => new Map(foodTypes.map(f => [f.id, f])), [foodTypes]);
+
+  // What both the map and the list show
   const filteredPosts = useMemo(() => {
-    return posts.filter(p => 
-      p.place_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      p.description.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [posts, searchQuery]);
+    const matches = postFilter(filters, userLocation, id => foodTypeById.get(id)?.label_bn || '');
+    return sortPosts(posts.filter(matches), filters.sort, userLocation);
+  }, [posts, filters, userLocation, foodTypeById]);
+
+  const filterCount = activeFilterCount(filters);
 
-  const confirmedCount = posts.filter(p => {
-    const total = p.true_votes + p.false_votes;
-    return total >= 1 && (p.true_votes / total) >= 0.7;
-  }).length;
+  const confirmedCount = posts.filter(p => p.trust_level === 'confirmed').length;
 
   const handleVote = async (postId: string, type: 1 | 0) => {
     // Optimistic update
@@ -186,15 +287,66 @@ export default function App() {
       return p;
     }));
 
-    await fetch('/api/votes', {
+    const response = await sendOrQueue({
+      kind: 'vote',
+      url: '/api/votes',
+      body: { post_id: postId, vote_type: type },
+    }).catch(() => null);
+
+    // Queued while offline: the optimistic count stands until the outbox sends it
+    if (!response) {
+      refreshPending();
+      return;
+    }
+
+    // Trust is scored on the server, so take its numbers once it answers
+    if (response.ok) {
+      const update: VoteUpdate = await response.json();
+      setPosts(prev => prev.map(p => p.id === postId ? { ...p, ...applyVoteUpdate(update) } : p));
+    }
+
+    // Rejected, e.g. rate limited: undo the optimistic update
+    if (!response.ok) {
+      setPosts(prev => prev.map(p => p.id === postId ? {
+        ...p,
+        true_votes: type === 1 ? p.true_votes - 1 : p.true_votes,
+        false_votes: type === 0 ? p.false_votes - 1 : p.false_votes
+      } : p));
+    }
+  };
+
+  const handleUpdateEvent = (event: UpdateEvent) => {
+    setPosts(prev => prev.map(p => p.id === event.post_id ? { ...p, ...applyStatusUpdate(event) } : p));
+    setLatestUpdate(event);
+  };
+
+  // Throws the server's message in Bengali so the thread can show it
+  const handlePostUpdate = async (postId: string, kind: PostUpdate['kind'], body: string) => {
+    const response = await fetch(`/api/posts/${encodeURIComponent(postId)}/updates`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        post_id: postId,
-        user_id: MOCK_USER.id,
-        vote_type: type
-      })
+      body: JSON.stringify({ kind, body })
+    }).catch(() => null);
+    if (!response?.ok) {
+      const errorData: ApiErrorResponse | null = await response?.json().catch(() => null) ?? null;
+      throw new Error(errorData?.fields?.body?.message_bn ?? errorData?.message_bn ?? 'আপডেট পাঠানো যায়নি');
+    }
+    handleUpdateEvent(await response.json());
+  };
+
+  const handleReport = async (postId: string, category: string, reason: string) => {
+    const response = await fetch('/api/reports', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ post_id: postId, category, reason })
     });
+    if (!response.ok) throw new Error('Failed to report');
+
+    const { hidden } = await response.json();
+    if (hidden) {
+      setPosts(prev => prev.filter(p => p.id !== postId));
+      setSelectedPostId(null);
+    }
   };
 
   const handleAddPost = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -204,52 +356,161 @@ export default function App() {
     const lat = tempLocation ? tempLocation[0] : (userLocation ? userLocation[0] : 23.9999);
     const lng = tempLocation ? tempLocation[1] : (userLocation ? userLocation[1] : 90.4203);
 
-    const newPost = {
-      id: 'post_' + Math.random().toString(36).substr(2, 9),
-      user_id: MOCK_USER.id,
-      place_name: formData.get('place_name') as string,
-      description: formData.get('description') as string,
-      lat,
-      lng,
-      distribution_time: formData.get('time') as string || new Date().toISOString(),
-    };
+    const isRecurring = formData.get('mode') === 'repeats';
+    const prayerRule = formData.get('time_mode') === 'prayer'
+      ? {
+          prayer: formData.get('prayer') as string,
+          offset_minutes: Number(formData.get('offset_minutes') || 0) * (formData.get('offset_direction') === 'before' ? -1 : 1),
+          method: formData.get('method') as string,
+        }
+      : null;
+    const endpoint = isRecurring ? '/api/schedules' : '/api/posts';
+    const payload = isRecurring
+      ? {
+          place_name: formData.get('place_name') as string,
+          food_type: formData.get('food_type') as string,
+          description: formData.get('description') as string,
+          lat,
+          lng,
+          frequency: formData.get('frequency') as string,
+          weekdays: formData.getAll('weekdays').map(Number),
+          start_time: prayerRule ? null : formData.get('start_time') as string,
+          prayer_rule: prayerRule,
+          duration_minutes: Number(formData.get('duration_minutes')),
+          until: (formData.get('until') as string) || null,
+        }
+      : {
+          id: 'post_' + Math.random().toString(36).substr(2, 9),
+          place_name: formData.get('place_name') as string,
+          food_type: formData.get('food_type') as string,
+          description: formData.get('description') as string,
+          lat,
+          lng,
+          // datetime-local has no timezone, so convert from the device's local time here
+          distribution_time: formData.get('time') ? new Date(formData.get('time') as string).toISOString() : new Date().toISOString(),
+          prayer_rule: prayerRule,
+          date: formData.get('date') as string | null,
+          duration_minutes: Number(formData.get('duration_minutes')),
+          allow_duplicate: formData.get('allow_duplicate') === 'true',
+        };
 
+    const photo = formData.get('photo');
     setIsSubmitting(true);
+    setAddPostError(null);
     try {
-      const response = await fetch('/api/posts', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newPost)
+      const response = await sendOrQueue({
+        kind: isRecurring ? 'schedule' : 'post',
+        url: endpoint,
+        body: payload,
+        photo: !isRecurring && photo instanceof File && photo.size > 0 ? photo : undefined,
       });
 
+      // Saved on the device; it goes out, photo included, once the connection is back
+      if (!response) {
+        refreshPending();
+        setIsAddModalOpen(false);
+        setTempLocation(null);
+        return;
+      }
+
       if (!response.ok) {
-        let errorMessage = 'Failed to add post';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.details || errorData.error || errorMessage;
-        } catch (e) {
-          const text = await response.text().catch(() => '');
-          errorMessage = text || errorMessage;
-        }
-        throw new Error(errorMessage);
+        const errorData: ApiErrorResponse | null = await response.json().catch(() => null);
+        setAddPostError(errorData ?? { error: 'Failed to add post', code: 'internal_error', message_bn: 'পোস্ট যোগ করতে সমস্যা হয়েছে' });
+        return;
+      }
+
+      // The photo goes up once the spot exists; the spot stays posted even if the upload fails
+      if (!isRecurring && photo instanceof File && photo.size > 0) {
+        const created: Post = await response.json();
+        await uploadPhoto(created.id, photo).catch(err => console.error('Error uploading photo:', err));
       }
 
       setIsAddModalOpen(false);
       setTempLocation(null);
+      // Schedule occurrences are expanded on the server, so pull them into the feed
+      if (isRecurring) setRefreshKey(k => k + 1);
     } catch (error) {
       console.error('Error adding post:', error);
-      alert(`পোস্ট যোগ করতে সমস্যা হয়েছে: ${error instanceof Error ? error.message : 'অজানা সমস্যা'}`);
+      setAddPostError({ error: 'Network error', code: 'network_error', message_bn: 'সার্ভারের সাথে যোগাযোগ করা যাচ্ছে না' });
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Instead of posting a duplicate, count the visit as a vote for the spot that already exists
+  const handleConfirmExisting = (post: Post) => {
+    setPosts(prev => prev.some(p => p.id === post.id) ? prev : [post, ...prev]);
+    handleVote(post.id, 1);
+    setIsAddModalOpen(false);
+    setTempLocation(null);
+    setAddPostError(null);
+    setSelectedPostId(post.id);
+  };
+
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    const res = await fetch('/api/me');
+    setCurrentUser(await res.json());
+    setIsAccountModalOpen(false);
+  };
+
   const handleMapClick = (lat: number, lng: number) => {
+    // Drawing stays on, so another click moves the circle
+    if (isDrawingZone) {
+      setZoneDraft(draft => ({ ...draft, lat, lng }));
+      return;
+    }
     setTempLocation([lat, lng]);
     setIsPickingLocation(false);
     setIsAddModalOpen(true);
   };
 
+  // A marker may stand for a post outside the loaded list, e.g. a lone point in a server cluster
+  const handleSelectPost = (postId: string) => {
+    setSelectedPostId(postId);
+    if (posts.some(p => p.id === postId)) return;
+    fetch(`/api/posts/${encodeURIComponent(postId)}`)
+      .then(res => res.ok ? res.json() : null)
+      .then((post: Post | null) => {
+        if (post) setPosts(prev => prev.some(p => p.id === post.id) ? prev : [post, ...prev]);
+      })
+      .catch(err => console.error('Post error:', err));
+  };
+
+  const handleNavigate = (post: Post) => {
+    setSelectedPostId(null);
+    setRouteTarget(post);
+  };
+
+  const { route, origin: routeOrigin } = useWalkingRoute(routeTarget, userLocation);
+
+  const handleDrawZone = () => {
+    setIsZonesModalOpen(false);
+    setIsDrawingZone(true);
+  };
+
+  const finishDrawingZone = () => {
+    setIsDrawingZone(false);
+    setIsZonesModalOpen(true);
+  };
+
+  const handleSaveZone = async () => {
+    const res = await fetch('/api/watch-zones', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...zoneDraft, food_types: zoneDraft.food_types.length ? zoneDraft.food_types : null }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw data as ApiErrorResponse;
+    setZones(prev => [...prev, data]);
+    setZoneDraft(EMPTY_ZONE);
+  };
+
+  const handleDeleteZone = async (zoneId: string) => {
+    const res = await fetch(`/api/watch-zones/${zoneId}`, { method: 'DELETE' });
+    if (res.ok) setZones(prev => prev.filter(z => z.id !== zoneId));
+  };
+
   const selectedPost = useMemo(() => 
     posts.find(p => p.id === selectedPostId) || null
   , [posts, selectedPostId]);
@@ -285,12 +546,63 @@ export default function App() {
             type="text" 
             placeholder="মসজিদ বা এলাকা খুঁজুন..." 
             className="w-full pl-9 pr-4 py-2.5 bg-white border border-stone-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-green-500/20 shadow-sm"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            value={filters.q}
+            onChange={(e) => setFilters(f => ({ ...f, q: e.target.value }))}
           />
         </div>
+
+        <button
+          onClick={() => setIsFilterPanelOpen(true)}
+          className={cn(
+            "relative p-2.5 border rounded-xl shadow-sm active:scale-95 transition-transform",
+            filterCount ? "bg-green-50 border-green-200 text-green-700" : "bg-white border-stone-200 text-stone-500"
+          )}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          {filterCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 w-4 h-4 bg-orange-500 text-white rounded-full text-[9px] font-black flex items-center justify-center">
+              {filterCount.toLocaleString('bn-BD')}
+            </span>
+          )}
+        </button>
+
+        {(!isOnline || pendingCount > 0) && (
+          <div className="flex items-center gap-1 px-2.5 py-2 bg-amber-50 border border-amber-200 text-amber-700 rounded-xl text-[11px] font-bold shadow-sm whitespace-nowrap">
+            {isOnline ? <CloudUpload className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+            {pendingCount > 0 ? `${pendingCount.toLocaleString('bn-BD')}টি পাঠানো বাকি` : 'অফলাইন'}
+          </div>
+        )}
+
+        <button
+          onClick={() => setIsZonesModalOpen(true)}
+          className={cn(
+            "p-2.5 border rounded-xl shadow-sm active:scale-95 transition-transform",
+            zones.length ? "bg-orange-50 border-orange-200 text-orange-600" : "bg-white border-stone-200 text-stone-500"
+          )}
+        >
+          <Bell className="w-4 h-4" />
+        </button>
+
+        <button
+          onClick={() => setIsAccountModalOpen(true)}
+          className={cn(
+            "p-2.5 border rounded-xl shadow-sm active:scale-95 transition-transform",
+            currentUser && !currentUser.is_anonymous ? "bg-green-50 border-green-200 text-green-700" : "bg-white border-stone-200 text-stone-500"
+          )}
+        >
+          <UserIcon className="w-4 h-4" />
+        </button>
       </header>
 
+      {syncNotice && (
+        <button
+          onClick={() => setSyncNotice(null)}
+          className="mx-4 mt-2 px-3 py-2 bg-red-50 border border-red-200 text-red-700 rounded-xl text-xs text-left z-[999]"
+        >
+          {syncNotice} <span className="font-bold">· ঠিক আছে</span>
+        </button>
+      )}
+
       {/* Stats Bar */}
       <div className="px-4 py-2 flex items-center justify-between z-[999] bg-transparent">
         <div className="flex gap-2">
@@ -314,21 +626,35 @@ export default function App() {
           zoomControl={false}
         >
           <ChangeView center={userLocation} />
-          <MapEvents onMapClick={handleMapClick} isPicking={isPickingLocation} />
+          <MapEvents onMapClick={handleMapClick} isPicking={isPickingLocation || isDrawingZone} />
+          <ViewportWatcher onChange={(bbox, zoom) => { setViewportBbox(bbox); setZoom(zoom); }} />
           <TileLayer
             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
-          {posts.map(post => (
-            <Marker 
-              key={post.id} 
-              position={[post.lat, post.lng]}
-              icon={getMarkerIcon(post)}
-              eventHandlers={{
-                click: () => setSelectedPostId(post.id),
-              }}
+          <PostMarkers
+            posts={filteredPosts}
+            serverClusters={serverClusters}
+            bbox={viewportBbox}
+            zoom={zoom}
+            onSelect={handleSelectPost}
+          />
+          {zones.map(zone => (
+            <Circle
+              key={zone.id}
+              center={[zone.lat, zone.lng]}
+              radius={zone.radius_m}
+              pathOptions={{ color: '#F97316', weight: 1, dashArray: '4 4', fillOpacity: 0.04 }}
             />
           ))}
+          {route && <RouteLayer route={route} />}
+          {isDrawingZone && zoneDraft.lat !== null && (
+            <Circle
+              center={[zoneDraft.lat, zoneDraft.lng!]}
+              radius={zoneDraft.radius_m}
+              pathOptions={{ color: '#15803D', weight: 2, fillOpacity: 0.15 }}
+            />
+          )}
         </MapContainer>
 
         {/* Picking Mode Overlay */}
@@ -350,6 +676,36 @@ export default function App() {
               </button>
             </motion.div>
           )}
+          {routeTarget && (
+            <RoutePanel target={routeTarget} route={route} origin={routeOrigin} onClose={() => setRouteTarget(null)} />
+          )}
+          {isDrawingZone && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              className="absolute top-6 left-1/2 -translate-x-1/2 w-[90%] max-w-sm bg-green-800 text-white px-5 py-3 rounded-2xl shadow-2xl z-[1001] border-2 border-white/20 space-y-2"
+            >
+              <div className="flex items-center gap-3">
+                <Bell className="w-5 h-5 text-orange-400" />
+                <span className="flex-1 text-sm font-bold">
+                  {zoneDraft.lat === null ? 'ম্যাপে জোনের কেন্দ্র সিলেক্ট করুন' : `ব্যাসার্ধ: ${(zoneDraft.radius_m / 1000).toLocaleString('bn-BD')} কিমি`}
+                </span>
+                <button onClick={finishDrawingZone} className="px-3 py-1 bg-white text-green-800 rounded-full text-xs font-bold">
+                  ঠিক আছে
+                </button>
+              </div>
+              {zoneDraft.lat !== null && (
+                <input
+                  type="range"
+                  {...ZONE_RADIUS}
+                  value={zoneDraft.radius_m}
+                  onChange={(e) => setZoneDraft(draft => ({ ...draft, radius_m: Number(e.target.value) }))}
+                  className="w-full accent-orange-400"
+                />
+              )}
+            </motion.div>
+          )}
         </AnimatePresence>
 
         {/* Floating Action Button */}
@@ -408,28 +764,31 @@ export default function App() {
               <h2 className="text-sm font-bold">আজকের সক্রিয় স্পট</h2>
             </div>
             <div className="flex items-center gap-1 text-green-200 text-xs font-bold">
-              {posts.length}টি সরাসরি
+              {posts.filter(p => p.status === 'live').length}টি সরাসরি
               {isSheetExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
             </div>
           </div>
           
-          <div className="flex-1 overflow-x-auto px-4 pb-6 flex gap-4 no-scrollbar min-h-[160px]">
-            {filteredPosts.length > 0 ? (
-              filteredPosts.map(post => (
-                <div key={post.id} className="min-w-[280px]">
-                  <PostCard 
-                    post={post} 
-                    onVote={handleVote}
-                    onClick={() => setSelectedPostId(post.id)}
-                  />
-                </div>
-              ))
-            ) : (
-              <div className="w-full py-10 text-center text-green-200/50 text-sm">
-                কোন স্পট পাওয়া যায়নি
-              </div>
-            )}
-          </div>
+          {filteredPosts.length > 0 ? (
+            <VirtualCardRow
+              items={filteredPosts}
+              className="flex-1 px-4 pb-6 no-scrollbar min-h-[160px]"
+              renderItem={(post: Post) => (
+                <PostCard 
+                  post={post} 
+                  foodType={foodTypeById.get(post.food_type)}
+                  distance={userLocation ? distanceMeters(userLocation, post) : null}
+                  now={now}
+                  onVote={handleVote}
+                  onClick={() => setSelectedPostId(post.id)}
+                />
+              )}
+            />
+          ) : (
+            <div className="flex-1 px-4 pb-6 min-h-[160px] w-full py-10 text-center text-green-200/50 text-sm">
+              কোন স্পট পাওয়া যায়নি
+            </div>
+          )}
         </motion.div>
       </main>
 
@@ -440,250 +799,57 @@ export default function App() {
             onClose={() => {
               setIsAddModalOpen(false);
               setTempLocation(null);
+              setAddPostError(null);
             }} 
             onSubmit={handleAddPost}
+            onConfirmExisting={handleConfirmExisting}
+            foodTypes={foodTypes}
             tempLocation={tempLocation}
             isSubmitting={isSubmitting}
+            error={addPostError}
           />
         )}
         {selectedPost && (
           <PostDetailModal 
             post={selectedPost} 
+            foodType={foodTypeById.get(selectedPost.food_type)}
             onClose={() => setSelectedPostId(null)}
             onVote={handleVote}
+            onReport={handleReport}
+            onNavigate={handleNavigate}
+            latestUpdate={latestUpdate}
+            onPostUpdate={handlePostUpdate}
+          />
+        )}
+        {isAccountModalOpen && currentUser && (
+          <AccountModal
+            user={currentUser}
+            onClose={() => setIsAccountModalOpen(false)}
+            onLogout={handleLogout}
+          />
+        )}
+        {isFilterPanelOpen && (
+          <FilterPanel
+            filters={filters}
+            foodTypes={foodTypes}
+            hasLocation={!!userLocation}
+            onChange={setFilters}
+            onClose={() => setIsFilterPanelOpen(false)}
+          />
+        )}
+        {isZonesModalOpen && (
+          <WatchZonesModal
+            zones={zones}
+            draft={zoneDraft}
+            foodTypes={foodTypes}
+            onDraftChange={setZoneDraft}
+            onDraw={handleDrawZone}
+            onSave={handleSaveZone}
+            onDelete={handleDeleteZone}
+            onClose={() => setIsZonesModalOpen(false)}
           />
         )}
       </AnimatePresence>
     </div>
   );
 }
-
-function PostCard({ post, onVote, onClick }: { post: Post, onVote: (id: string, type: 1 | 0) => void, onClick: () => void }) {
-  return (
-    <motion.div 
-      layout
-      className="bg-white rounded-2xl p-4 shadow-lg flex flex-col gap-3 relative overflow-hidden"
-      onClick={onClick}
-    >
-      <div className="flex gap-3">
-        <div className="flex-1 min-w-0">
-          <div className="flex items-center gap-2">
-            <h3 className="font-bold text-stone-900 truncate text-base">{post.place_name}</h3>
-            {post.true_votes + post.false_votes > 0 && (post.true_votes / (post.true_votes + post.false_votes)) >= 0.7 && (
-              <span className="px-1.5 py-0.5 bg-green-100 text-green-700 text-[9px] font-black rounded uppercase tracking-wider">নিশ্চিত</span>
-            )}
-          </div>
-          <div className="flex items-center gap-3 mt-1">
-            <div className="flex items-center gap-1 text-[11px] text-stone-500 font-medium">
-              <MapPin className="w-3 h-3 text-stone-400" />
-              {post.lat.toFixed(2)}, {post.lng.toFixed(2)}
-            </div>
-            <div className="flex items-center gap-1 text-[11px] text-stone-500 font-medium">
-              <Clock className="w-3 h-3 text-stone-400" />
-              এইমাত্র
-            </div>
-          </div>
-        </div>
-      </div>
-
-      <div className="flex items-center gap-2 mt-1">
-        <div className="flex items-center gap-1 px-2.5 py-1 bg-green-50 text-green-700 rounded-lg text-[11px] font-bold border border-green-100">
-          <CheckCircle2 className="w-3.5 h-3.5" />
-          {post.true_votes} সত্যি
-        </div>
-        <div className="flex items-center gap-1 px-2.5 py-1 bg-rose-50 text-rose-700 rounded-lg text-[11px] font-bold border border-rose-100">
-          <XCircle className="w-3.5 h-3.5" />
-          {post.false_votes} ভুয়া
-        </div>
-        <div className="ml-auto text-[11px] font-bold text-orange-600">
-          {FOOD_ITEMS.find(f => f.id === post.description)?.label || post.description}
-        </div>
-      </div>
-    </motion.div>
-  );
-}
-
-function AddPostModal({ onClose, onSubmit, tempLocation, isSubmitting }: { onClose: () => void, onSubmit: (e: React.FormEvent<HTMLFormElement>) => void, tempLocation: [number, number] | null, isSubmitting: boolean }) {
-  return (
-    <div className="fixed inset-0 z-[2000] flex items-end sm:items-center justify-center p-0 sm:p-4">
-      <motion.div 
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        exit={{ opacity: 0 }}
-        onClick={onClose}
-        className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm"
-      />
-      <motion.div 
-        initial={{ y: "100%" }}
-        animate={{ y: 0 }}
-        exit={{ y: "100%" }}
-        className="relative w-full max-w-lg bg-white rounded-t-3xl sm:rounded-3xl overflow-y-auto max-h-[95vh] shadow-2xl"
-      >
-        <div className="p-6">
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-xl font-bold text-green-800">নতুন স্পট যোগ করুন</h2>
-            <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full">
-              <XCircle className="w-6 h-6 text-stone-400" />
-            </button>
-          </div>
-
-          {tempLocation && (
-            <div className="mb-4 p-3 bg-orange-50 border border-orange-100 rounded-xl flex items-center gap-2">
-              <MapPin className="w-4 h-4 text-orange-500" />
-              <span className="text-xs font-bold text-orange-700">
-                নির্বাচিত লোকেশন: {tempLocation[0].toFixed(4)}, {tempLocation[1].toFixed(4)}
-              </span>
-            </div>
-          )}
-
-          <form onSubmit={onSubmit} className="space-y-4">
-            <div>
-              <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">মসজিদ বা এলাকার নাম</label>
-              <input 
-                name="place_name" 
-                required 
-                placeholder="যেমন: জয়দেবপুর স্টেশন" 
-                className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20"
-              />
-            </div>
-            <div>
-              <label className="block text-xs font-bold text-stone-500 uppercase mb-2.5">খাবারের ধরন</label>
-              <div className="grid grid-cols-2 gap-2">
-                {FOOD_ITEMS.map((item) => (
-                  <label key={item.id} className="relative cursor-pointer group">
-                    <input 
-                      type="radio" 
-                      name="description" 
-                      value={item.id} 
-                      className="peer sr-only" 
-                      required
-                      defaultChecked={item.id === 'biriyani'}
-                    />
-                    <div className="px-4 py-3 bg-stone-100 rounded-xl border-2 border-transparent peer-checked:border-green-600 peer-checked:bg-green-50 transition-all text-center">
-                      <span className="text-sm font-bold text-stone-700 peer-checked:text-green-800">{item.label}</span>
-                    </div>
-                  </label>
-                ))}
-              </div>
-            </div>
-            <div className="grid grid-cols-1 gap-4">
-              <div>
-                <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">সময়</label>
-                <input 
-                  name="time" 
-                  type="datetime-local" 
-                  required 
-                  defaultValue={new Date().toLocaleString('sv-SE').replace(' ', 'T').slice(0, 16)}
-                  className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20 text-sm"
-                />
-              </div>
-            </div>
-            <button 
-              type="submit" 
-              disabled={isSubmitting}
-              className="w-full py-4 bg-green-700 text-white rounded-2xl font-bold text-lg shadow-lg shadow-green-700/20 hover:bg-green-800 active:scale-[0.98] transition-all mt-4 mb-8 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSubmitting ? 'প্রসেসিং হচ্ছে...' : 'পোস্ট করুন'}
-            </button>
-          </form>
-        </div>
-      </motion.div>
-    </div>
-  );
-}
-
-function PostDetailModal({ post, onClose, onVote }: { post: Post, onClose: () => void, onVote: (id: string, type: 1 | 0) => void }) {
-  const trustScore = post.true_votes + post.false_votes > 0 
-    ? Math.round((post.true_votes / (post.true_votes + post.false_votes)) * 100)
-    : 0;
-
-  return (
-    <div className="fixed inset-0 z-[2000] flex items-end sm:items-center justify-center p-0 sm:p-4">
-      <motion.div 
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        exit={{ opacity: 0 }}
-        onClick={onClose}
-        className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm"
-      />
-      <motion.div 
-        initial={{ y: "100%" }}
-        animate={{ y: 0 }}
-        exit={{ y: "100%" }}
-        className="relative w-full max-w-lg bg-white rounded-t-3xl sm:rounded-3xl overflow-y-auto max-h-[95vh] shadow-2xl"
-      >
-        <div className="p-6">
-          <div className="flex justify-between items-start mb-6">
-            <div>
-              <div className={cn(
-                "inline-block px-3 py-1 rounded-full text-[10px] font-black uppercase mb-2",
-                trustScore >= 70 ? "bg-emerald-100 text-emerald-700" : 
-                trustScore >= 40 ? "bg-amber-100 text-amber-700" : "bg-rose-100 text-rose-700"
-              )}>
-                {trustScore}% কমিউনিটি বিশ্বাস
-              </div>
-              <h2 className="text-2xl font-bold text-green-900">{post.place_name}</h2>
-              <p className="text-stone-500 flex items-center gap-1 text-sm">
-                <MapPin className="w-3.5 h-3.5" /> বাংলাদেশ
-              </p>
-            </div>
-            <div className="flex gap-2">
-              <button className="p-3 bg-orange-100 text-orange-600 rounded-2xl">
-                <Navigation className="w-6 h-6" />
-              </button>
-              <button 
-                onClick={onClose} 
-                className="p-3 bg-stone-100 text-stone-400 hover:text-stone-600 rounded-2xl transition-colors"
-              >
-                <XCircle className="w-6 h-6" />
-              </button>
-            </div>
-          </div>
-          
-          <div className="bg-stone-50 rounded-2xl p-4 mb-6">
-            <h3 className="text-xs font-bold text-stone-400 uppercase mb-2">খাবারের ধরন</h3>
-            <div className="flex items-center gap-2">
-              <div className={cn(
-                "w-3 h-3 rounded-full",
-                FOOD_ITEMS.find(f => f.id === post.description)?.color || "bg-stone-400"
-              )} />
-              <p className="text-lg font-bold text-stone-800">
-                {FOOD_ITEMS.find(f => f.id === post.description)?.label || post.description}
-              </p>
-            </div>
-            <div className="mt-4 flex items-center gap-4">
-              <div className="flex items-center gap-2 text-sm text-stone-600">
-                <Clock className="w-4 h-4 text-orange-500" />
-                <span className="font-medium">{format(parseISO(post.distribution_time), 'MMMM d, h:mm a', { locale: bn })}</span>
-              </div>
-            </div>
-          </div>
-
-          <div className="space-y-4">
-            <h3 className="text-sm font-bold text-stone-900 text-center">এই তথ্যটি কি সঠিক?</h3>
-            <div className="flex gap-3">
-              <button 
-                onClick={() => onVote(post.id, 1)}
-                className="flex-1 py-4 bg-green-50 text-green-700 rounded-2xl font-bold flex flex-col items-center gap-1 border-2 border-transparent active:border-green-500 transition-all"
-              >
-                <CheckCircle2 className="w-6 h-6" />
-                <span>সঠিক ({post.true_votes})</span>
-              </button>
-              <button 
-                onClick={() => onVote(post.id, 0)}
-                className="flex-1 py-4 bg-rose-50 text-rose-700 rounded-2xl font-bold flex flex-col items-center gap-1 border-2 border-transparent active:border-rose-500 transition-all"
-              >
-                <XCircle className="w-6 h-6" />
-                <span> ভুল({post.false_votes})</span>
-              </button>
-            </div>
-            <button className="w-full py-3 text-stone-400 text-sm font-medium flex items-center justify-center gap-2 hover:text-rose-500 transition-colors">
-              <AlertTriangle className="w-4 h-4" />
-              ভুল তথ্য রিপোর্ট করুন
-            </button>
-          </div>
-        </div>
-      </motion.div>
-    </div>
-  );
-}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { User as UserIcon, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { User } from './types';
+
+export function AccountModal({ user, onClose, onLogout }: { user: User, onClose: () => void, onLogout: () => void }) {
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setStatus('sending');
+    try {
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      });
+      setStatus(response.ok ? 'sent' : 'error');
+    } catch (error) {
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        className="relative w-full max-w-lg bg-white rounded-t-3xl sm:rounded-3xl overflow-y-auto max-h-[95vh] shadow-2xl"
+      >
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold text-green-800">অ্যাকাউন্ট</h2>
+            <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full">
+              <XCircle className="w-6 h-6 text-stone-400" />
+            </button>
+          </div>
+
+          <div className="bg-stone-50 rounded-2xl p-4 mb-6 flex items-center gap-3">
+            <div className="w-10 h-10 bg-green-100 text-green-700 rounded-full flex items-center justify-center">
+              <UserIcon className="w-5 h-5" />
+            </div>
+            <div>
+              <p className="font-bold text-stone-800">{user.name}</p>
+              <p className="text-xs text-stone-500">{user.is_anonymous ? 'বেনামী ডিভাইস অ্যাকাউন্ট' : user.email}</p>
+            </div>
+          </div>
+
+          {user.is_anonymous ? (
+            status === 'sent' ? (
+              <div className="p-4 bg-green-50 border border-green-100 rounded-xl text-sm font-bold text-green-700">
+                আপনার ইমেইলে একটি লগইন লিংক পাঠানো হয়েছে।
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">ইমেইল দিয়ে লগইন</label>
+                  <input 
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com" 
+                    className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20"
+                  />
+                </div>
+                {status === 'error' && (
+                  <p className="text-xs font-bold text-rose-600">লিংক পাঠাতে সমস্যা হয়েছে, আবার চেষ্টা করুন।</p>
+                )}
+                <button 
+                  type="submit" 
+                  disabled={status === 'sending'}
+                  className="w-full py-4 bg-green-700 text-white rounded-2xl font-bold shadow-lg shadow-green-700/20 hover:bg-green-800 active:scale-[0.98] transition-all disabled:opacity-50"
+                >
+                  {status === 'sending' ? 'পাঠানো হচ্ছে...' : 'লগইন লিংক পাঠান'}
+                </button>
+              </form>
+            )
+          ) : (
+            <button 
+              onClick={onLogout}
+              className="w-full py-3 bg-stone-100 text-stone-600 rounded-2xl font-bold hover:bg-stone-200 transition-colors"
+            >
+              লগআউট
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
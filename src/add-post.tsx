@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, MapPin, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { bn } from 'date-fns/locale';
+import { ApiErrorResponse, FieldError, FoodType, Post, PrayerRule, cn } from './types';
+import { PhotoPicker } from './photos';
+
+const WEEKDAYS = [
+  { day: 6, label: 'শনি' },
+  { day: 0, label: 'রবি' },
+  { day: 1, label: 'সোম' },
+  { day: 2, label: 'মঙ্গল' },
+  { day: 3, label: 'বুধ' },
+  { day: 4, label: 'বৃহঃ' },
+  { day: 5, label: 'শুক্র' },
+];
+
+const PRAYER_OPTIONS: { id: PrayerRule['prayer'], label: string, genitive: string }[] = [
+  { id: 'fajr', label: 'ফজর', genitive: 'ফজরের' },
+  { id: 'sunrise', label: 'সূর্যোদয়', genitive: 'সূর্যোদয়ের' },
+  { id: 'dhuhr', label: 'যোহর', genitive: 'যোহরের' },
+  { id: 'jummah', label: 'জুম্মা', genitive: 'জুম্মার' },
+  { id: 'asr', label: 'আসর', genitive: 'আসরের' },
+  { id: 'maghrib', label: 'মাগরিব (ইফতার)', genitive: 'মাগরিবের' },
+  { id: 'isha', label: 'এশা', genitive: 'এশার' },
+];
+
+const CALCULATION_METHODS = [
+  { id: 'karachi', label: 'করাচি (বাংলাদেশ)' },
+  { id: 'mwl', label: 'মুসলিম ওয়ার্ল্ড লীগ' },
+  { id: 'isna', label: 'ISNA' },
+  { id: 'egypt', label: 'মিশর' },
+  { id: 'makkah', label: 'উম্মুল কুরা, মক্কা' },
+];
+
+export const describePrayerRule = (rule: PrayerRule) => {
+  const prayer = PRAYER_OPTIONS.find(p => p.id === rule.prayer)?.genitive ?? rule.prayer;
+  const minutes = Math.abs(rule.offset_minutes).toLocaleString('bn-BD');
+  if (rule.offset_minutes === 0) return `${prayer} সময়`;
+  return `${prayer} ${minutes} মিনিট ${rule.offset_minutes > 0 ? 'পর' : 'আগে'}`;
+};
+
+const DURATION_OPTIONS = [
+  { minutes: 60, label: '১ ঘণ্টা' },
+  { minutes: 120, label: '২ ঘণ্টা' },
+  { minutes: 180, label: '৩ ঘণ্টা' },
+  { minutes: 360, label: '৬ ঘণ্টা' },
+];
+
+// Server fields that are shown next to an input; anything else is listed above the submit button
+const ADD_POST_FIELDS = [
+  'place_name', 'food_type', 'description', 'lat', 'lng', 'distribution_time', 'date', 'frequency', 'weekdays',
+  'start_time', 'until', 'duration_minutes',
+];
+
+export function FieldMessage({ error }: { error?: FieldError }) {
+  if (!error) return null;
+  return <p className="mt-1 text-xs font-bold text-red-600">{error.message_bn}</p>;
+}
+
+export function AddPostModal({ onClose, onSubmit, onConfirmExisting, foodTypes, tempLocation, isSubmitting, error }: { onClose: () => void, onSubmit: (e: React.FormEvent<HTMLFormElement>) => void, onConfirmExisting: (post: Post) => void, foodTypes: FoodType[], tempLocation: [number, number] | null, isSubmitting: boolean, error: ApiErrorResponse | null }) {
+  const [mode, setMode] = useState<'once' | 'repeats'>('once');
+  const [frequency, setFrequency] = useState<'daily' | 'weekly'>('weekly');
+  const [timeMode, setTimeMode] = useState<'clock' | 'prayer'>('clock');
+  const fields = error?.fields ?? {};
+  const prayerError = Object.entries(fields).find(([field]) => field.startsWith('prayer_rule'))?.[1];
+  const otherErrors = Object.entries(fields).filter(([field]) => !ADD_POST_FIELDS.includes(field) && !field.startsWith('prayer_rule'));
+  const duplicates = error?.code === 'possible_duplicates' ? error.duplicates ?? [] : [];
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        className="relative w-full max-w-lg bg-white rounded-t-3xl sm:rounded-3xl overflow-y-auto max-h-[95vh] shadow-2xl"
+      >
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold text-green-800">নতুন স্পট যোগ করুন</h2>
+            <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full">
+              <XCircle className="w-6 h-6 text-stone-400" />
+            </button>
+          </div>
+
+          {tempLocation && (
+            <div className="mb-4 p-3 bg-orange-50 border border-orange-100 rounded-xl flex items-center gap-2">
+              <MapPin className="w-4 h-4 text-orange-500" />
+              <span className="text-xs font-bold text-orange-700">
+                নির্বাচিত লোকেশন: {tempLocation[0].toFixed(4)}, {tempLocation[1].toFixed(4)}
+              </span>
+            </div>
+          )}
+          {(fields.lat || fields.lng) && (
+            <p className="-mt-2 mb-4 text-xs font-bold text-red-600">লোকেশন: {(fields.lat || fields.lng).message_bn}</p>
+          )}
+
+          <form onSubmit={onSubmit} className="space-y-4">
+            <div>
+              <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">মসজিদ বা এলাকার নাম</label>
+              <input 
+                name="place_name" 
+                required 
+                placeholder="যেমন: জয়দেবপুর স্টেশন" 
+                className={cn("w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20", fields.place_name && "ring-2 ring-red-400")}
+              />
+              <FieldMessage error={fields.place_name} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-stone-500 uppercase mb-2.5">খাবারের ধরন</label>
+              <div className="grid grid-cols-2 gap-2">
+                {foodTypes.map((item, index) => (
+                  <label key={item.id} className="relative cursor-pointer group">
+                    <input 
+                      type="radio" 
+                      name="food_type" 
+                      value={item.id} 
+                      className="peer sr-only" 
+                      required
+                      defaultChecked={index === 0}
+                    />
+                    <div className="px-4 py-3 bg-stone-100 rounded-xl border-2 border-transparent peer-checked:border-green-600 peer-checked:bg-green-50 transition-all text-center">
+                      <span className="text-sm font-bold text-stone-700 peer-checked:text-green-800">{item.label_bn}</span>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <FieldMessage error={fields.food_type} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">বিবরণ (ঐচ্ছিক)</label>
+              <textarea 
+                name="description" 
+                maxLength={500}
+                rows={2}
+                placeholder="যেমন: মসজিদের পেছনের গেটে লাইন হয়" 
+                className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20 text-sm"
+              />
+              <FieldMessage error={fields.description} />
+            </div>
+            {mode === 'once' && <PhotoPicker />}
+            <div>
+              <input type="hidden" name="mode" value={mode} />
+              <div className="grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-xl">
+                {([['once', 'একবার'], ['repeats', 'নিয়মিত হয়']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setMode(value)}
+                    className={cn(
+                      "py-2 rounded-lg text-sm font-bold transition-all",
+                      mode === value ? "bg-white text-green-800 shadow-sm" : "text-stone-500"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 gap-4">
+              <div>
+                <input type="hidden" name="time_mode" value={timeMode} />
+                <div className="flex gap-2">
+                  {([['clock', 'ঘড়ির সময়'], ['prayer', 'নামাজের সময় অনুযায়ী']] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setTimeMode(value)}
+                      className={cn(
+                        "px-3 py-1.5 rounded-full text-xs font-bold border transition-all",
+                        timeMode === value ? "bg-green-700 text-white border-green-700" : "bg-white text-stone-500 border-stone-200"
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {mode === 'once' ? (
+                timeMode === 'clock' ? (
+                  <div>
+                    <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">সময়</label>
+                    <input 
+                      name="time" 
+                      type="datetime-local" 
+                      required 
+                      defaultValue={new Date().toLocaleString('sv-SE').replace(' ', 'T').slice(0, 16)}
+                      className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20 text-sm"
+                    />
+                    <FieldMessage error={fields.distribution_time} />
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">তারিখ</label>
+                    <input 
+                      name="date" 
+                      type="date" 
+                      required 
+                      defaultValue={new Date().toLocaleDateString('sv-SE')}
+                      className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20 text-sm"
+                    />
+                    <FieldMessage error={fields.date} />
+                  </div>
+                )
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">কত দিন পর পর</label>
+                    <select 
+                      name="frequency" 
+                      value={frequency}
+                      onChange={(e) => setFrequency(e.target.value as 'daily' | 'weekly')}
+                      className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20 text-sm"
+                    >
+                      <option value="weekly">সাপ্তাহিক</option>
+                      <option value="daily">প্রতিদিন</option>
+                    </select>
+                    <FieldMessage error={fields.frequency} />
+                  </div>
+                  {frequency === 'weekly' && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {WEEKDAYS.map(({ day, label }) => (
+                        <label key={day} className="cursor-pointer">
+                          <input type="checkbox" name="weekdays" value={day} defaultChecked={day === 5} className="peer sr-only" />
+                          <div className="px-3 py-2 bg-stone-100 rounded-lg border-2 border-transparent peer-checked:border-green-600 peer-checked:bg-green-50 text-xs font-bold text-stone-700">
+                            {label}
+                          </div>
+                        </label>
+                      ))}
+                      <div className="w-full"><FieldMessage error={fields.weekdays} /></div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    {timeMode === 'clock' && (
+                      <div>
+                        <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">শুরুর সময়</label>
+                        <input 
+                          name="start_time" 
+                          type="time" 
+                          required 
+                          defaultValue="13:30"
+                          className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20 text-sm"
+                        />
+                        <FieldMessage error={fields.start_time} />
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">শেষ তারিখ (ঐচ্ছিক)</label>
+                      <input 
+                        name="until" 
+                        type="date" 
+                        className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20 text-sm"
+                      />
+                      <FieldMessage error={fields.until} />
+                    </div>
+                  </div>
+                </>
+              )}
+              {timeMode === 'prayer' && (
+                <div className="p-3 bg-green-50/60 border border-green-100 rounded-xl space-y-2">
+                  <div className="grid grid-cols-3 gap-2">
+                    <input 
+                      name="offset_minutes" 
+                      type="number" 
+                      min={0}
+                      max={360}
+                      defaultValue={30}
+                      className="px-3 py-2.5 bg-white rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500/20"
+                    />
+                    <select name="offset_direction" defaultValue="after" className="px-3 py-2.5 bg-white rounded-lg text-sm">
+                      <option value="after">মিনিট পরে</option>
+                      <option value="before">মিনিট আগে</option>
+                    </select>
+                    <select name="prayer" defaultValue="maghrib" className="px-3 py-2.5 bg-white rounded-lg text-sm">
+                      {PRAYER_OPTIONS.map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <select name="method" defaultValue="karachi" className="w-full px-3 py-2.5 bg-white rounded-lg text-xs text-stone-600">
+                    {CALCULATION_METHODS.map(m => (
+                      <option key={m.id} value={m.id}>হিসাব পদ্ধতি: {m.label}</option>
+                    ))}
+                  </select>
+                  <FieldMessage error={prayerError} />
+                </div>
+              )}
+              <div>
+                <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">কতক্ষণ চলবে</label>
+                <select 
+                  name="duration_minutes" 
+                  defaultValue={180}
+                  className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20 text-sm"
+                >
+                  {DURATION_OPTIONS.map(option => (
+                    <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                  ))}
+                </select>
+                <FieldMessage error={fields.duration_minutes} />
+              </div>
+            </div>
+            {duplicates.length > 0 ? (
+              <div className="p-3 bg-orange-50 border border-orange-100 rounded-xl text-sm text-orange-800">
+                {/* Submitting again posts the spot anyway */}
+                <input type="hidden" name="allow_duplicate" value="true" />
+                <p className="font-bold mb-2">{error!.message_bn}। এটাই কি সেই স্পট?</p>
+                <div className="space-y-2">
+                  {duplicates.map(post => (
+                    <div key={post.id} className="p-2.5 bg-white rounded-lg flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-stone-800 truncate">{post.place_name}</p>
+                        <p className="text-xs text-stone-500">
+                          {format(parseISO(post.distribution_time), 'h:mm a', { locale: bn })}
+                          {post.distance !== undefined && ` · ${Math.round(post.distance).toLocaleString('bn-BD')} মিটার দূরে`}
+                          {` · ${post.true_votes.toLocaleString('bn-BD')} জন নিশ্চিত করেছে`}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => onConfirmExisting(post)}
+                        className="shrink-0 px-3 py-2 bg-green-700 text-white rounded-lg text-xs font-bold flex items-center gap-1"
+                      >
+                        <CheckCircle2 className="w-3.5 h-3.5" />
+                        এটাই সঠিক
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : error && (
+              <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700 flex gap-2">
+                <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-bold">{error.message_bn}</p>
+                  {otherErrors.map(([field, fieldError]) => (
+                    <p key={field} className="text-xs">{field}: {fieldError.message_bn}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+            <button 
+              type="submit" 
+              disabled={isSubmitting}
+              className="w-full py-4 bg-green-700 text-white rounded-2xl font-bold text-lg shadow-lg shadow-green-700/20 hover:bg-green-800 active:scale-[0.98] transition-all mt-4 mb-8 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'প্রসেসিং হচ্ছে...' : duplicates.length > 0 ? 'তবুও নতুন স্পট পোস্ট করুন' : 'পোস্ট করুন'}
+            </button>
+          </form>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
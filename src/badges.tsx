@@ -0,0 +1,52 @@
+import { User as UserIcon } from 'lucide-react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { bn } from 'date-fns/locale';
+import { Post, ReputationLevel, SpotStatus, cn } from './types';
+
+const STATUS_BADGES: Record<Post['status'], { label: string, className: string }> = {
+  upcoming: { label: 'শীঘ্রই শুরু', className: 'bg-sky-100 text-sky-700' },
+  live: { label: 'চলছে', className: 'bg-green-100 text-green-700' },
+  ended: { label: 'শেষ হয়েছে', className: 'bg-stone-200 text-stone-600' },
+  expired: { label: 'মেয়াদোত্তীর্ণ', className: 'bg-stone-200 text-stone-500' },
+};
+
+export const SPOT_STATUS_BADGES: Record<SpotStatus, { label: string, className: string }> = {
+  available: { label: 'এখনো পাওয়া যাচ্ছে', className: 'bg-green-100 text-green-700' },
+  running_low: { label: 'শেষের দিকে', className: 'bg-amber-100 text-amber-700' },
+  finished: { label: 'শেষ হয়ে গেছে', className: 'bg-stone-200 text-stone-600' },
+  moved: { label: 'জায়গা বদলেছে', className: 'bg-violet-100 text-violet-700' },
+};
+
+// A reported status only matters while the distribution is still on
+export const liveStatusBadge = (post: Post) =>
+  post.current_status && (post.status === 'live' || post.status === 'upcoming')
+    ? SPOT_STATUS_BADGES[post.current_status]
+    : null;
+
+export const timeAgo = (iso: string) => formatDistanceToNow(parseISO(iso), { addSuffix: true, locale: bn });
+
+const REPUTATION_BADGES: Record<ReputationLevel, { label: string, className: string }> = {
+  new: { label: 'নতুন', className: 'bg-sky-100 text-sky-700' },
+  member: { label: 'সদস্য', className: 'bg-stone-100 text-stone-600' },
+  trusted: { label: 'বিশ্বস্ত', className: 'bg-emerald-100 text-emerald-700' },
+  flagged: { label: 'সন্দেহজনক', className: 'bg-rose-100 text-rose-700' },
+};
+
+export function AuthorLine({ post, className }: { post: Post, className?: string }) {
+  if (!post.user_name) return null;
+  const badge = post.user_reputation ? REPUTATION_BADGES[post.user_reputation] : null;
+  return (
+    <div className={cn("flex items-center gap-1.5 text-stone-500 font-medium min-w-0", className)}>
+      <UserIcon className="w-3 h-3 text-stone-400 shrink-0" />
+      <span className="truncate">{post.user_name}</span>
+      {badge && (
+        <span className={cn("px-1.5 py-0.5 text-[9px] font-black rounded whitespace-nowrap", badge.className)}>{badge.label}</span>
+      )}
+    </div>
+  );
+}
+
+export const getStatusBadge = (post: Post) =>
+  post.ending_soon
+    ? { label: 'শীঘ্রই শেষ হবে', className: 'bg-amber-100 text-amber-700' }
+    : STATUS_BADGES[post.status];
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, Clock, MapPin, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { FoodType, Post, cn } from './types';
+import { formatDistance, relativeTime } from './format';
+import { AuthorLine, getStatusBadge, liveStatusBadge, timeAgo } from './badges';
+
+const CARD_WIDTH = 280;
+const CARD_GAP = 16;
+// Cards rendered past each edge so a quick swipe does not show blanks
+const CARD_OVERSCAN = 3;
+
+// A horizontal row of fixed-width cards that only renders the ones in view
+export function VirtualCardRow<T extends { id: string }>({ items, renderItem, className }: { items: T[], renderItem: (item: T) => React.ReactNode, className?: string }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState({ left: 0, width: window.innerWidth });
+
+  useEffect(() => {
+    const el = ref.current!;
+    const measure = () => setView({ left: el.scrollLeft, width: el.clientWidth });
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const stride = CARD_WIDTH + CARD_GAP;
+  const first = Math.max(0, Math.floor(view.left / stride) - CARD_OVERSCAN);
+  const last = Math.min(items.length, Math.ceil((view.left + view.width) / stride) + CARD_OVERSCAN);
+
+  return (
+    <div
+      ref={ref}
+      onScroll={e => setView({ left: e.currentTarget.scrollLeft, width: e.currentTarget.clientWidth })}
+      className={cn("overflow-x-auto flex", className)}
+    >
+      {/* Spacers stand in for the cards left out, keeping the scroll width and position right */}
+      <div className="shrink-0" style={{ width: first * stride }} />
+      {items.slice(first, last).map(item => (
+        <div key={item.id} className="shrink-0" style={{ width: CARD_WIDTH, marginRight: CARD_GAP }}>
+          {renderItem(item)}
+        </div>
+      ))}
+      <div className="shrink-0" style={{ width: (items.length - last) * stride }} />
+    </div>
+  );
+}
+
+export function PostCard({ post, foodType, distance, now, onVote, onClick }: { post: Post, foodType?: FoodType, distance: number | null, now: number, onVote: (id: string, type: 1 | 0) => void, onClick: () => void }) {
+  return (
+    <motion.div 
+      layout
+      className="bg-white rounded-2xl p-4 shadow-lg flex flex-col gap-3 relative overflow-hidden"
+      onClick={onClick}
+    >
+      <div className="flex gap-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <h3 className="font-bold text-stone-900 truncate text-base">{post.place_name}</h3>
+            <span className={cn("px-1.5 py-0.5 text-[9px] font-black rounded whitespace-nowrap", getStatusBadge(post).className)}>
+              {getStatusBadge(post).label}
+            </span>
+            {post.trust_level === 'confirmed' && (
+              <span className="px-1.5 py-0.5 bg-green-100 text-green-700 text-[9px] font-black rounded uppercase tracking-wider">নিশ্চিত</span>
+            )}
+          </div>
+          {liveStatusBadge(post) && (
+            <div className="flex items-center gap-1.5 mt-1 text-[11px] min-w-0">
+              <span className={cn("px-1.5 py-0.5 text-[9px] font-black rounded whitespace-nowrap", liveStatusBadge(post)!.className)}>
+                {liveStatusBadge(post)!.label}
+              </span>
+              {post.current_status_note && <span className="text-stone-600 truncate">{post.current_status_note}</span>}
+              <span className="text-stone-400 whitespace-nowrap">{timeAgo(post.current_status_at!)}</span>
+            </div>
+          )}
+          <div className="flex items-center gap-3 mt-1">
+            <div className="flex items-center gap-1 text-[11px] text-stone-500 font-medium">
+              <MapPin className="w-3 h-3 text-stone-400" />
+              {distance !== null ? `${formatDistance(distance)} দূরে` : `${post.lat.toFixed(2)}, ${post.lng.toFixed(2)}`}
+            </div>
+            <div className="flex items-center gap-1 text-[11px] text-stone-500 font-medium">
+              <Clock className="w-3 h-3 text-stone-400" />
+              {relativeTime(post.distribution_time, now)}
+            </div>
+          </div>
+          <AuthorLine post={post} className="mt-1 text-[11px]" />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-1">
+        <div className="flex items-center gap-1 px-2.5 py-1 bg-green-50 text-green-700 rounded-lg text-[11px] font-bold border border-green-100">
+          <CheckCircle2 className="w-3.5 h-3.5" />
+          {post.true_votes} সত্যি
+        </div>
+        <div className="flex items-center gap-1 px-2.5 py-1 bg-rose-50 text-rose-700 rounded-lg text-[11px] font-bold border border-rose-100">
+          <XCircle className="w-3.5 h-3.5" />
+          {post.false_votes} ভুয়া
+        </div>
+        <div className="ml-auto text-[11px] font-bold" style={{ color: foodType?.color }}>
+          {foodType?.label_bn}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
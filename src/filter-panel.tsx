@@ -0,0 +1,139 @@
+import { XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { FoodType, cn } from './types';
+import { DEFAULT_FILTERS, DISTANCE_OPTIONS_KM, Filters, SORT_ORDERS, SortOrder, TIME_WINDOWS, TimeWindow } from './filters';
+
+const TIME_WINDOW_LABELS: Record<TimeWindow, string> = {
+  any: 'যেকোনো সময়',
+  now: 'এখন চলছে',
+  tonight: 'আজ রাতে',
+  jummah: 'জুমার পর (শুক্রবার)',
+};
+
+const TRUST_FILTER_OPTIONS: { value: Filters['minTrust'], label: string }[] = [
+  { value: null, label: 'সব' },
+  { value: 'unverified', label: 'বিতর্কিত বাদে' },
+  { value: 'confirmed', label: 'শুধু নিশ্চিত' },
+];
+
+const SORT_LABELS: Record<SortOrder, string> = {
+  newest: 'নতুন আগে',
+  nearest: 'কাছের আগে',
+  soonest: 'শীঘ্রই শুরু',
+  trusted: 'সবচেয়ে বিশ্বস্ত',
+};
+
+const chipClass = (active: boolean) => cn(
+  "px-3 py-1.5 rounded-full text-xs font-bold border transition-colors",
+  active ? "bg-green-700 text-white border-green-700" : "bg-white text-stone-600 border-stone-200"
+);
+
+export function FilterPanel({ filters, foodTypes, hasLocation, onChange, onClose }: { filters: Filters, foodTypes: FoodType[], hasLocation: boolean, onChange: (filters: Filters) => void, onClose: () => void }) {
+  const update = (changes: Partial<Filters>) => onChange({ ...filters, ...changes });
+
+  const toggleFoodType = (id: string) => update({
+    foodTypes: filters.foodTypes.includes(id) ? filters.foodTypes.filter(f => f !== id) : [...filters.foodTypes, id],
+  });
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        className="relative w-full max-w-lg bg-white rounded-t-3xl sm:rounded-3xl overflow-y-auto max-h-[95vh] shadow-2xl"
+      >
+        <div className="p-6 space-y-5">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-green-800">ফিল্টার</h2>
+            <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full">
+              <XCircle className="w-6 h-6 text-stone-400" />
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-stone-500 uppercase mb-2">খাবারের ধরন</label>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => update({ foodTypes: [] })} className={chipClass(!filters.foodTypes.length)}>সব</button>
+              {foodTypes.map(f => (
+                <button key={f.id} onClick={() => toggleFoodType(f.id)} className={chipClass(filters.foodTypes.includes(f.id))}>
+                  {f.label_bn}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-stone-500 uppercase mb-2">সময়</label>
+            <div className="flex flex-wrap gap-2">
+              {TIME_WINDOWS.map(time => (
+                <button key={time} onClick={() => update({ time })} className={chipClass(filters.time === time)}>
+                  {TIME_WINDOW_LABELS[time]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-stone-500 uppercase mb-2">বিশ্বস্ততা</label>
+            <div className="flex flex-wrap gap-2">
+              {TRUST_FILTER_OPTIONS.map(option => (
+                <button key={option.label} onClick={() => update({ minTrust: option.value })} className={chipClass(filters.minTrust === option.value)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-stone-500 uppercase mb-2">দূরত্ব</label>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => update({ maxDistanceKm: null })} className={chipClass(!filters.maxDistanceKm)}>যেকোনো দূরত্ব</button>
+              {DISTANCE_OPTIONS_KM.map(km => (
+                <button key={km} onClick={() => update({ maxDistanceKm: km })} className={chipClass(filters.maxDistanceKm === km)}>
+                  {km.toLocaleString('bn-BD')} কিমির মধ্যে
+                </button>
+              ))}
+            </div>
+            {!hasLocation && filters.maxDistanceKm && (
+              <p className="mt-1 text-[11px] text-stone-500">আপনার লোকেশন পাওয়া গেলে দূরত্ব ফিল্টার কাজ করবে</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-stone-500 uppercase mb-2">সাজানো</label>
+            <div className="flex flex-wrap gap-2">
+              {SORT_ORDERS.map(sort => (
+                <button key={sort} onClick={() => update({ sort })} className={chipClass(filters.sort === sort)}>
+                  {SORT_LABELS[sort]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={() => onChange({ ...DEFAULT_FILTERS, q: filters.q })}
+              className="flex-1 py-3 bg-stone-100 text-stone-600 rounded-2xl font-bold hover:bg-stone-200 transition-colors"
+            >
+              রিসেট
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 bg-green-700 text-white rounded-2xl font-bold shadow-lg shadow-green-700/20 hover:bg-green-800 transition-colors"
+            >
+              দেখুন
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import type { Post, TrustLevel } from './types';
+
+/**
+ * The filter panel's state. It is kept in the query string (see
+ * `filtersFromSearch`), so a filtered view can be shared as a link, and it
+ * applies to the map markers and the spot list alike.
+ */
+export type TimeWindow = 'any' | 'now' | 'tonight' | 'jummah';
+export type SortOrder = 'newest' | 'nearest' | 'soonest' | 'trusted';
+
+export interface Filters {
+  /** Free text matched against the place name, description and food type name */
+  q: string;
+  /** Empty for all food types */
+  foodTypes: string[];
+  time: TimeWindow;
+  /** Null for every level, disputed included */
+  minTrust: Exclude<TrustLevel, 'disputed'> | null;
+  /** Kilometres from the user's location; null for any distance */
+  maxDistanceKm: number | null;
+  sort: SortOrder;
+}
+
+export const DEFAULT_FILTERS: Filters = { q: '', foodTypes: [], time: 'any', minTrust: null, maxDistanceKm: null, sort: 'newest' };
+
+export const TIME_WINDOWS: TimeWindow[] = ['any', 'now', 'tonight', 'jummah'];
+export const SORT_ORDERS: SortOrder[] = ['newest', 'nearest', 'soonest', 'trusted'];
+export const DISTANCE_OPTIONS_KM = [1, 2, 5, 10];
+
+// "Tonight" runs from iftar time until the small hours
+const TONIGHT_FROM_HOUR = 17;
+const TONIGHT_UNTIL_HOUR = 4;
+// After Friday prayers until Asr
+const JUMMAH_FROM_HOUR = 13;
+const JUMMAH_UNTIL_HOUR = 16;
+const FRIDAY = 5;
+
+const TRUST_RANK: Record<TrustLevel, number> = { disputed: 0, unverified: 1, confirmed: 2 };
+
+// Query string keys; anything else in the URL is left alone
+const PARAMS = { q: 'q', foodTypes: 'food', time: 'time', minTrust: 'trust', maxDistanceKm: 'within', sort: 'sort' } as const;
+
+export function filtersFromSearch(search: string): Filters {
+  const params = new URLSearchParams(search);
+  const time = params.get(PARAMS.time) as TimeWindow;
+  const sort = params.get(PARAMS.sort) as SortOrder;
+  const minTrust = params.get(PARAMS.minTrust);
+  const maxDistanceKm = Number(params.get(PARAMS.maxDistanceKm));
+  return {
+    q: params.get(PARAMS.q) ?? '',
+    foodTypes: params.get(PARAMS.foodTypes)?.split(',').filter(Boolean) ?? [],
+    time: TIME_WINDOWS.includes(time) ? time : 'any',
+    minTrust: minTrust === 'unverified' || minTrust === 'confirmed' ? minTrust : null,
+    maxDistanceKm: maxDistanceKm > 0 ? maxDistanceKm : null,
+    sort: SORT_ORDERS.includes(sort) ? sort : 'newest',
+  };
+}
+
+/** `search` with the filter parameters replaced; defaults are left out to keep links short. */
+export function filtersToSearch(filters: Filters, search: string) {
+  const params = new URLSearchParams(search);
+  for (const key of Object.values(PARAMS)) params.delete(key);
+  if (filters.q) params.set(PARAMS.q, filters.q);
+  if (filters.foodTypes.length) params.set(PARAMS.foodTypes, filters.foodTypes.join(','));
+  if (filters.time !== 'any') params.set(PARAMS.time, filters.time);
+  if (filters.minTrust) params.set(PARAMS.minTrust, filters.minTrust);
+  if (filters.maxDistanceKm) params.set(PARAMS.maxDistanceKm, String(filters.maxDistanceKm));
+  if (filters.sort !== 'newest') params.set(PARAMS.sort, filters.sort);
+  // Commas are safe in a query string and keep shared links readable
+  const query = params.toString().replace(/%2C/g, ',');
+  return query ? `?${query}` : '';
+}
+
+/** How many panel filters differ from the defaults; the search box and sort order do not count. */
+export function activeFilterCount(filters: Filters) {
+  return (filters.foodTypes.length ? 1 : 0) + (filters.time !== 'any' ? 1 : 0) +
+    (filters.minTrust ? 1 : 0) + (filters.maxDistanceKm ? 1 : 0);
+}
+
+const atHour = (day: Date, hour: number) => {
+  const date = new Date(day);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+};
+
+/**
+ * The stretch of time a window covers, by the phone's clock; a post matches
+ * when its distribution overlaps it. Null for any time.
+ */
+export function timeWindowRange(window: TimeWindow, now = new Date()): [Date, Date] | null {
+  if (window === 'now') return [now, now];
+  if (window === 'tonight') {
+    // Past midnight, "tonight" is still the night that started yesterday
+    const evening = new Date(now);
+    if (now.getHours() < TONIGHT_UNTIL_HOUR) evening.setDate(evening.getDate() - 1);
+    const start = atHour(evening, TONIGHT_FROM_HOUR);
+    const end = atHour(new Date(start.getTime() + 24 * 60 * 60 * 1000), TONIGHT_UNTIL_HOUR);
+    return [start, end];
+  }
+  if (window === 'jummah') {
+    // This Friday's, until it is over; then next week's
+    const friday = new Date(now);
+    friday.setDate(friday.getDate() + (FRIDAY - friday.getDay() + 7) % 7);
+    if (atHour(friday, JUMMAH_UNTIL_HOUR) <= now) friday.setDate(friday.getDate() + 7);
+    return [atHour(friday, JUMMAH_FROM_HOUR), atHour(friday, JUMMAH_UNTIL_HOUR)];
+  }
+  return null;
+}
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function distanceMeters([lat, lng]: [number, number], to: { lat: number, lng: number }) {
+  const dLat = toRad(to.lat - lat);
+  const dLng = toRad(to.lng - lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Returns a predicate for the posts that pass `filters`. `origin` is where
+ * distances are measured from; the distance filter is ignored without one.
+ * `foodLabel` gives the name the search box also matches.
+ */
+export function postFilter(filters: Filters, origin: [number, number] | null, foodLabel: (id: string) => string, now = new Date()) {
+  const query = filters.q.trim().toLowerCase();
+  const range = timeWindowRange(filters.time, now);
+  return (post: Post) =>
+    (!query || post.place_name.toLowerCase().includes(query) || (post.description || '').toLowerCase().includes(query) ||
+      foodLabel(post.food_type).includes(query)) &&
+    (!filters.foodTypes.length || filters.foodTypes.includes(post.food_type)) &&
+    (!filters.minTrust || TRUST_RANK[post.trust_level] >= TRUST_RANK[filters.minTrust]) &&
+    (!range || (new Date(post.distribution_time) <= range[1] && new Date(post.ends_at) > range[0])) &&
+    (!filters.maxDistanceKm || !origin || distanceMeters(origin, post) <= filters.maxDistanceKm * 1000);
+}
+
+// Live spots first, then upcoming ones by start time, then the ones that are over
+const soonestRank = (post: Post) => (post.status === 'live' ? 0 : post.status === 'upcoming' ? 1 : 2);
+
+export function sortPosts(posts: Post[], sort: SortOrder, origin: [number, number] | null) {
+  const sorted = [...posts];
+  if (sort === 'nearest' && origin) {
+    const distance = new Map(posts.map(p => [p.id, distanceMeters(origin, p)]));
+    sorted.sort((a, b) => distance.get(a.id)! - distance.get(b.id)!);
+  } else if (sort === 'soonest') {
+    sorted.sort((a, b) => soonestRank(a) - soonestRank(b) ||
+      (soonestRank(a) === 0 ? a.ends_at.localeCompare(b.ends_at) : a.distribution_time.localeCompare(b.distribution_time)));
+  } else if (sort === 'trusted') {
+    sorted.sort((a, b) => b.trust_score - a.trust_score || b.true_votes - a.true_votes);
+  } else {
+    sorted.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+  return sorted;
+}
+
+/** The filters `GET /api/posts/clusters` understands, as query parameters. */
+export function clusterParams(filters: Filters, origin: [number, number] | null, now = new Date()) {
+  const params = new URLSearchParams();
+  if (filters.foodTypes.length) params.set('food_type', filters.foodTypes.join(','));
+  if (filters.minTrust) params.set('min_trust', filters.minTrust);
+  const range = timeWindowRange(filters.time, now);
+  if (range) {
+    params.set('from', range[0].toISOString());
+    params.set('until', range[1].toISOString());
+  }
+  if (filters.maxDistanceKm && origin) {
+    params.set('near', `${origin[0]},${origin[1]}`);
+    params.set('radius', String(filters.maxDistanceKm * 1000));
+  }
+  return params;
+}
@@ -0,0 +1,32 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const bnNumber = (n: number, fractionDigits = 0) =>
+  n.toLocaleString('bn-BD', { maximumFractionDigits: fractionDigits });
+
+/** "২০ মিনিট পরে", "১ ঘণ্টা আগে"; whole units, rounded down, so a start 90 minutes away is "১ ঘণ্টা পরে". */
+export function relativeTime(iso: string, now = Date.now()) {
+  const diff = new Date(iso).getTime() - now;
+  const abs = Math.abs(diff);
+  if (abs < MINUTE) return 'এইমাত্র';
+  const amount = abs < HOUR ? `${bnNumber(Math.floor(abs / MINUTE))} মিনিট`
+    : abs < DAY ? `${bnNumber(Math.floor(abs / HOUR))} ঘণ্টা`
+    : `${bnNumber(Math.floor(abs / DAY))} দিন`;
+  return `${amount} ${diff > 0 ? 'পরে' : 'আগে'}`;
+}
+
+/** "৩৫০ মিটার" up to a kilometre, then "১.২ কিমি". */
+export function formatDistance(meters: number) {
+  const rounded = Math.round(meters / 10) * 10;
+  if (rounded < 1000) return `${bnNumber(rounded)} মিটার`;
+  return `${bnNumber(meters / 1000, meters < 10000 ? 1 : 0)} কিমি`;
+}
+
+/** "১২ মিনিট", "১ ঘণ্টা ৫ মিনিট" */
+export function formatDuration(seconds: number) {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${bnNumber(minutes)} মিনিট`;
+  const rest = minutes % 60;
+  return `${bnNumber(Math.floor(minutes / 60))} ঘণ্টা${rest ? ` ${bnNumber(rest)} মিনিট` : ''}`;
+}
@@ -0,0 +1,119 @@
+import { Socket, io } from 'socket.io-client';
+import { Post, UpdateEvent, VoteUpdate } from './types';
+
+type LiveEvents = {
+  'post:created': Post;
+  'post:voted': VoteUpdate;
+  'post:updated': UpdateEvent;
+  'post:hidden': { post_id: string; merged_into?: string };
+  'post:expired': { post_id: string };
+};
+
+type LiveHandlers = { [K in keyof LiveEvents]: (payload: LiveEvents[K]) => void };
+
+const LIVE_EVENT_TYPES: (keyof LiveEvents)[] = ['post:created', 'post:voted', 'post:updated', 'post:hidden', 'post:expired'];
+
+// After EventSource gives up (e.g. the server answered with an error), try again this much later
+const STREAM_RETRY_MS = 30000;
+// Event ids remembered for de-duplication
+const SEEN_EVENT_LIMIT = 500;
+
+/**
+ * Connects to the server's live events: Socket.io when the server runs it,
+ * otherwise the `/api/stream` Server-Sent Events endpoint, which replays
+ * missed events by id after a reconnect. Events carry their id in the server's
+ * event log, so one seen twice is delivered once. Nothing arrives until
+ * `subscribe` names the area (a bbox string) the events should come from.
+ */
+export function connectLive(handlers: LiveHandlers, { onStatus, onReset }: { onStatus: (live: boolean) => void, onReset: () => void }) {
+  const seen = new Set<number>();
+  let lastEventId: number | null = null;
+  let socket: Socket | null = null;
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let area: string | null = null;
+
+  const deliver = <K extends keyof LiveEvents>(type: K, payload: LiveEvents[K], id: number | null) => {
+    if (id !== null) {
+      if (seen.has(id)) return;
+      seen.add(id);
+      // Sets iterate in insertion order, so this forgets the oldest id
+      if (seen.size > SEEN_EVENT_LIMIT) seen.delete(seen.values().next().value!);
+      lastEventId = Math.max(lastEventId ?? 0, id);
+    }
+    handlers[type](payload);
+  };
+
+  const reset = (id: number) => {
+    seen.clear();
+    lastEventId = id;
+    onReset();
+  };
+
+  const openStream = () => {
+    if (closed || !area) return;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    source?.close();
+    const query = new URLSearchParams({ bbox: area });
+    if (lastEventId !== null) query.set('last_event_id', String(lastEventId));
+    source = new EventSource(`/api/stream?${query}`);
+    source.onopen = () => onStatus(true);
+    source.onerror = () => {
+      onStatus(false);
+      // Otherwise EventSource reconnects by itself, sending Last-Event-ID
+      if (source?.readyState === EventSource.CLOSED) retryTimer = setTimeout(openStream, STREAM_RETRY_MS);
+    };
+    source.addEventListener('ready', e => { lastEventId ??= Number((e as MessageEvent).lastEventId); });
+    source.addEventListener('reset', e => reset(Number((e as MessageEvent).lastEventId)));
+    for (const type of LIVE_EVENT_TYPES) {
+      source.addEventListener(type, e => {
+        const message = e as MessageEvent;
+        deliver(type, JSON.parse(message.data), Number(message.lastEventId));
+      });
+    }
+  };
+
+  let hasConnected = false;
+  socket = io({ reconnectionAttempts: 5 });
+  socket.on('connect', () => {
+    // Rooms do not survive a reconnect, so the area is sent again every time
+    if (area) socket?.emit('subscribe', area);
+    // Socket.io does not replay, so anything sent while disconnected needs a reload
+    if (hasConnected) onReset();
+    hasConnected = true;
+    onStatus(true);
+  });
+  socket.on('disconnect', () => onStatus(false));
+  const fallBackToStream = () => {
+    socket?.close();
+    socket = null;
+    openStream();
+  };
+  // No Socket.io on this server (e.g. production): use the event stream instead
+  socket.on('connect_error', () => { if (!hasConnected) fallBackToStream(); });
+  socket.io.on('reconnect_failed', fallBackToStream);
+  for (const type of LIVE_EVENT_TYPES) {
+    socket.on(type, (payload: Parameters<LiveHandlers[typeof type]>[0], id?: number) => deliver(type, payload, id ?? null));
+  }
+
+  return {
+    subscribe(bbox: string) {
+      if (bbox === area) return;
+      area = bbox;
+      if (socket) {
+        if (socket.connected) socket.emit('subscribe', bbox);
+      } else {
+        // A stream's area is fixed when it opens; the new one resumes from the last event id
+        openStream();
+      }
+    },
+    close() {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+      source?.close();
+    },
+  };
+}
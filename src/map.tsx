@@ -0,0 +1,202 @@
+import { useEffect, useMemo } from 'react';
+import { Marker, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import Supercluster from 'supercluster';
+import { Post, PostCluster, TrustLevel } from './types';
+import { CLUSTER_OPTIONS, TRUST_COUNTING, TrustCounts, dominantTrust } from '../shared/clusters';
+import { Route } from './routing';
+import 'leaflet/dist/leaflet.css';
+
+// Fix Leaflet default icon issue
+// Using CDN URLs for icons to avoid build issues with local assets in this environment
+const DefaultIcon = L.icon({
+    iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
+    shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
+    iconSize: [25, 41],
+    iconAnchor: [12, 41]
+});
+
+L.Marker.prototype.options.icon = DefaultIcon;
+
+const MARKER_ICONS = {
+  check: '<path d="M20 6L9 17l-5-5"/>',
+  clock: '<circle cx="12" cy="12" r="9"/><path d="M12 7v5l3 2"/>',
+  hourglass: '<path d="M6 3h12M6 21h12M7 3c0 5 10 5 10 9s-10 4-10 9M17 3c0 5-10 5-10 9s10 4 10 9"/>',
+  stop: '<path d="M18 6L6 18M6 6l12 12"/>',
+};
+
+const TRUST_COLORS: Record<TrustLevel, string> = {
+  unverified: '#F97316', // Neutral Orange
+  confirmed: '#10B981', // Confirmed Green
+  disputed: '#EF4444', // Untrusted Red
+};
+
+const getMarkerIcon = (post: Post) => {
+  let color = TRUST_COLORS[post.trust_level];
+
+  let icon = MARKER_ICONS.check;
+  let extraClass = '';
+  if (post.status === 'upcoming') {
+    icon = MARKER_ICONS.clock;
+    extraClass = 'opacity-60 border-dashed';
+  } else if (post.status === 'ended') {
+    color = '#9CA3AF'; // Finished Grey
+    icon = MARKER_ICONS.stop;
+  } else if (post.ending_soon) {
+    icon = MARKER_ICONS.hourglass;
+    extraClass = 'ring-4 ring-amber-300 animate-pulse';
+  }
+
+  return L.divIcon({
+    className: 'custom-div-icon',
+    html: `<div style="background-color: ${color};" class="w-8 h-8 rounded-full border-4 border-white shadow-lg flex items-center justify-center text-white ${extraClass}">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round">${icon}</svg>
+           </div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 32]
+  });
+};
+
+// Busy nights put hundreds of spots in view, so nearby markers are grouped into one badge per cluster
+const clusterIcons = new Map<string, L.DivIcon>();
+
+const getClusterIcon = (count: number, trust: TrustLevel) => {
+  const key = `${trust}:${count}`;
+  let icon = clusterIcons.get(key);
+  if (!icon) {
+    const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+    icon = L.divIcon({
+      className: 'custom-div-icon',
+      html: `<div style="background-color: ${TRUST_COLORS[trust]}; width: ${size}px; height: ${size}px;" class="rounded-full border-4 border-white/80 shadow-lg flex items-center justify-center text-white text-xs font-black">${count.toLocaleString('bn-BD')}</div>`,
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+    });
+    clusterIcons.set(key, icon);
+  }
+  return icon;
+};
+
+// A lone post in a server cluster, whose details the client may not have loaded
+const getDotIcon = (trust: TrustLevel) => L.divIcon({
+  className: 'custom-div-icon',
+  html: `<div style="background-color: ${TRUST_COLORS[trust]};" class="w-4 h-4 rounded-full border-2 border-white shadow"></div>`,
+  iconSize: [16, 16],
+  iconAnchor: [8, 8],
+});
+
+// Draws the walking route and brings all of it into view
+export function RouteLayer({ route }: { route: Route }) {
+  const map = useMap();
+  useEffect(() => {
+    map.fitBounds(L.latLngBounds(route.points), { padding: [48, 48] });
+  }, [route, map]);
+  return (
+    <Polyline
+      positions={route.points}
+      pathOptions={{ color: '#2563EB', weight: 5, opacity: 0.8, dashArray: route.approximate ? '8 8' : undefined }}
+    />
+  );
+}
+
+// Component to handle map center updates
+export function ChangeView({ center }: { center: [number, number] }) {
+  const map = useMap();
+  useEffect(() => {
+    map.setView(center);
+  }, [center, map]);
+  return null;
+}
+
+// Reports the visible area (padded so small pans don't trigger a refetch) and the zoom
+export function ViewportWatcher({ onChange }: { onChange: (bbox: string, zoom: number) => void }) {
+  const map = useMapEvents({
+    moveend() {
+      onChange(map.getBounds().pad(0.25).toBBoxString(), map.getZoom());
+    },
+  });
+  useEffect(() => {
+    onChange(map.getBounds().pad(0.25).toBBoxString(), map.getZoom());
+  }, [map]);
+  return null;
+}
+
+// Markers for the loaded posts, clustered at the current zoom, or the server's clusters when zoomed out
+export function PostMarkers({ posts, serverClusters, bbox, zoom, onSelect }: { posts: Post[], serverClusters: PostCluster[] | null, bbox: string | null, zoom: number, onSelect: (postId: string) => void }) {
+  const map = useMap();
+
+  const index = useMemo(() => {
+    const index = new Supercluster<{ post: Post }, TrustCounts>({ ...CLUSTER_OPTIONS, ...TRUST_COUNTING });
+    index.load(posts.map(post => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [post.lng, post.lat] },
+      properties: { post },
+    })));
+    return index;
+  }, [posts]);
+
+  const zoomInto = (lat: number, lng: number, expansionZoom: number) =>
+    map.flyTo([lat, lng], Math.min(expansionZoom, CLUSTER_OPTIONS.maxZoom + 1));
+
+  if (serverClusters) {
+    return (
+      <>
+        {serverClusters.map(cluster => cluster.post_id ? (
+          <Marker
+            key={cluster.post_id}
+            position={[cluster.lat, cluster.lng]}
+            icon={getDotIcon(cluster.dominant_trust)}
+            eventHandlers={{ click: () => onSelect(cluster.post_id!) }}
+          />
+        ) : (
+          <Marker
+            key={`${cluster.lat},${cluster.lng}`}
+            position={[cluster.lat, cluster.lng]}
+            icon={getClusterIcon(cluster.count, cluster.dominant_trust)}
+            eventHandlers={{ click: () => zoomInto(cluster.lat, cluster.lng, cluster.expansion_zoom!) }}
+          />
+        ))}
+      </>
+    );
+  }
+
+  if (!bbox) return null;
+  const [west, south, east, north] = bbox.split(',').map(Number);
+  return (
+    <>
+      {index.getClusters([west, south, east, north], zoom).map(feature => {
+        const [lng, lat] = feature.geometry.coordinates;
+        if ('cluster' in feature.properties && feature.properties.cluster) {
+          const { cluster_id, point_count, ...trust } = feature.properties;
+          return (
+            <Marker
+              key={`cluster-${cluster_id}`}
+              position={[lat, lng]}
+              icon={getClusterIcon(point_count, dominantTrust(trust))}
+              eventHandlers={{ click: () => zoomInto(lat, lng, index.getClusterExpansionZoom(cluster_id)) }}
+            />
+          );
+        }
+        const { post } = feature.properties as { post: Post };
+        return (
+          <Marker
+            key={post.id}
+            position={[post.lat, post.lng]}
+            icon={getMarkerIcon(post)}
+            eventHandlers={{ click: () => onSelect(post.id) }}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+export function MapEvents({ onMapClick, isPicking }: { onMapClick: (lat: number, lng: number) => void, isPicking: boolean }) {
+  useMapEvents({
+    click(e) {
+      if (isPicking) {
+        onMapClick(e.latlng.lat, e.latlng.lng);
+      }
+    },
+  });
+  return null;
+}
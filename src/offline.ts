@@ -0,0 +1,134 @@
+import type { Post } from './types';
+
+/**
+ * Offline support kept in IndexedDB so it survives a reload without a
+ * connection: the last known posts, shown before the first sync answers, and
+ * an outbox of writes made while offline. Each queued write carries an
+ * Idempotency-Key, so replaying one the server already received before the
+ * connection dropped is answered from the server's record instead of running twice.
+ */
+export interface OutboxEntry {
+  /** Assigned by IndexedDB; replay goes in this order, so a post is sent before votes on it */
+  seq?: number;
+  kind: 'post' | 'schedule' | 'vote';
+  url: string;
+  body: unknown;
+  idempotency_key: string;
+  /** A photo to upload once a queued post has been created */
+  photo?: Blob;
+  queued_at: string;
+}
+
+const DB_NAME = 'biryani-offline';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('posts', { keyPath: 'id' });
+      request.result.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+// Runs `fn` in one transaction and resolves with its result once the transaction commits
+async function transact<T>(store: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void) {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function loadCachedPosts(): Promise<Post[]> {
+  const posts = await transact<Post[]>('posts', 'readonly', store => store.getAll() as IDBRequest<Post[]>);
+  return (posts ?? []).sort((a, b) => (a.created_at < b.created_at ? 1 : -1));
+}
+
+/** Replaces the stored posts with the ones on screen. */
+export async function saveCachedPosts(posts: Post[]) {
+  await transact('posts', 'readwrite', store => {
+    store.clear();
+    for (const post of posts) store.put(post);
+  });
+}
+
+export async function pendingWrites(): Promise<OutboxEntry[]> {
+  return (await transact<OutboxEntry[]>('outbox', 'readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>)) ?? [];
+}
+
+async function queueWrite(entry: OutboxEntry) {
+  await transact('outbox', 'readwrite', store => store.add(entry));
+}
+
+async function removeWrite(seq: number) {
+  await transact('outbox', 'readwrite', store => store.delete(seq));
+}
+
+// crypto.randomUUID() needs a secure context, which a phone on the local network may not have
+function newIdempotencyKey() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function send(entry: OutboxEntry) {
+  return fetch(entry.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Idempotency-Key': entry.idempotency_key },
+    body: JSON.stringify(entry.body),
+  });
+}
+
+// Worth trying again later rather than giving up on: the server or the rate limit, not the request
+const isTransient = (response: Response) => response.status >= 500 || response.status === 429;
+
+/**
+ * Sends a write now, or queues it when there is no connection. Resolves with
+ * the server's response, or null when the write was queued.
+ */
+export async function sendOrQueue(entry: Omit<OutboxEntry, 'idempotency_key' | 'queued_at'>): Promise<Response | null> {
+  const full: OutboxEntry = { ...entry, idempotency_key: newIdempotencyKey(), queued_at: new Date().toISOString() };
+  if (navigator.onLine) {
+    try {
+      return await send(full);
+    } catch {
+      // The request may or may not have reached the server; the key makes sending it again safe
+    }
+  }
+  await queueWrite(full);
+  return null;
+}
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Replays queued writes in order, handing each final response to
+ * `onResult`. Stops at the first one that fails for lack of a connection or
+ * a transient server error, and resolves with how many are still queued.
+ */
+export function flushOutbox(onResult: (entry: OutboxEntry, response: Response) => Promise<void> | void) {
+  flushing ??= (async () => {
+    const entries = await pendingWrites();
+    for (const [i, entry] of entries.entries()) {
+      let response: Response;
+      try {
+        response = await send(entry);
+      } catch {
+        return entries.length - i;
+      }
+      if (isTransient(response)) return entries.length - i;
+      await removeWrite(entry.seq!);
+      await onResult(entry, response);
+    }
+    return 0;
+  })().finally(() => { flushing = null; });
+  return flushing;
+}
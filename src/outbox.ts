@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { OutboxEntry, flushOutbox, pendingWrites } from './offline';
+
+// While writes are waiting, they are retried this often
+const RETRY_MS = 15000;
+
+/**
+ * The outbox from offline.ts as the header shows it: whether the device is
+ * online and how many writes still wait. Queued writes go out when the
+ * connection comes back, and are retried while any are left; `onReplayed`
+ * gets the server's answer to each, and `onOnline` runs on every reconnect.
+ */
+export function useOutbox(onReplayed: (entry: OutboxEntry, response: Response) => Promise<void>, onOnline: () => void) {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  // Called after a write was queued instead of sent
+  const refreshPending = () => {
+    pendingWrites().then(entries => setPendingCount(entries.length)).catch(err => console.error('Outbox error:', err));
+  };
+
+  const flushPending = () => {
+    flushOutbox(onReplayed).then(setPendingCount).catch(err => console.error('Outbox error:', err));
+  };
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      flushPending();
+      onOnline();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    flushPending();
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!pendingCount) return;
+    const interval = setInterval(flushPending, RETRY_MS);
+    return () => clearInterval(interval);
+  }, [pendingCount]);
+
+  return { isOnline, pendingCount, refreshPending };
+}
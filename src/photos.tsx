@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Camera } from 'lucide-react';
+import { ApiErrorResponse, Photo, cn } from './types';
+
+// Mirrors the server's limits so obviously bad files are caught before uploading
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_PHOTO_MB = 8;
+
+function checkPhoto(file: File): string | null {
+  if (!PHOTO_TYPES.includes(file.type)) return 'JPEG, PNG বা WebP ছবি দিন';
+  if (file.size > MAX_PHOTO_MB * 1024 * 1024) return `সর্বোচ্চ ${MAX_PHOTO_MB.toLocaleString('bn-BD')} MB হতে পারবে`;
+  return null;
+}
+
+/** Throws the server's error message in Bengali when the upload is rejected */
+export async function uploadPhoto(postId: string, file: Blob): Promise<Photo> {
+  const body = new FormData();
+  body.append('photo', file);
+  const response = await fetch(`/api/posts/${encodeURIComponent(postId)}/photos`, { method: 'POST', body });
+  if (!response.ok) {
+    const errorData: ApiErrorResponse | null = await response.json().catch(() => null);
+    throw new Error(errorData?.fields?.photo?.message_bn ?? errorData?.message_bn ?? 'ছবি আপলোড করা যায়নি');
+  }
+  return response.json();
+}
+
+export function PhotoPicker() {
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => () => { if (preview) URL.revokeObjectURL(preview); }, [preview]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const problem = file ? checkPhoto(file) : null;
+    if (problem) e.target.value = '';
+    setError(problem);
+    setPreview(file && !problem ? URL.createObjectURL(file) : null);
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-bold text-stone-500 uppercase mb-1.5">ছবি (ঐচ্ছিক)</label>
+      <label className="flex items-center gap-3 p-3 bg-stone-100 rounded-xl cursor-pointer hover:bg-stone-200/70 transition-colors">
+        {preview ? (
+          <img src={preview} alt="" className="w-14 h-14 rounded-lg object-cover" />
+        ) : (
+          <div className="w-14 h-14 rounded-lg bg-white flex items-center justify-center">
+            <Camera className="w-6 h-6 text-stone-400" />
+          </div>
+        )}
+        <span className="text-sm text-stone-600">
+          {preview ? 'অন্য ছবি বেছে নিন' : 'লাইন বা খাবারের ছবি তুলুন'}
+        </span>
+        <input
+          name="photo"
+          type="file"
+          accept={PHOTO_TYPES.join(',')}
+          capture="environment"
+          onChange={handleChange}
+          className="sr-only"
+        />
+      </label>
+      {error && <p className="mt-1 text-xs font-bold text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export function PhotoGallery({ postId }: { postId: string }) {
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPhotos([]);
+    fetch(`/api/posts/${encodeURIComponent(postId)}/photos`)
+      .then(res => res.ok ? res.json() : [])
+      .then(data => { if (!cancelled) setPhotos(data); })
+      .catch(err => console.error('Error loading photos:', err));
+    return () => { cancelled = true; };
+  }, [postId]);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const problem = checkPhoto(file);
+    setError(problem);
+    if (problem) return;
+
+    setIsUploading(true);
+    try {
+      const photo = await uploadPhoto(postId, file);
+      setPhotos(prev => [...prev, photo]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ছবি আপলোড করা যায়নি');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-xs font-bold text-stone-400 uppercase mb-2">ছবি</h3>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {photos.map(photo => (
+          <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer" className="shrink-0">
+            <img src={photo.thumbnail_url} alt="" loading="lazy" className="w-20 h-20 rounded-xl object-cover bg-stone-100" />
+          </a>
+        ))}
+        <label className={cn(
+          "shrink-0 w-20 h-20 rounded-xl border-2 border-dashed border-stone-200 flex flex-col items-center justify-center gap-1 text-stone-400 cursor-pointer hover:border-green-500 hover:text-green-700 transition-colors",
+          isUploading && "opacity-50 pointer-events-none"
+        )}>
+          <Camera className="w-5 h-5" />
+          <span className="text-[10px] font-bold">{isUploading ? 'আপলোড হচ্ছে' : 'ছবি যোগ করুন'}</span>
+          <input type="file" accept={PHOTO_TYPES.join(',')} capture="environment" onChange={handleChange} className="sr-only" />
+        </label>
+      </div>
+      {error && <p className="mt-1 text-xs font-bold text-red-600">{error}</p>}
+    </div>
+  );
+}
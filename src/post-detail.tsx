@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Clock, MapPin, Navigation, Share2, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format, parseISO } from 'date-fns';
+import { bn } from 'date-fns/locale';
+import { FoodType, Post, PostUpdate, UpdateEvent, cn } from './types';
+import { describePrayerRule } from './add-post';
+import { AuthorLine, SPOT_STATUS_BADGES, getStatusBadge, timeAgo } from './badges';
+import { PhotoGallery } from './photos';
+
+const REPORT_REASONS = [
+  { id: 'fake', label: 'এখানে কোন বিতরণ হয় না' },
+  { id: 'wrong_location', label: 'ভুল লোকেশন' },
+  { id: 'wrong_time', label: 'ভুল সময়' },
+  { id: 'ended', label: 'বিতরণ শেষ হয়ে গেছে' },
+  { id: 'spam', label: 'স্প্যাম বা বিজ্ঞাপন' },
+  { id: 'offensive', label: 'আপত্তিকর কন্টেন্ট' },
+  { id: 'other', label: 'অন্যান্য' },
+];
+
+const UPDATE_KINDS: { kind: PostUpdate['kind'], label: string }[] = [
+  { kind: 'available', label: 'এখনো আছে' },
+  { kind: 'running_low', label: 'শেষের দিকে' },
+  { kind: 'finished', label: 'শেষ' },
+  { kind: 'moved', label: 'জায়গা বদলেছে' },
+  { kind: 'comment', label: 'মন্তব্য' },
+];
+
+function UpdatesThread({ postId, latestUpdate, onPostUpdate }: { postId: string, latestUpdate: UpdateEvent | null, onPostUpdate: (id: string, kind: PostUpdate['kind'], body: string) => Promise<void> }) {
+  const [updates, setUpdates] = useState<PostUpdate[]>([]);
+  const [kind, setKind] = useState<PostUpdate['kind']>('available');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUpdates([]);
+    fetch(`/api/posts/${encodeURIComponent(postId)}/updates`)
+      .then(res => res.ok ? res.json() : [])
+      .then(data => { if (!cancelled) setUpdates(data); })
+      .catch(err => console.error('Error loading updates:', err));
+    return () => { cancelled = true; };
+  }, [postId]);
+
+  // Our own updates and everyone else's arrive here, from the response or the socket
+  useEffect(() => {
+    if (!latestUpdate || latestUpdate.post_id !== postId) return;
+    setUpdates(prev => prev.some(u => u.id === latestUpdate.update.id) ? prev : [latestUpdate.update, ...prev]);
+  }, [latestUpdate, postId]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    setIsSending(true);
+    setError(null);
+    try {
+      await onPostUpdate(postId, kind, (new FormData(form).get('body') as string) || '');
+      form.reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'আপডেট পাঠানো যায়নি');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const needsBody = kind === 'comment' || kind === 'moved';
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-xs font-bold text-stone-400 uppercase mb-2">সর্বশেষ খবর</h3>
+      <form onSubmit={handleSubmit} className="p-3 bg-stone-50 rounded-2xl space-y-2">
+        <div className="flex flex-wrap gap-1.5">
+          {UPDATE_KINDS.map(option => (
+            <button
+              key={option.kind}
+              type="button"
+              onClick={() => setKind(option.kind)}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-xs font-bold border transition-all",
+                kind === option.kind ? "bg-green-700 text-white border-green-700" : "bg-white text-stone-500 border-stone-200"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            name="body"
+            maxLength={280}
+            required={needsBody}
+            placeholder={kind === 'moved' ? 'কোথায় সরেছে? যেমন: পেছনের গেটে' : needsBody ? 'কী দেখলেন লিখুন' : 'কিছু যোগ করতে চাইলে লিখুন (ঐচ্ছিক)'}
+            className="flex-1 min-w-0 px-3 py-2 bg-white rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-green-500/20"
+          />
+          <button
+            type="submit"
+            disabled={isSending}
+            className="shrink-0 px-4 py-2 bg-green-700 text-white rounded-xl text-sm font-bold disabled:opacity-50"
+          >
+            {isSending ? 'পাঠানো হচ্ছে' : 'জানান'}
+          </button>
+        </div>
+        {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+      </form>
+      {updates.length > 0 && (
+        <ol className="mt-3 space-y-2">
+          {updates.map(update => (
+            <li key={update.id} className="flex gap-2 text-sm">
+              <div className="w-1.5 shrink-0 rounded-full bg-stone-200" />
+              <div className="min-w-0">
+                <div className="flex items-center gap-1.5">
+                  {update.kind !== 'comment' && (
+                    <span className={cn("px-1.5 py-0.5 text-[9px] font-black rounded whitespace-nowrap", SPOT_STATUS_BADGES[update.kind].className)}>
+                      {SPOT_STATUS_BADGES[update.kind].label}
+                    </span>
+                  )}
+                  <span className="text-[11px] text-stone-400 truncate">
+                    {update.user_name ?? 'অজ্ঞাত'} · {timeAgo(update.created_at)}
+                  </span>
+                </div>
+                {update.body && <p className="text-stone-700 break-words">{update.body}</p>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export function PostDetailModal({ post, foodType, onClose, onVote, onReport, onNavigate, latestUpdate, onPostUpdate }: { post: Post, foodType?: FoodType, onClose: () => void, onVote: (id: string, type: 1 | 0) => void, onReport: (id: string, category: string, reason: string) => Promise<void>, onNavigate: (post: Post) => void, latestUpdate: UpdateEvent | null, onPostUpdate: (id: string, kind: PostUpdate['kind'], body: string) => Promise<void> }) {
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [reportStatus, setReportStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const handleReportSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    setReportStatus('sending');
+    try {
+      await onReport(post.id, formData.get('category') as string, (formData.get('reason') as string) || '');
+      setReportStatus('sent');
+    } catch (error) {
+      setReportStatus('error');
+    }
+  };
+
+  // The system share sheet where there is one; elsewhere the link is copied
+  const handleShare = async () => {
+    const url = `${window.location.origin}/spot/${encodeURIComponent(post.id)}`;
+    const text = [post.place_name, foodType?.label_bn].filter(Boolean).join(' · ');
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: post.place_name, text, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      }
+    } catch (err) {
+      // Closing the share sheet rejects too
+      if ((err as Error).name !== 'AbortError') console.error('Share error:', err);
+    }
+  };
+
+  const trustScore = Math.round(post.trust_score * 100);
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        className="relative w-full max-w-lg bg-white rounded-t-3xl sm:rounded-3xl overflow-y-auto max-h-[95vh] shadow-2xl"
+      >
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <div className={cn(
+                "inline-block px-3 py-1 rounded-full text-[10px] font-black uppercase mb-2",
+                post.trust_level === 'confirmed' ? "bg-emerald-100 text-emerald-700" :
+                post.trust_level === 'disputed' ? "bg-rose-100 text-rose-700" : "bg-amber-100 text-amber-700"
+              )}>
+                {trustScore}% কমিউনিটি বিশ্বাস
+              </div>
+              <h2 className="text-2xl font-bold text-green-900">{post.place_name}</h2>
+              <p className="text-stone-500 flex items-center gap-1 text-sm">
+                <MapPin className="w-3.5 h-3.5" /> বাংলাদেশ
+              </p>
+              <AuthorLine post={post} className="mt-1 text-sm" />
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleShare} title="শেয়ার করুন" className="p-3 bg-green-100 text-green-700 rounded-2xl">
+                <Share2 className="w-6 h-6" />
+              </button>
+              <button onClick={() => onNavigate(post)} className="p-3 bg-orange-100 text-orange-600 rounded-2xl">
+                <Navigation className="w-6 h-6" />
+              </button>
+              <button 
+                onClick={onClose} 
+                className="p-3 bg-stone-100 text-stone-400 hover:text-stone-600 rounded-2xl transition-colors"
+              >
+                <XCircle className="w-6 h-6" />
+              </button>
+            </div>
+          </div>
+          {linkCopied && (
+            <p className="-mt-4 mb-4 text-right text-xs font-bold text-green-700">লিংক কপি হয়েছে</p>
+          )}
+          
+          <div className="bg-stone-50 rounded-2xl p-4 mb-6">
+            <h3 className="text-xs font-bold text-stone-400 uppercase mb-2">খাবারের ধরন</h3>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: foodType?.color || '#A8A29E' }} />
+              <p className="text-lg font-bold text-stone-800">
+                {foodType?.label_bn || post.food_type}
+              </p>
+            </div>
+            {post.description && (
+              <p className="mt-2 text-sm text-stone-600 whitespace-pre-line">{post.description}</p>
+            )}
+            <div className="mt-4 flex items-center gap-4">
+              <div className="flex items-center gap-2 text-sm text-stone-600">
+                <Clock className="w-4 h-4 text-orange-500" />
+                <div className="flex flex-col">
+                  {post.prayer_rule && (
+                    <span className="font-bold text-green-800">{describePrayerRule(post.prayer_rule)}</span>
+                  )}
+                  <span className="font-medium">
+                    {format(parseISO(post.distribution_time), 'MMMM d, h:mm a', { locale: bn })} – {format(parseISO(post.ends_at), 'h:mm a', { locale: bn })}
+                  </span>
+                </div>
+              </div>
+              <span className={cn("px-2 py-0.5 text-[10px] font-black rounded-full", getStatusBadge(post).className)}>
+                {getStatusBadge(post).label}
+              </span>
+              {post.schedule_id && (
+                <span className="px-2 py-0.5 text-[10px] font-black rounded-full bg-violet-100 text-violet-700">নিয়মিত</span>
+              )}
+            </div>
+          </div>
+
+          <PhotoGallery postId={post.id} />
+          <UpdatesThread postId={post.id} latestUpdate={latestUpdate} onPostUpdate={onPostUpdate} />
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-bold text-stone-900 text-center">এই তথ্যটি কি সঠিক?</h3>
+            <div className="flex gap-3">
+              <button 
+                onClick={() => onVote(post.id, 1)}
+                className="flex-1 py-4 bg-green-50 text-green-700 rounded-2xl font-bold flex flex-col items-center gap-1 border-2 border-transparent active:border-green-500 transition-all"
+              >
+                <CheckCircle2 className="w-6 h-6" />
+                <span>সঠিক ({post.true_votes})</span>
+              </button>
+              <button 
+                onClick={() => onVote(post.id, 0)}
+                className="flex-1 py-4 bg-rose-50 text-rose-700 rounded-2xl font-bold flex flex-col items-center gap-1 border-2 border-transparent active:border-rose-500 transition-all"
+              >
+                <XCircle className="w-6 h-6" />
+                <span> ভুল({post.false_votes})</span>
+              </button>
+            </div>
+            {reportStatus === 'sent' ? (
+              <div className="p-3 bg-stone-50 rounded-xl text-center text-sm font-bold text-stone-600">
+                রিপোর্টের জন্য ধন্যবাদ। মডারেটররা এটি যাচাই করবেন।
+              </div>
+            ) : isReportOpen ? (
+              <form onSubmit={handleReportSubmit} className="p-4 bg-rose-50/50 border border-rose-100 rounded-2xl space-y-3">
+                <h4 className="text-xs font-bold text-rose-700 uppercase">রিপোর্টের কারণ</h4>
+                <div className="grid grid-cols-1 gap-1.5">
+                  {REPORT_REASONS.map((item) => (
+                    <label key={item.id} className="flex items-center gap-2 text-sm text-stone-700 cursor-pointer">
+                      <input type="radio" name="category" value={item.id} required className="accent-rose-600" />
+                      {item.label}
+                    </label>
+                  ))}
+                </div>
+                <textarea 
+                  name="reason" 
+                  maxLength={500}
+                  rows={2}
+                  placeholder="বিস্তারিত (ঐচ্ছিক)"
+                  className="w-full px-3 py-2 bg-white rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-rose-500/20"
+                />
+                {reportStatus === 'error' && (
+                  <p className="text-xs font-bold text-rose-600">রিপোর্ট পাঠাতে সমস্যা হয়েছে, আবার চেষ্টা করুন।</p>
+                )}
+                <div className="flex gap-2">
+                  <button 
+                    type="button" 
+                    onClick={() => setIsReportOpen(false)}
+                    className="flex-1 py-2.5 bg-white text-stone-500 rounded-xl text-sm font-bold"
+                  >
+                    বাতিল
+                  </button>
+                  <button 
+                    type="submit" 
+                    disabled={reportStatus === 'sending'}
+                    className="flex-1 py-2.5 bg-rose-600 text-white rounded-xl text-sm font-bold disabled:opacity-50"
+                  >
+                    {reportStatus === 'sending' ? 'পাঠানো হচ্ছে...' : 'রিপোর্ট করুন'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button 
+                onClick={() => setIsReportOpen(true)}
+                className="w-full py-3 text-stone-400 text-sm font-medium flex items-center justify-center gap-2 hover:text-rose-500 transition-colors"
+              >
+                <AlertTriangle className="w-4 h-4" />
+                ভুল তথ্য রিপোর্ট করুন
+              </button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
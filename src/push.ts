@@ -0,0 +1,63 @@
+/**
+ * Web Push for watch zones: subscribes this browser through the service
+ * worker (public/sw.js shows the notifications) and registers the
+ * subscription with the server, which pushes to it when a spot is posted or
+ * confirmed inside one of the user's zones.
+ */
+export type PushState = 'unsupported' | 'unavailable' | 'denied' | 'off' | 'on';
+
+export function pushSupported() {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// The VAPID public key comes URL-safe base64 encoded; pushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+async function publicKey(): Promise<string | null> {
+  const res = await fetch('/api/push/public-key');
+  return (await res.json()).public_key;
+}
+
+export async function pushState(): Promise<PushState> {
+  if (!pushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+  if (!await publicKey()) return 'unavailable';
+  const registration = await navigator.serviceWorker.ready;
+  return (await registration.pushManager.getSubscription()) ? 'on' : 'off';
+}
+
+/** Asks for permission if needed and registers this browser; resolves with the resulting state. */
+export async function enablePush(): Promise<PushState> {
+  if (!pushSupported()) return 'unsupported';
+  const key = await publicKey();
+  if (!key) return 'unavailable';
+  if (await Notification.requestPermission() !== 'granted') return 'denied';
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(key) });
+  const res = await fetch('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription),
+  });
+  if (!res.ok) throw new Error(`Push subscription failed with ${res.status}`);
+  return 'on';
+}
+
+export async function disablePush(): Promise<PushState> {
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  if (subscription) {
+    await fetch('/api/push/subscriptions', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint: subscription.endpoint }),
+    });
+    await subscription.unsubscribe();
+  }
+  return 'off';
+}
@@ -0,0 +1,231 @@
+import { distanceMeters } from './filters';
+
+/**
+ * Walking directions to a spot. A routing provider (the OSRM server with a
+ * foot profile set as `VITE_ROUTING_URL`) answers when there is a connection;
+ * without one, offline, or when it fails, the route comes from a road graph
+ * the deployment can ship as /road-graph.json, and failing that it is a
+ * straight line.
+ */
+export type LatLngTuple = [number, number];
+
+export interface Route {
+  points: LatLngTuple[];
+  distance_m: number;
+  duration_s: number;
+  /** Which provider answered */
+  provider: string;
+  /** Estimated rather than routed along the streets */
+  approximate: boolean;
+}
+
+export interface RoutingProvider {
+  name: string;
+  /** Rejects when it cannot route, so the next fallback is tried. */
+  route(from: LatLngTuple, to: LatLngTuple, signal?: AbortSignal): Promise<Route>;
+}
+
+// About 4.5 km/h
+const WALKING_SPEED_MS = 1.25;
+// Streets are rarely straight; a straight line is stretched by this much for the time estimate
+const STRAIGHT_LINE_DETOUR = 1.3;
+// Farther than this from the nearest graph node and the road graph is no help
+const MAX_SNAP_M = 500;
+
+// Any OSRM-compatible server; `baseUrl` is the part before /route/v1
+export class OsrmRoutingProvider implements RoutingProvider {
+  name = 'osrm';
+
+  constructor(private baseUrl: string) {}
+
+  async route(from: LatLngTuple, to: LatLngTuple, signal?: AbortSignal): Promise<Route> {
+    const coords = `${from[1]},${from[0]};${to[1]},${to[0]}`;
+    const res = await fetch(`${this.baseUrl}/route/v1/foot/${coords}?overview=full&geometries=geojson`, { signal });
+    if (!res.ok) throw new Error(`Routing failed with ${res.status}`);
+    const data = await res.json();
+    const route = data.routes?.[0];
+    if (data.code !== 'Ok' || !route) throw new Error(`Routing failed: ${data.code}`);
+    return {
+      points: route.geometry.coordinates.map(([lng, lat]: [number, number]) => [lat, lng]),
+      distance_m: route.distance,
+      duration_s: route.duration,
+      provider: this.name,
+      approximate: false,
+    };
+  }
+}
+
+export function straightLineRoute(from: LatLngTuple, to: LatLngTuple): Route {
+  const distance = distanceMeters(from, { lat: to[0], lng: to[1] });
+  return {
+    points: [from, to],
+    distance_m: distance,
+    duration_s: (distance * STRAIGHT_LINE_DETOUR) / WALKING_SPEED_MS,
+    provider: 'straight_line',
+    approximate: true,
+  };
+}
+
+/**
+ * A walkable street network as nodes (`[lat, lng]`) and undirected edges
+ * between node indexes, e.g. exported from OpenStreetMap for one city.
+ */
+export interface RoadGraph {
+  nodes: LatLngTuple[];
+  edges: [number, number][];
+}
+
+// A* over a road graph fetched once; works offline once the service worker has cached the graph
+export class RoadGraphProvider implements RoutingProvider {
+  name = 'road_graph';
+  private graph: Promise<{ nodes: LatLngTuple[], adjacency: [number, number][][] }> | null = null;
+
+  constructor(private url: string) {}
+
+  private load() {
+    this.graph ??= fetch(this.url).then(async res => {
+      if (!res.ok) throw new Error(`No road graph (${res.status})`);
+      const { nodes, edges }: RoadGraph = await res.json();
+      const adjacency: [number, number][][] = nodes.map(() => []);
+      for (const [a, b] of edges) {
+        const length = distanceMeters(nodes[a], { lat: nodes[b][0], lng: nodes[b][1] });
+        adjacency[a].push([b, length]);
+        adjacency[b].push([a, length]);
+      }
+      return { nodes, adjacency };
+    }).catch(err => {
+      // Try again next time, e.g. once back online
+      this.graph = null;
+      throw err;
+    });
+    return this.graph;
+  }
+
+  async route(from: LatLngTuple, to: LatLngTuple): Promise<Route> {
+    const { nodes, adjacency } = await this.load();
+    const between = (i: number, point: LatLngTuple) => distanceMeters(nodes[i], { lat: point[0], lng: point[1] });
+    const nearest = (point: LatLngTuple) => {
+      let best = -1;
+      let bestDistance = Infinity;
+      nodes.forEach((_, i) => {
+        const d = between(i, point);
+        if (d < bestDistance) [best, bestDistance] = [i, d];
+      });
+      if (bestDistance > MAX_SNAP_M) throw new Error('Outside the road graph');
+      return best;
+    };
+    const start = nearest(from);
+    const goal = nearest(to);
+
+    const cost = new Map<number, number>([[start, 0]]);
+    const previous = new Map<number, number>();
+    const open = new MinHeap();
+    open.push(start, between(start, to));
+    while (open.size) {
+      const node = open.pop();
+      if (node === goal) break;
+      for (const [next, length] of adjacency[node]) {
+        const nextCost = cost.get(node)! + length;
+        if (nextCost < (cost.get(next) ?? Infinity)) {
+          cost.set(next, nextCost);
+          previous.set(next, node);
+          open.push(next, nextCost + between(next, to));
+        }
+      }
+    }
+    if (!cost.has(goal)) throw new Error('No path in the road graph');
+
+    const path: LatLngTuple[] = [];
+    for (let node: number | undefined = goal; node !== undefined; node = previous.get(node)) path.unshift(nodes[node]);
+    const walked = cost.get(goal)! + between(start, from) + between(goal, to);
+    return {
+      points: [from, ...path, to],
+      distance_m: walked,
+      duration_s: walked / WALKING_SPEED_MS,
+      provider: this.name,
+      approximate: false,
+    };
+  }
+}
+
+// Binary heap of node indexes by priority, for A*; stale duplicates are harmless
+class MinHeap {
+  private items: [number, number][] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number) {
+    const items = this.items;
+    items.push([node, priority]);
+    for (let i = items.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][1] <= items[i][1]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0][0];
+    const last = items.pop()!;
+    if (items.length) {
+      items[0] = last;
+      for (let i = 0; ;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][1] < items[smallest][1]) smallest = left;
+        if (right < items.length && items[right][1] < items[smallest][1]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+const routingUrl = import.meta.env.VITE_ROUTING_URL;
+let provider: RoutingProvider | null = routingUrl ? new OsrmRoutingProvider(routingUrl) : null;
+const roadGraph = new RoadGraphProvider('/road-graph.json');
+
+// Lets tests or alternative deployments plug in their own provider
+export function setRoutingProvider(next: RoutingProvider | null) {
+  provider = next;
+}
+
+/** The best route available: the provider when online, then the road graph, then a straight line. */
+export async function findRoute(from: LatLngTuple, to: LatLngTuple, signal?: AbortSignal): Promise<Route> {
+  for (const candidate of navigator.onLine && provider ? [provider, roadGraph] : [roadGraph]) {
+    try {
+      return await candidate.route(from, to, signal);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.error(`Routing with ${candidate.name} failed:`, err);
+    }
+  }
+  return straightLineRoute(from, to);
+}
+
+/** Hand-off links that open the same walk in a maps app. */
+export function externalMapLinks(from: LatLngTuple | null, to: LatLngTuple, label: string) {
+  const dest = `${to[0]},${to[1]}`;
+  return [
+    {
+      id: 'google',
+      label: 'Google Maps',
+      url: `https://www.google.com/maps/dir/?api=1&destination=${dest}&travelmode=walking${from ? `&origin=${from[0]},${from[1]}` : ''}`,
+    },
+    {
+      id: 'osm',
+      label: 'OpenStreetMap',
+      url: `https://www.openstreetmap.org/directions?engine=fossgis_osrm_foot&route=${from ? `${from[0]},${from[1]}` : ''};${dest}`,
+    },
+    { id: 'apple', label: 'Apple Maps', url: `https://maps.apple.com/?daddr=${dest}&dirflg=w` },
+    // Opens whichever maps app an Android phone has
+    { id: 'geo', label: 'অন্য অ্যাপ', url: `geo:${dest}?q=${dest}(${encodeURIComponent(label)})` },
+  ];
+}
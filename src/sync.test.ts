@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Post } from './types';
+import { mergeDelta, refreshLifecycle } from './sync';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-20T12:00:00Z');
+
+function post(id: string, changes: Partial<Post> = {}): Post {
+  return {
+    id,
+    user_id: 'u_author',
+    user_name: 'Author',
+    user_reputation: null,
+    current_status: null,
+    current_status_note: null,
+    current_status_at: null,
+    place_name: `Mosque ${id}`,
+    food_type: 'biriyani',
+    description: null,
+    lat: 23.8,
+    lng: 90.4,
+    distribution_time: new Date(NOW - HOUR).toISOString(),
+    ends_at: new Date(NOW + HOUR).toISOString(),
+    status: 'live',
+    ending_soon: false,
+    created_at: '2026-03-20 10:00:00',
+    true_votes: 0,
+    false_votes: 0,
+    trust_score: 0,
+    trust_level: 'unverified',
+    ...changes,
+  };
+}
+
+const delta = (changes: { created?: Post[]; changed?: Post[]; removed?: string[] }) =>
+  ({ created: [], changed: [], removed: [], cursor: 'c', ...changes });
+
+describe('mergeDelta', () => {
+  const posts = [post('a'), post('b'), post('c')];
+
+  it('keeps the same list when nothing changed', () => {
+    expect(mergeDelta(posts, delta({}))).toBe(posts);
+  });
+
+  it('puts new posts first, replaces changed ones in place and drops removed ones', () => {
+    const merged = mergeDelta(posts, delta({
+      created: [post('d')],
+      changed: [post('b', { true_votes: 3 })],
+      removed: ['c'],
+    }));
+    expect(merged.map(p => p.id)).toEqual(['d', 'a', 'b']);
+    expect(merged[2].true_votes).toBe(3);
+    expect(merged[1]).toBe(posts[0]);
+  });
+
+  it('adds a changed post it did not have, e.g. one restored after being hidden', () => {
+    expect(mergeDelta(posts, delta({ changed: [post('e')] })).map(p => p.id)).toEqual(['e', 'a', 'b', 'c']);
+  });
+
+  it('lets a removal win over a change in the same delta', () => {
+    expect(mergeDelta(posts, delta({ changed: [post('a'), post('e')], removed: ['a', 'e'] })).map(p => p.id)).toEqual(['b', 'c']);
+  });
+});
+
+describe('refreshLifecycle', () => {
+  it('returns the same post while nothing changed', () => {
+    const live = post('a');
+    expect(refreshLifecycle(live, NOW)).toBe(live);
+  });
+
+  it('follows the clock through live, ending soon and ended', () => {
+    const upcoming = post('a', { distribution_time: new Date(NOW + HOUR).toISOString(), ends_at: new Date(NOW + 3 * HOUR).toISOString(), status: 'upcoming' });
+    expect(refreshLifecycle(upcoming, NOW + 2 * HOUR)).toMatchObject({ status: 'live', ending_soon: false });
+    expect(refreshLifecycle(upcoming, NOW + 2.75 * HOUR)).toMatchObject({ status: 'live', ending_soon: true });
+    expect(refreshLifecycle(upcoming, NOW + 4 * HOUR)).toMatchObject({ status: 'ended', ending_soon: false });
+  });
+
+  it('leaves expiry to the server', () => {
+    expect(refreshLifecycle(post('a'), NOW + 24 * HOUR).status).toBe('ended');
+    const expired = post('a', { status: 'expired' });
+    expect(refreshLifecycle(expired, NOW + 24 * HOUR)).toBe(expired);
+  });
+});
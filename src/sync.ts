@@ -0,0 +1,82 @@
+import React from 'react';
+import { Post, PostDelta, UpdateEvent, VoteUpdate } from './types';
+import { withLifecycle } from '../shared/lifecycle';
+
+/** Applies a sync delta: drops removed posts, replaces changed ones and puts new ones first. */
+export function mergeDelta(posts: Post[], { created, changed, removed }: PostDelta): Post[] {
+  if (!created.length && !changed.length && !removed.length) return posts;
+  const drop = new Set(removed);
+  const incoming = new Map([...created, ...changed].map(p => [p.id, p]));
+  const next = posts.filter(p => !drop.has(p.id)).map(p => incoming.get(p.id) ?? p);
+  const known = new Set(next.map(p => p.id));
+  // Changed posts can be new here too, e.g. one restored after being hidden
+  const added = [...incoming.values()].filter(p => !known.has(p.id) && !drop.has(p.id));
+  return [...added, ...next];
+}
+
+/**
+ * Keeps `posts` in step with the server for one feed query: a full load
+ * first, then only deltas from the `X-Sync-Cursor` it returned. The full list
+ * carries an ETag, so reloading an unchanged one costs a 304. A 410 means the
+ * cursor is too old for a delta and the next sync starts over.
+ */
+export function createPostSync(query: string, setPosts: React.Dispatch<React.SetStateAction<Post[]>>) {
+  let cursor: string | null = null;
+  let running: Promise<void> | null = null;
+  let stopped = false;
+
+  const load = async (): Promise<void> => {
+    const res = await fetch(cursor ? `/api/posts?${query}&since=${encodeURIComponent(cursor)}` : `/api/posts?${query}`);
+    if (stopped) return;
+    if (res.status === 410 && cursor) {
+      cursor = null;
+      return load();
+    }
+    if (!res.ok) throw new Error(`Sync failed with status ${res.status}`);
+    const next = res.headers.get('X-Sync-Cursor');
+    const data = await res.json();
+    if (stopped) return;
+    if (cursor) setPosts(prev => mergeDelta(prev, data));
+    else setPosts(data);
+    cursor = next;
+  };
+
+  return {
+    // Calls while a sync is in flight share it
+    sync() {
+      running ??= load()
+        .catch(err => console.error('Sync error:', err))
+        .finally(() => { running = null; });
+      return running;
+    },
+    stop() {
+      stopped = true;
+    },
+  };
+}
+
+/**
+ * Recomputes the clock-driven `status` and `ending_soon` fields the server
+ * sends, so a post turns live or ended on time without refetching.
+ */
+export function refreshLifecycle(post: Post, now = Date.now()): Post {
+  const { status: computed, ending_soon } = withLifecycle(post, now);
+  // "expired" is the server's call: it sends `post:expired` when a post leaves the map
+  const status = computed === 'expired' && post.status !== 'expired' ? 'ended' : computed;
+  return status === post.status && ending_soon === post.ending_soon ? post : { ...post, status, ending_soon };
+}
+
+// Bbox strings are minLng,minLat,maxLng,maxLat, as Leaflet's toBBoxString() writes them
+export function inBbox(post: Post, bbox: string | null) {
+  if (!bbox) return true;
+  const [minLng, minLat, maxLng, maxLat] = bbox.split(',').map(Number);
+  return post.lat >= minLat && post.lat <= maxLat && post.lng >= minLng && post.lng <= maxLng;
+}
+
+// Vote responses and `post:voted` events carry the counts and the trust computed from them
+export const applyVoteUpdate = ({ true_votes, false_votes, trust_score, trust_level }: VoteUpdate) =>
+  ({ true_votes, false_votes, trust_score, trust_level });
+
+// Update responses and `post:updated` events carry the post's status after the update
+export const applyStatusUpdate = ({ current_status, current_status_note, current_status_at }: UpdateEvent) =>
+  ({ current_status, current_status_note, current_status_at });
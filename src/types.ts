@@ -8,25 +8,141 @@ export function cn(...inputs: ClassValue[]) {
 export interface User {
   id: string;
   name: string;
+  email?: string | null;
   avatar?: string;
+  is_anonymous: boolean;
+  role: 'user' | 'admin';
+  banned: boolean;
 }
 
+export type { FoodType } from '../shared/food-types';
+
+export interface PrayerRule {
+  prayer: 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha' | 'jummah';
+  offset_minutes: number;
+  method: string;
+  asr: 'standard' | 'hanafi';
+}
+
+/** Server-computed from recent votes; `confirmed` needs several agreeing voters, not just one */
+export type TrustLevel = 'unverified' | 'confirmed' | 'disputed';
+
+/** Contributor standing from how the community judged their posts and votes */
+export type ReputationLevel = 'new' | 'member' | 'trusted' | 'flagged';
+
+/** What people at the spot last reported; `moved` comes with where to */
+export type SpotStatus = 'available' | 'running_low' | 'finished' | 'moved';
+
 export interface Post {
   id: string;
   user_id: string;
   user_name: string;
+  user_reputation: ReputationLevel | null;
+  current_status: SpotStatus | null;
+  current_status_note: string | null;
+  current_status_at: string | null;
   place_name: string;
-  description: string;
+  food_type: string;
+  description: string | null;
   lat: number;
   lng: number;
   distribution_time: string;
+  ends_at: string;
+  status: 'upcoming' | 'live' | 'ended' | 'expired';
+  ending_soon: boolean;
+  schedule_id?: string | null;
+  prayer_rule?: PrayerRule | null;
   created_at: string;
   true_votes: number;
   false_votes: number;
+  trust_score: number;
+  trust_level: TrustLevel;
+  /** Metres from the search centre, only on nearby searches */
+  distance?: number;
+}
+
+/** A photo of the queue or the food; EXIF and location data are stripped on upload */
+export interface Photo {
+  id: string;
+  post_id: string;
+  user_id: string | null;
+  url: string;
+  thumbnail_url: string;
+  width: number;
+  height: number;
+  created_at: string;
+}
+
+/** One entry in a spot's updates thread */
+export interface PostUpdate {
+  id: number;
+  post_id: string;
+  user_id: string | null;
+  user_name: string | null;
+  kind: SpotStatus | 'comment';
+  body: string | null;
+  created_at: string;
+}
+
+/** `post:updated` events and the response to posting an update */
+export interface UpdateEvent extends Pick<Post, 'current_status' | 'current_status_note' | 'current_status_at'> {
+  post_id: string;
+  update: PostUpdate;
+}
+
+/** `GET /api/posts?since=<cursor>`: what changed after the cursor, and the cursor to use next */
+export interface PostDelta {
+  created: Post[];
+  changed: Post[];
+  removed: string[];
+  cursor: string;
+}
+
+/** An area the user is notified about; `food_types` null means all, hours are Dhaka time and may wrap past midnight */
+export interface WatchZone {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radius_m: number;
+  food_types: string[] | null;
+  notify_from: string | null;
+  notify_until: string | null;
+  created_at: string;
+}
+
+/** One point of `GET /api/posts/clusters`: a group of posts, or a single post when `post_id` is set */
+export interface PostCluster {
+  post_id: string | null;
+  lat: number;
+  lng: number;
+  count: number;
+  trust: Record<TrustLevel, number>;
+  dominant_trust: TrustLevel;
+  /** The zoom at which the group splits up; null for a single post */
+  expansion_zoom: number | null;
 }
 
 export interface VoteUpdate {
   post_id: string;
   true_votes: number;
   false_votes: number;
+  trust_score: number;
+  trust_level: TrustLevel;
+}
+
+export interface FieldError {
+  code: string;
+  message: string;
+  message_bn: string;
+}
+
+/** Error body returned by every API route */
+export interface ApiErrorResponse {
+  error: string;
+  code: string;
+  message_bn: string;
+  fields?: Record<string, FieldError>;
+  /** With code `possible_duplicates`: existing spots that look like the one being posted */
+  duplicates?: Post[];
 }
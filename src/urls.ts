@@ -0,0 +1,22 @@
+
+
+// `/spot/:id` pages open that spot; the server gives them link preview tags
+export const SPOT_PATH = /^\/spot\/([^/]+)\/?$/;
+
+// Drops a one-off parameter such as `login` while keeping the rest, e.g. the filters
+export function removeQueryParam(name: string) {
+  const params = new URLSearchParams(window.location.search);
+  params.delete(name);
+  const query = params.toString();
+  window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+}
+
+// The spot a shared link or a notification opened; notifications sent before spot pages existed link to `/?post=`
+export function linkedPostId() {
+  const spotMatch = SPOT_PATH.exec(window.location.pathname);
+  return spotMatch ? decodeURIComponent(spotMatch[1]) : new URLSearchParams(window.location.search).get('post');
+}
+
+export function spotPath(postId: string | null) {
+  return postId ? `/spot/${encodeURIComponent(postId)}` : '/';
+}
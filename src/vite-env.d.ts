@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** An OSRM-compatible routing server for walking directions, if any; see src/routing.ts */
+  readonly VITE_ROUTING_URL?: string;
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Navigation, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { Post } from './types';
+import { formatDistance, formatDuration } from './format';
+import { LatLngTuple, Route, externalMapLinks, findRoute } from './routing';
+
+/**
+ * The walk to `target`, from where the phone is now or from `fallback` (the
+ * last known location) when it cannot tell. Both come back empty until found.
+ */
+export function useWalkingRoute(target: Post | null, fallback: LatLngTuple | null) {
+  const [route, setRoute] = useState<Route | null>(null);
+  const [origin, setOrigin] = useState<LatLngTuple | null>(null);
+
+  useEffect(() => {
+    setRoute(null);
+    setOrigin(null);
+    if (!target) return;
+    const controller = new AbortController();
+    const routeFrom = (from: LatLngTuple) => {
+      if (controller.signal.aborted) return;
+      setOrigin(from);
+      findRoute(from, [target.lat, target.lng], controller.signal)
+        .then(setRoute)
+        .catch(err => { if (!controller.signal.aborted) console.error('Routing error:', err); });
+    };
+    const fromFallback = () => { if (fallback) routeFrom(fallback); };
+    if (navigator.geolocation) {
+      navigator.geolocation.getCurrentPosition(
+        pos => routeFrom([pos.coords.latitude, pos.coords.longitude]),
+        fromFallback,
+        { timeout: 5000, maximumAge: 60000 }
+      );
+    } else {
+      fromFallback();
+    }
+    return () => controller.abort();
+  }, [target]);
+
+  return { route, origin };
+}
+
+// Shown over the map while a route is open, with links to hand it to a maps app
+export function RoutePanel({ target, route, origin, onClose }: {
+  target: Post;
+  route: Route | null;
+  origin: LatLngTuple | null;
+  onClose: () => void;
+}) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="absolute top-6 left-1/2 -translate-x-1/2 w-[90%] max-w-sm bg-white px-5 py-3 rounded-2xl shadow-2xl z-[1001] border border-stone-100 space-y-2"
+    >
+      <div className="flex items-center gap-3">
+        <Navigation className="w-5 h-5 text-blue-600" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold text-stone-900 truncate">{target.place_name}</p>
+          <p className="text-[11px] text-stone-500">
+            {route
+              ? `হেঁটে ${formatDistance(route.distance_m)} · ${formatDuration(route.duration_s)}${route.approximate ? ' (আনুমানিক, সোজা পথে)' : ''}`
+              : 'রাস্তা খোঁজা হচ্ছে...'}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-stone-100 rounded-full">
+          <XCircle className="w-5 h-5 text-stone-400" />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {externalMapLinks(origin, [target.lat, target.lng], target.place_name).map(link => (
+          <a
+            key={link.id}
+            href={link.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-2.5 py-1 bg-stone-100 text-stone-600 rounded-full text-[11px] font-bold"
+          >
+            {link.label}
+          </a>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { Bell, MapPin, Navigation, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { ApiErrorResponse, FoodType, WatchZone, cn } from './types';
+import { PushState, disablePush, enablePush, pushState } from './push';
+import { FieldMessage } from './add-post';
+
+const ZONE_PRESETS = ['বাসা', 'ক্যাম্পাস', 'অফিস'];
+export const ZONE_RADIUS = { min: 100, max: 5000, step: 100 };
+
+/** A watch zone being set up; the centre is missing until it is picked */
+export type ZoneDraft = Omit<WatchZone, 'id' | 'created_at' | 'lat' | 'lng' | 'food_types'> & {
+  lat: number | null;
+  lng: number | null;
+  /** Empty for all food types */
+  food_types: string[];
+};
+
+export const EMPTY_ZONE: ZoneDraft = {
+  name: ZONE_PRESETS[0], lat: null, lng: null, radius_m: 1000, food_types: [], notify_from: null, notify_until: null,
+};
+
+const PUSH_STATUS: Record<PushState, string> = {
+  unsupported: 'এই ব্রাউজারে নোটিফিকেশন সাপোর্ট করে না',
+  unavailable: 'এই সার্ভারে নোটিফিকেশন চালু নেই',
+  denied: 'নোটিফিকেশন ব্লক করা আছে, ব্রাউজারের সেটিংস থেকে চালু করুন',
+  off: 'নোটিফিকেশন বন্ধ',
+  on: 'এই ডিভাইসে নোটিফিকেশন চালু',
+};
+
+export function WatchZonesModal({ zones, draft, foodTypes, onDraftChange, onDraw, onSave, onDelete, onClose }: { zones: WatchZone[], draft: ZoneDraft, foodTypes: FoodType[], onDraftChange: (draft: ZoneDraft) => void, onDraw: () => void, onSave: () => Promise<void>, onDelete: (id: string) => void, onClose: () => void }) {
+  const [push, setPush] = useState<PushState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<ApiErrorResponse | null>(null);
+  const foodTypeById = new Map(foodTypes.map(f => [f.id, f]));
+
+  useEffect(() => {
+    pushState().then(setPush).catch(() => setPush('unsupported'));
+  }, []);
+
+  const update = (changes: Partial<ZoneDraft>) => onDraftChange({ ...draft, ...changes });
+
+  const togglePush = async () => {
+    try {
+      setPush(push === 'on' ? await disablePush() : await enablePush());
+    } catch (err) {
+      console.error('Push error:', err);
+    }
+  };
+
+  const centerOnMe = () => {
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setIsLocating(false);
+        update({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+      },
+      () => setIsLocating(false),
+      { timeout: 5000 }
+    );
+  };
+
+  const toggleFoodType = (id: string) => update({
+    food_types: draft.food_types.includes(id) ? draft.food_types.filter(f => f !== id) : [...draft.food_types, id],
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave();
+    } catch (err) {
+      setError((err as ApiErrorResponse).message_bn ? err as ApiErrorResponse : { error: 'Network error', code: 'network_error', message_bn: 'সার্ভারের সাথে যোগাযোগ করা যাচ্ছে না' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const describeZone = (zone: WatchZone) => [
+    `${(zone.radius_m / 1000).toLocaleString('bn-BD')} কিমি`,
+    zone.food_types ? zone.food_types.map(id => foodTypeById.get(id)?.label_bn ?? id).join(', ') : 'সব খাবার',
+    zone.notify_from ? `${zone.notify_from}–${zone.notify_until}` : 'সারাদিন',
+  ].join(' · ');
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ y: "100%" }}
+        animate={{ y: 0 }}
+        exit={{ y: "100%" }}
+        className="relative w-full max-w-lg bg-white rounded-t-3xl sm:rounded-3xl overflow-y-auto max-h-[95vh] shadow-2xl"
+      >
+        <div className="p-6 space-y-6">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-green-800">ওয়াচ জোন</h2>
+            <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full">
+              <XCircle className="w-6 h-6 text-stone-400" />
+            </button>
+          </div>
+
+          <div className="bg-stone-50 rounded-2xl p-4 flex items-center gap-3">
+            <Bell className="w-5 h-5 text-orange-500" />
+            <p className="flex-1 text-xs text-stone-600">{push ? PUSH_STATUS[push] : '...'}</p>
+            {(push === 'off' || push === 'on') && (
+              <button
+                onClick={togglePush}
+                className={cn(
+                  "px-3 py-1.5 rounded-full text-xs font-bold",
+                  push === 'on' ? "bg-stone-200 text-stone-600" : "bg-green-700 text-white"
+                )}
+              >
+                {push === 'on' ? 'বন্ধ করুন' : 'চালু করুন'}
+              </button>
+            )}
+          </div>
+
+          {zones.length > 0 && (
+            <div className="space-y-2">
+              {zones.map(zone => (
+                <div key={zone.id} className="flex items-center gap-3 p-3 border border-stone-100 rounded-xl">
+                  <MapPin className="w-4 h-4 text-orange-500" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-stone-800">{zone.name}</p>
+                    <p className="text-[11px] text-stone-500 truncate">{describeZone(zone)}</p>
+                  </div>
+                  <button onClick={() => onDelete(zone.id)} className="p-1.5 hover:bg-stone-100 rounded-full">
+                    <XCircle className="w-5 h-5 text-stone-300" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <label className="block text-xs font-bold text-stone-500 uppercase">নতুন জোন</label>
+            <div className="flex gap-2">
+              {ZONE_PRESETS.map(name => (
+                <button
+                  key={name}
+                  onClick={() => update({ name })}
+                  className={cn(
+                    "px-3 py-1.5 rounded-full text-xs font-bold border",
+                    draft.name === name ? "bg-green-700 text-white border-green-700" : "bg-white text-stone-600 border-stone-200"
+                  )}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            <input
+              value={draft.name}
+              maxLength={60}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="জোনের নাম"
+              className="w-full px-4 py-3 bg-stone-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/20"
+            />
+            <FieldMessage error={error?.fields?.name} />
+
+            <div className="flex gap-2">
+              <button
+                onClick={centerOnMe}
+                disabled={isLocating}
+                className="flex-1 flex items-center justify-center gap-1.5 py-2.5 bg-stone-100 rounded-xl text-xs font-bold text-stone-600 disabled:opacity-50"
+              >
+                <Navigation className="w-4 h-4" /> বর্তমান লোকেশন
+              </button>
+              <button
+                onClick={onDraw}
+                className="flex-1 flex items-center justify-center gap-1.5 py-2.5 bg-stone-100 rounded-xl text-xs font-bold text-stone-600"
+              >
+                <MapPin className="w-4 h-4" /> ম্যাপে আঁকুন
+              </button>
+            </div>
+            <p className="text-[11px] text-stone-500">
+              {draft.lat === null ? 'কেন্দ্র এখনও সিলেক্ট করা হয়নি' : `কেন্দ্র: ${draft.lat.toFixed(4)}, ${draft.lng!.toFixed(4)}`}
+            </p>
+
+            <div>
+              <div className="flex justify-between text-xs font-bold text-stone-500 mb-1">
+                <span>ব্যাসার্ধ</span>
+                <span>{(draft.radius_m / 1000).toLocaleString('bn-BD')} কিমি</span>
+              </div>
+              <input
+                type="range"
+                {...ZONE_RADIUS}
+                value={draft.radius_m}
+                onChange={(e) => update({ radius_m: Number(e.target.value) })}
+                className="w-full accent-green-700"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {foodTypes.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => toggleFoodType(f.id)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-full text-xs font-bold border",
+                    draft.food_types.includes(f.id) ? "text-white" : "bg-white text-stone-600 border-stone-200"
+                  )}
+                  style={draft.food_types.includes(f.id) ? { backgroundColor: f.color, borderColor: f.color } : undefined}
+                >
+                  {f.label_bn}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-stone-500">কিছু সিলেক্ট না করলে সব খাবারের খবর পাবেন</p>
+
+            <div className="flex items-center gap-2 text-xs text-stone-600">
+              <span className="font-bold">সময়:</span>
+              <input
+                type="time"
+                value={draft.notify_from ?? ''}
+                onChange={(e) => update({ notify_from: e.target.value || null })}
+                className="px-2 py-1.5 bg-stone-100 rounded-lg"
+              />
+              <span>থেকে</span>
+              <input
+                type="time"
+                value={draft.notify_until ?? ''}
+                onChange={(e) => update({ notify_until: e.target.value || null })}
+                className="px-2 py-1.5 bg-stone-100 rounded-lg"
+              />
+            </div>
+            <FieldMessage error={error?.fields?.notify_from ?? error?.fields?.notify_until} />
+
+            {error && !error.fields && (
+              <p className="text-xs font-bold text-rose-600">{error.message_bn}</p>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving || draft.lat === null || !draft.name.trim()}
+              className="w-full py-4 bg-green-700 text-white rounded-2xl font-bold shadow-lg shadow-green-700/20 hover:bg-green-800 active:scale-[0.98] transition-all disabled:opacity-50"
+            >
+              {isSaving ? 'সংরক্ষণ হচ্ছে...' : 'জোন সংরক্ষণ করুন'}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}